@@ -0,0 +1,17 @@
+import { NextResponse } from 'next/server';
+import { issueNonce, NONCE_COOKIE, sessionCookieOptions, SignInError } from '../../../../lib/session';
+import { SIGN_IN_MESSAGE_TTL_MS } from '../../../../lib/siws';
+
+// GET /api/auth/nonce — a fresh nonce for the sign-in message, vouched for by an HTTP-only cookie
+export async function GET() {
+  try {
+    const { nonce, cookie, expiresAt } = issueNonce();
+    const response = NextResponse.json({ nonce, expiresAt }, { headers: { 'Cache-Control': 'no-store' } });
+    response.cookies.set(NONCE_COOKIE, cookie, sessionCookieOptions(SIGN_IN_MESSAGE_TTL_MS));
+    return response;
+  } catch (error) {
+    console.error('Error issuing sign-in nonce:', error);
+    const status = error instanceof SignInError ? error.status : 500;
+    return NextResponse.json({ error: (error as Error).message }, { status });
+  }
+}
@@ -0,0 +1,23 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { readSession, SESSION_COOKIE, SignInError } from '../../../../lib/session';
+
+// GET /api/auth/session — the signed-in wallet, or 401
+export async function GET(request: NextRequest) {
+  try {
+    const session = readSession(request.cookies.get(SESSION_COOKIE)?.value);
+    if (!session) {
+      return NextResponse.json({ error: 'Not signed in' }, { status: 401, headers: { 'Cache-Control': 'no-store' } });
+    }
+    return NextResponse.json(session, { headers: { 'Cache-Control': 'no-store' } });
+  } catch (error) {
+    const status = error instanceof SignInError ? error.status : 500;
+    return NextResponse.json({ error: (error as Error).message }, { status });
+  }
+}
+
+// DELETE /api/auth/session — signs out
+export async function DELETE() {
+  const response = new NextResponse(null, { status: 204 });
+  response.cookies.delete(SESSION_COOKIE);
+  return response;
+}
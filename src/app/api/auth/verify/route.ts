@@ -0,0 +1,35 @@
+import { NextRequest, NextResponse } from 'next/server';
+import {
+  createSessionCookie,
+  NONCE_COOKIE,
+  SESSION_COOKIE,
+  SESSION_TTL_MS,
+  sessionCookieOptions,
+  SignInError,
+  verifySignIn,
+} from '../../../../lib/session';
+
+// POST /api/auth/verify { message, signature } — checks the signed message and starts a session
+export async function POST(request: NextRequest) {
+  const body = await request.json().catch(() => null) as { message?: unknown; signature?: unknown } | null;
+  if (typeof body?.message !== 'string' || typeof body.signature !== 'string') {
+    return NextResponse.json({ error: 'Expected a message and a signature' }, { status: 400 });
+  }
+
+  try {
+    const session = verifySignIn(
+      { message: body.message, signature: body.signature },
+      request.cookies.get(NONCE_COOKIE)?.value,
+      request.headers.get('host'),
+    );
+    const response = NextResponse.json(session);
+    response.cookies.set(SESSION_COOKIE, createSessionCookie(session), sessionCookieOptions(SESSION_TTL_MS));
+    // The browser drops the nonce; the cookie itself stays valid until it expires, as nothing records used nonces
+    response.cookies.delete(NONCE_COOKIE);
+    return response;
+  } catch (error) {
+    if (!(error instanceof SignInError)) console.error('Error verifying sign-in:', error);
+    const status = error instanceof SignInError ? error.status : 500;
+    return NextResponse.json({ error: (error as Error).message }, { status });
+  }
+}
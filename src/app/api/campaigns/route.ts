@@ -0,0 +1,23 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { DEFAULT_CLUSTER_ID } from '../../../lib/clusters';
+import { CAMPAIGN_SNAPSHOT_REVALIDATE_SECONDS, getCampaignSnapshot, isSnapshotCluster } from '../../../lib/campaign-snapshot';
+
+// GET /api/campaigns?cluster=devnet — decoded campaign accounts, cached for CAMPAIGN_SNAPSHOT_REVALIDATE_SECONDS
+export async function GET(request: NextRequest) {
+  const cluster = request.nextUrl.searchParams.get('cluster') ?? DEFAULT_CLUSTER_ID;
+  if (!isSnapshotCluster(cluster)) {
+    return NextResponse.json({ error: `Unsupported cluster "${cluster}"` }, { status: 400 });
+  }
+
+  try {
+    const snapshot = await getCampaignSnapshot(cluster);
+    return NextResponse.json(snapshot, {
+      headers: {
+        'Cache-Control': `public, s-maxage=${CAMPAIGN_SNAPSHOT_REVALIDATE_SECONDS}, stale-while-revalidate=${CAMPAIGN_SNAPSHOT_REVALIDATE_SECONDS * 2}`,
+      },
+    });
+  } catch (error) {
+    console.error('Error fetching campaign snapshot:', error);
+    return NextResponse.json({ error: 'Could not fetch campaigns: ' + (error as Error).message }, { status: 502 });
+  }
+}
@@ -0,0 +1,284 @@
+'use client';
+
+import { useCallback, useEffect, useMemo, useRef, useState } from 'react';
+import Link from 'next/link';
+import { useParams } from 'next/navigation';
+import { PublicKey } from '@solana/web3.js';
+import { CampaignAccount, createCampaignClient } from '../../../lib/campaign-client';
+import { CampaignActivity, fetchCampaignHistory } from '../../../lib/history';
+import { getExplorerUrl } from '../../../lib/clusters';
+import { truncatePublicKey } from '../../../lib/format';
+import { Amount } from '../../../components/amount';
+import { CampaignAnalytics } from '../../../components/campaign-analytics';
+import { CampaignImage, CampaignLinks, Countdown, FundingProgress } from '../../../components/campaign-metadata';
+import { useI18n } from '../../../components/i18n-provider';
+import { useCampaignMetadata } from '../../../hooks/use-campaign-metadata';
+import { useCluster } from '../../../hooks/use-cluster';
+
+const HISTORY_PAGE_SIZE = 25;
+
+const parsePublicKey = (value: string | undefined): PublicKey | null => {
+  try {
+    return value ? new PublicKey(value) : null;
+  } catch {
+    return null;
+  }
+};
+
+export default function CampaignPage() {
+  const { t, formatDate } = useI18n();
+  // Errors are worded through a ref so a language switch does not reload the campaign and its history
+  const tRef = useRef(t);
+  useEffect(() => {
+    tRef.current = t;
+  }, [t]);
+  const params = useParams<{ pubkey: string }>();
+  const address = useMemo(() => parsePublicKey(params?.pubkey), [params]);
+  const { cluster, connection } = useCluster();
+  const client = useMemo(() => createCampaignClient({
+    connection,
+    programId: cluster.programId,
+  }), [connection, cluster]);
+
+  const [campaign, setCampaign] = useState<CampaignAccount | null>(null);
+  const [loading, setLoading] = useState<boolean>(true);
+  const [error, setError] = useState<string | null>(null);
+  const [history, setHistory] = useState<CampaignActivity[]>([]);
+  const [nextBefore, setNextBefore] = useState<string | null>(null);
+  const [loadingHistory, setLoadingHistory] = useState<boolean>(false);
+  const [copied, setCopied] = useState<boolean>(false);
+  const { metadata, text, loading: loadingMetadata, error: metadataError } = useCampaignMetadata(campaign?.account.description ?? '', t);
+
+  // Load the campaign and follow changes to it
+  useEffect(() => {
+    if (!address) return;
+    let cancelled = false;
+    setLoading(true);
+    setError(null);
+    client.fetchOne(address)
+      .then((found) => {
+        if (!cancelled) setCampaign(found);
+      })
+      .catch((err) => {
+        console.error('Error fetching campaign:', err);
+        if (!cancelled) setError(tRef.current('campaign.fetchFailed', { error: (err as Error).message }));
+      })
+      .finally(() => {
+        if (!cancelled) setLoading(false);
+      });
+
+    const unsubscribe = client.subscribeToCampaign(address, (update) => {
+      if (update.type === 'upsert') setCampaign(update.campaign);
+      if (update.type === 'remove') setCampaign(null);
+    });
+    return () => {
+      cancelled = true;
+      unsubscribe();
+    };
+  }, [client, address]);
+
+  // Bumped when the cluster or address changes, so pages requested for the previous one are dropped
+  const historyGeneration = useRef(0);
+
+  const loadHistory = useCallback(async (before?: string) => {
+    if (!address) return;
+    const generation = historyGeneration.current;
+    const cancelled = () => generation !== historyGeneration.current;
+    setLoadingHistory(true);
+    try {
+      const page = await fetchCampaignHistory(connection, cluster.programId, address, { limit: HISTORY_PAGE_SIZE, before });
+      if (cancelled()) return;
+      setHistory((prev) => before ? [...prev, ...page.activities] : page.activities);
+      setNextBefore(page.nextBefore);
+    } catch (err) {
+      console.error('Error fetching campaign history:', err);
+      if (!cancelled()) setError(tRef.current('campaign.historyFailed', { error: (err as Error).message }));
+    } finally {
+      if (!cancelled()) setLoadingHistory(false);
+    }
+  }, [connection, cluster, address]);
+
+  useEffect(() => {
+    setHistory([]);
+    setNextBefore(null);
+    loadHistory();
+    return () => {
+      historyGeneration.current++;
+    };
+  }, [loadHistory]);
+
+  const copyLink = useCallback(async () => {
+    try {
+      await navigator.clipboard.writeText(window.location.href);
+      setCopied(true);
+      setTimeout(() => setCopied(false), 2000);
+    } catch (err) {
+      console.warn('Could not copy link:', err);
+    }
+  }, []);
+
+  const renderContent = () => {
+    if (!address) {
+      return <p role="alert" className="text-center py-12 text-red-300">{t('campaign.invalidAddress', { address: params?.pubkey ?? '' })}</p>;
+    }
+    if (loading) {
+      return <p role="status" className="text-center py-12 text-gray-400">{t('campaign.loading')}</p>;
+    }
+    if (!campaign) {
+      return <p className="text-center py-12 text-gray-400">{t('campaign.notFound', { cluster: cluster.name })}</p>;
+    }
+
+    return (
+      <>
+        <div className="bg-gray-800 rounded-xl p-6 border border-gray-700 shadow-lg mb-8">
+          {metadata?.image && (
+            <CampaignImage
+              src={metadata.image}
+              alt={metadata.title || campaign.account.name}
+              className="w-full max-h-80 object-cover rounded-lg mb-6 border border-gray-700"
+            />
+          )}
+          <div className="flex flex-col sm:flex-row sm:justify-between sm:items-start gap-4 mb-4">
+            <div>
+              <h2 className="text-white text-3xl font-bold">{metadata?.title || campaign.account.name}</h2>
+              {metadata?.title && metadata.title !== campaign.account.name && (
+                <div className="text-sm text-gray-400 mt-1">{campaign.account.name}</div>
+              )}
+            </div>
+            <button
+              onClick={copyLink}
+              aria-live="polite"
+              className="px-4 py-2 bg-gray-700 hover:bg-gray-600 text-gray-300 text-sm font-semibold rounded-lg transition-colors"
+            >
+              {copied ? t('campaign.linkCopied') : t('campaign.copyLink')}
+            </button>
+          </div>
+          {text && <p className="text-gray-300 mb-6 leading-relaxed whitespace-pre-line">{text}</p>}
+          {loadingMetadata && <p className="text-gray-400 text-sm mb-6">{t('campaign.loadingDetails')}</p>}
+          {metadataError && <p className="text-yellow-300 text-sm mb-6">{t('campaign.detailsUnavailable', { error: metadataError })}</p>}
+          {metadata?.goal && <FundingProgress raised={campaign.account.amountDonated} goal={metadata.goal} />}
+          {metadata?.deadline && (
+            <div className="flex justify-between items-center mb-4 text-sm text-gray-400">
+              <span>{t('campaign.ends', { date: formatDate(metadata.deadline * 1000, { dateStyle: 'medium' }) })}</span>
+              <Countdown deadline={metadata.deadline} />
+            </div>
+          )}
+          {metadata?.links && metadata.links.length > 0 && <CampaignLinks links={metadata.links} />}
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+            <div>
+              <div className="text-xs text-gray-400 mb-1">{t('common.amountDonated')}</div>
+              <Amount lamports={campaign.account.amountDonated} className="block text-2xl font-bold text-green-400" />
+            </div>
+            <div>
+              <div className="text-xs text-gray-400 mb-1">{t('common.admin')}</div>
+              <a
+                href={getExplorerUrl(cluster, 'address', campaign.account.admin.toString())}
+                target="_blank"
+                rel="noopener noreferrer"
+                className="text-sm text-gray-300 hover:text-blue-400 font-mono break-all transition-colors"
+              >
+                {campaign.account.admin.toString()}
+              </a>
+            </div>
+          </div>
+          <a
+            href={getExplorerUrl(cluster, 'address', campaign.publicKey.toString())}
+            target="_blank"
+            rel="noopener noreferrer"
+            className="block mt-4 text-xs text-gray-500 hover:text-blue-400 font-mono bg-gray-900 p-2 rounded border border-gray-700 break-all transition-colors"
+          >
+            {campaign.publicKey.toString()}
+          </a>
+        </div>
+
+        <CampaignAnalytics campaign={campaign} connection={connection} programId={cluster.programId} />
+
+        <h3 className="text-2xl font-bold text-white mb-6 pb-4 border-b border-gray-700">{t('campaign.history')}</h3>
+        {history.length === 0 && !loadingHistory ? (
+          <div className="text-center py-12 bg-gray-800 rounded-xl border-2 border-dashed border-gray-600">
+            <p className="text-gray-400 text-lg">{t('campaign.noHistory')}</p>
+          </div>
+        ) : (
+          <div className="overflow-x-auto">
+            <table className="w-full text-sm text-left text-gray-300">
+              <thead className="text-xs text-gray-400 uppercase border-b border-gray-700">
+                <tr>
+                  <th scope="col" className="py-3 pr-4">{t('campaign.type')}</th>
+                  <th scope="col" className="py-3 pr-4">{t('common.amount')}</th>
+                  <th scope="col" className="py-3 pr-4">{t('campaign.fromTo')}</th>
+                  <th scope="col" className="py-3 pr-4">{t('common.time')}</th>
+                  <th scope="col" className="py-3">{t('common.transaction')}</th>
+                </tr>
+              </thead>
+              <tbody>
+                {history.map((activity, index) => (
+                  <tr key={`${activity.signature}-${index}`} className="border-b border-gray-800">
+                    <td className="py-3 pr-4">
+                      <span className={`px-2 py-1 rounded-full text-xs font-bold ${
+                        activity.type === 'donate' ? 'bg-green-900/50 text-green-300'
+                          : activity.type === 'withdraw' ? 'bg-yellow-900/50 text-yellow-300'
+                          : 'bg-blue-900/50 text-blue-300'
+                      }`}>
+                        {t(`campaign.type.${activity.type}`)}
+                      </span>
+                      {!activity.success && <span className="ml-2 text-xs text-red-400">{t('campaign.failed')}</span>}
+                    </td>
+                    <td className="py-3 pr-4 font-semibold">{activity.amount ? <Amount lamports={activity.amount} /> : '—'}</td>
+                    <td className="py-3 pr-4 font-mono">{truncatePublicKey(activity.user.toString())}</td>
+                    <td className="py-3 pr-4">{activity.blockTime ? formatDate(activity.blockTime * 1000) : t('common.unknownTime')}</td>
+                    <td className="py-3 font-mono">
+                      <a
+                        href={getExplorerUrl(cluster, 'tx', activity.signature)}
+                        target="_blank"
+                        rel="noopener noreferrer"
+                        className="hover:text-blue-400 transition-colors"
+                      >
+                        {truncatePublicKey(activity.signature)}
+                      </a>
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        )}
+        {(nextBefore || loadingHistory) && (
+          <div className="text-center mt-6">
+            <button
+              onClick={() => nextBefore && loadHistory(nextBefore)}
+              disabled={loadingHistory}
+              aria-busy={loadingHistory}
+              className="px-6 py-3 bg-gray-700 hover:bg-gray-600 disabled:bg-gray-800 text-white font-semibold rounded-lg transition-colors disabled:cursor-not-allowed"
+            >
+              {loadingHistory ? t('common.loading') : t('common.loadOlder')}
+            </button>
+          </div>
+        )}
+      </>
+    );
+  };
+
+  return (
+    <main className="min-h-screen bg-gradient-to-br from-gray-900 to-black py-8 px-4 sm:px-6 lg:px-8">
+      <div className="max-w-5xl mx-auto">
+        <div className="bg-gray-800/50 backdrop-blur-lg rounded-3xl p-6 md:p-8 shadow-2xl border border-gray-700/50">
+          <Link href="/" className="inline-block mb-6 text-blue-400 hover:text-blue-300 font-semibold">
+            {t('campaign.back')}
+          </Link>
+
+          {error && (
+            <div role="alert" className="p-4 mb-6 rounded-xl text-center font-semibold shadow-lg bg-red-900/30 border border-red-500/50 text-red-300">
+              {error}
+            </div>
+          )}
+
+          {renderContent()}
+
+          <footer className="mt-12 pt-8 border-t border-gray-700/50 text-center text-gray-500 text-sm">
+            <p>{t('app.dataSource', { cluster: cluster.name, endpoint: cluster.endpoint })}</p>
+          </footer>
+        </div>
+      </div>
+    </main>
+  );
+}
@@ -1,6 +1,9 @@
 import type { Metadata } from "next";
 import { Geist, Geist_Mono } from "next/font/google";
 import "./globals.css";
+import { AmountDisplayProvider } from "../components/amount";
+import { I18nProvider } from "../components/i18n-provider";
+import { DEFAULT_LOCALE, translate } from "../lib/i18n";
 
 const geistSans = Geist({
   variable: "--font-geist-sans",
@@ -13,21 +16,25 @@ const geistMono = Geist_Mono({
 });
 
 export const metadata: Metadata = {
-  title: "Create Next App",
-  description: "Generated by create next app",
+  title: translate("app.title"),
+  description: translate("app.description"),
 };
 
+// Reading the locale here (cookies, headers) would make every route dynamic, so pages are
+// prerendered in English and switch language on the client
 export default function RootLayout({
   children,
 }: Readonly<{
   children: React.ReactNode;
 }>) {
   return (
-    <html lang="en">
+    <html lang={DEFAULT_LOCALE}>
       <body
         className={`${geistSans.variable} ${geistMono.variable} antialiased`}
       >
-        {children}
+        <I18nProvider>
+          <AmountDisplayProvider>{children}</AmountDisplayProvider>
+        </I18nProvider>
       </body>
     </html>
   );
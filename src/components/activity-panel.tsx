@@ -0,0 +1,113 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import { TrackedTransaction, TransactionStatus } from '../lib/transactions';
+import { truncatePublicKey } from '../lib/format';
+import { useI18n } from './i18n-provider';
+
+const TRANSACTION_STATUS_STYLES: Record<TransactionStatus, string> = {
+  signing: 'bg-purple-900/50 text-purple-300',
+  sent: 'bg-blue-900/50 text-blue-300',
+  processed: 'bg-blue-900/50 text-blue-300',
+  confirmed: 'bg-green-900/50 text-green-300',
+  finalized: 'bg-green-900/50 text-green-300',
+  failed: 'bg-red-900/50 text-red-300',
+};
+
+// Activity panel listing recent transactions and their lifecycle
+export function ActivityPanel({ transactions, onDismiss, onClear }: {
+  transactions: TrackedTransaction[];
+  onDismiss: (id: string) => void;
+  onClear: () => void;
+}) {
+  const { t, formatDate } = useI18n();
+  const [open, setOpen] = useState<boolean>(false);
+  const latest = transactions[0];
+  const latestId = latest?.id;
+
+  // Pop the panel open whenever a new transaction starts
+  useEffect(() => {
+    if (latestId) setOpen(true);
+  }, [latestId]);
+
+  const inFlight = transactions.filter((transaction) => !['confirmed', 'finalized', 'failed'].includes(transaction.status)).length;
+
+  // The live region stays mounted while the list is empty so the first transaction is announced too
+  const announcement = (
+    <p role="status" aria-live="polite" aria-atomic="true" className="sr-only">
+      {latest && t('activity.announcement', { label: latest.label, status: t(`activity.status.${latest.status}`) })}
+    </p>
+  );
+
+  if (transactions.length === 0) return announcement;
+
+  return (
+    <div className="fixed bottom-4 right-4 z-50 w-[calc(100%-2rem)] max-w-sm">
+      {announcement}
+      {open && (
+        <div id="activity-panel" className="mb-2 max-h-96 overflow-y-auto bg-gray-800 border border-gray-700 rounded-xl shadow-2xl">
+          <div className="flex justify-between items-center px-4 py-3 border-b border-gray-700">
+            <h2 className="text-white font-bold">{t('activity.title')}</h2>
+            <button onClick={onClear} className="text-xs text-gray-400 hover:text-white transition-colors">
+              {t('activity.clear')}
+            </button>
+          </div>
+          <ul>
+            {transactions.map((transaction) => (
+              <li key={transaction.id} className="px-4 py-3 border-b border-gray-700/50 last:border-b-0">
+                <div className="flex justify-between items-start gap-2">
+                  <span className="text-sm text-gray-200 font-semibold">{transaction.label}</span>
+                  <button
+                    onClick={() => onDismiss(transaction.id)}
+                    className="text-gray-500 hover:text-white text-sm leading-none"
+                    aria-label={t('activity.dismiss', { label: transaction.label })}
+                  >
+                    <span aria-hidden="true">&times;</span>
+                  </button>
+                </div>
+                <div className="flex items-center gap-2 mt-1 text-xs">
+                  <span className={`px-2 py-0.5 rounded-full font-bold ${TRANSACTION_STATUS_STYLES[transaction.status]}`}>
+                    {t(`activity.status.${transaction.status}`)}
+                  </span>
+                  {transaction.attempts > 1 && <span className="text-gray-500">{t('activity.attempt', { attempt: transaction.attempts })}</span>}
+                  <span className="text-gray-500">{formatDate(transaction.updatedAt, { timeStyle: 'medium' })}</span>
+                  {transaction.explorerUrl && (
+                    <a
+                      href={transaction.explorerUrl}
+                      target="_blank"
+                      rel="noopener noreferrer"
+                      className="ml-auto text-blue-400 hover:text-blue-300 font-mono"
+                    >
+                      {truncatePublicKey(transaction.signature ?? '')}
+                    </a>
+                  )}
+                </div>
+                {transaction.error && (
+                  <details className="mt-2 text-xs text-red-300">
+                    <summary className="cursor-pointer break-all">{transaction.error}</summary>
+                    {transaction.logs && (
+                      <pre className="mt-2 p-2 bg-gray-900 rounded text-gray-400 whitespace-pre-wrap break-all">
+                        {transaction.logs.join('\n')}
+                      </pre>
+                    )}
+                  </details>
+                )}
+              </li>
+            ))}
+          </ul>
+        </div>
+      )}
+      <div className="flex justify-end">
+        <button
+          onClick={() => setOpen((prev) => !prev)}
+          aria-expanded={open}
+          aria-controls="activity-panel"
+          className="flex items-center gap-2 px-4 py-2 bg-gray-700 hover:bg-gray-600 text-white text-sm font-semibold rounded-full shadow-lg transition-colors"
+        >
+          {inFlight > 0 && <span className="w-2 h-2 bg-blue-400 rounded-full animate-pulse" aria-hidden="true"></span>}
+          {t('activity.toggle', { count: transactions.length })}
+        </button>
+      </div>
+    </div>
+  );
+}
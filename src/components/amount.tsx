@@ -0,0 +1,96 @@
+'use client';
+
+import { createContext, ReactNode, useCallback, useContext, useEffect, useMemo, useState } from 'react';
+import { Denomination, formatAmount, formatFiat, LamportAmount, lamportsToSolString } from '../lib/format';
+import { getDefaultPriceSource, PRICE_CACHE_MS, PriceSource } from '../lib/prices';
+import { useI18n } from './i18n-provider';
+
+const DENOMINATION_STORAGE_KEY = 'amountDenomination';
+
+interface AmountDisplaySettings {
+  denomination: Denomination;
+  setDenomination: (denomination: Denomination) => void;
+  locale?: string;
+  fiat: { price: number; currency: string } | null;
+}
+
+const AmountDisplayContext = createContext<AmountDisplaySettings>({
+  denomination: 'SOL',
+  setDenomination: () => {},
+  fiat: null,
+});
+
+export const useAmountDisplay = () => useContext(AmountDisplayContext);
+
+// Shares the chosen denomination, locale and fiat price with every <Amount> below it
+export function AmountDisplayProvider({ children, priceSource }: { children: ReactNode; priceSource?: PriceSource | null }) {
+  const [denomination, setDenominationState] = useState<Denomination>('SOL');
+  // The UI language, which the server already knows, so amounts render the same on both sides
+  const { locale } = useI18n();
+  const [fiat, setFiat] = useState<AmountDisplaySettings['fiat']>(null);
+  const source = useMemo(() => (priceSource === undefined ? getDefaultPriceSource() : priceSource), [priceSource]);
+
+  useEffect(() => {
+    if (localStorage.getItem(DENOMINATION_STORAGE_KEY) === 'lamports') setDenominationState('lamports');
+  }, []);
+
+  useEffect(() => {
+    if (!source) return;
+    let cancelled = false;
+    const load = () => source.getSolPrice().then((price) => {
+      if (!cancelled) setFiat(price === null ? null : { price, currency: source.currency });
+    });
+    load();
+    const timer = setInterval(load, PRICE_CACHE_MS);
+    return () => {
+      cancelled = true;
+      clearInterval(timer);
+    };
+  }, [source]);
+
+  const setDenomination = useCallback((next: Denomination) => {
+    localStorage.setItem(DENOMINATION_STORAGE_KEY, next);
+    setDenominationState(next);
+  }, []);
+
+  const value = useMemo(() => ({ denomination, setDenomination, locale, fiat }), [denomination, setDenomination, locale, fiat]);
+
+  return <AmountDisplayContext.Provider value={value}>{children}</AmountDisplayContext.Provider>;
+}
+
+// A lamport amount in the selected denomination, with the exact SOL value as tooltip
+export function Amount({ lamports, signed = false, showFiat = true, className }: {
+  lamports: LamportAmount;
+  // Prefix positive amounts with "+", e.g. for balance changes
+  signed?: boolean;
+  showFiat?: boolean;
+  className?: string;
+}) {
+  const { denomination, locale, fiat } = useAmountDisplay();
+  const exact = lamportsToSolString(lamports);
+  const positive = signed && !exact.startsWith('-') && exact !== '0';
+
+  return (
+    <span className={className} title={`${exact} SOL`}>
+      {positive ? '+' : ''}{formatAmount(lamports, { denomination, locale })}
+      {showFiat && fiat && (
+        <span className="ml-1 text-xs font-normal opacity-70">≈ {formatFiat(lamports, fiat.price, fiat.currency, locale)}</span>
+      )}
+    </span>
+  );
+}
+
+export function DenominationToggle() {
+  const { denomination, setDenomination } = useAmountDisplay();
+  const { t } = useI18n();
+
+  return (
+    <button
+      type="button"
+      onClick={() => setDenomination(denomination === 'SOL' ? 'lamports' : 'SOL')}
+      className="px-3 py-2 bg-gray-700 hover:bg-gray-600 text-gray-300 text-sm font-semibold rounded-lg transition-colors"
+    >
+      {t('common.showDenomination', { denomination: denomination === 'SOL' ? 'lamports' : 'SOL' })}
+    </button>
+  );
+}
@@ -0,0 +1,172 @@
+'use client';
+
+import { Connection, PublicKey } from '@solana/web3.js';
+import { DonationSeriesPoint } from '../lib/analytics';
+import { CampaignAccount } from '../lib/campaign-client';
+import { lamportsToSolString, truncatePublicKey } from '../lib/format';
+import { downloadReport, formatDonationReport, ReportFormat } from '../lib/reports';
+import { MAX_ANALYTICS_SIGNATURES, useCampaignAnalytics } from '../hooks/use-campaign-analytics';
+import { Amount } from './amount';
+import { useI18n } from './i18n-provider';
+
+const CHART_WIDTH = 600;
+const CHART_HEIGHT = 160;
+
+// CSV and JSON download buttons for a report
+export function ExportButtons({ label, disabled = false, onExport }: {
+  label: string;
+  disabled?: boolean;
+  onExport: (format: ReportFormat) => void;
+}) {
+  const { t } = useI18n();
+
+  return (
+    <div className="flex items-center gap-2" role="group" aria-label={label}>
+      {(['csv', 'json'] as ReportFormat[]).map((format) => (
+        <button
+          key={format}
+          type="button"
+          onClick={() => onExport(format)}
+          disabled={disabled}
+          className="px-3 py-1 bg-gray-700 hover:bg-gray-600 disabled:bg-gray-800 disabled:cursor-not-allowed text-gray-300 text-xs font-semibold rounded-lg transition-colors"
+        >
+          {t('analytics.exportFormat', { format: format.toUpperCase() })}
+        </button>
+      ))}
+    </div>
+  );
+}
+
+// Step chart of a running total over block time; the value only changes when a donation lands
+function StepChart({ title, points, formatValue }: {
+  title: string;
+  points: { time: number; value: number }[];
+  formatValue: (value: number) => string;
+}) {
+  const { t, formatDate: formatLocaleDate } = useI18n();
+  const first = points[0];
+  const last = points[points.length - 1];
+  const span = Math.max(last.time - first.time, 1);
+  const max = Math.max(last.value, ...points.map((point) => point.value), 1);
+  const x = (time: number) => ((time - first.time) / span) * CHART_WIDTH;
+  const y = (value: number) => CHART_HEIGHT - (value / max) * CHART_HEIGHT;
+
+  const path = points.reduce((d, point, i) => (
+    i === 0 ? `M0,${CHART_HEIGHT} V${y(point.value)}` : `${d} H${x(point.time)} V${y(point.value)}`
+  ), '') + ` H${CHART_WIDTH}`;
+  const formatDate = (time: number) => formatLocaleDate(time * 1000, { dateStyle: 'medium' });
+
+  return (
+    <figure className="bg-gray-900 rounded-lg border border-gray-700 p-4">
+      <figcaption className="flex justify-between items-baseline mb-3">
+        <span className="text-sm font-semibold text-gray-300">{title}</span>
+        <span className="text-lg font-bold text-white">{formatValue(last.value)}</span>
+      </figcaption>
+      <svg
+        viewBox={`0 0 ${CHART_WIDTH} ${CHART_HEIGHT}`}
+        preserveAspectRatio="none"
+        className="w-full h-32 text-blue-400"
+        role="img"
+        aria-label={t('analytics.chartSummary', {
+          title,
+          from: formatValue(first.value),
+          start: formatDate(first.time),
+          to: formatValue(last.value),
+          end: formatDate(last.time),
+        })}
+      >
+        <path d={`${path} V${CHART_HEIGHT} Z`} fill="currentColor" fillOpacity={0.15} />
+        <path d={path} fill="none" stroke="currentColor" strokeWidth={2} vectorEffect="non-scaling-stroke" />
+      </svg>
+      <div className="flex justify-between mt-2 text-xs text-gray-500">
+        <span>{formatDate(first.time)}</span>
+        <span>{formatDate(last.time)}</span>
+      </div>
+    </figure>
+  );
+}
+
+// Donation charts, top donors and the donation export for one campaign
+export function CampaignAnalytics({ campaign, connection, programId }: {
+  campaign: CampaignAccount;
+  connection: Connection;
+  programId: PublicKey;
+}) {
+  const { t, formatNumber } = useI18n();
+  const { donations, series, topDonors, truncated, loading, error } = useCampaignAnalytics(
+    connection,
+    programId,
+    campaign.publicKey,
+    campaign.account.amountDonated.toString()
+  );
+
+  const exportDonations = (format: ReportFormat) => {
+    downloadReport(formatDonationReport(donations, format), `donations-${campaign.publicKey.toBase58()}`, format);
+  };
+
+  const renderCharts = (points: DonationSeriesPoint[]) => {
+    const largest = topDonors[0]?.total;
+    return (
+      <>
+        <div className="grid grid-cols-1 lg:grid-cols-2 gap-4 mb-6">
+          <StepChart
+            title={t('analytics.cumulative')}
+            points={points.map((point) => ({ time: point.blockTime, value: Number(lamportsToSolString(point.cumulative)) }))}
+            formatValue={(value) => `${formatNumber(value, { maximumFractionDigits: 9 })} SOL`}
+          />
+          <StepChart
+            title={t('analytics.donors')}
+            points={points.map((point) => ({ time: point.blockTime, value: point.donors }))}
+            formatValue={(value) => formatNumber(value)}
+          />
+        </div>
+        <h4 className="text-sm font-semibold text-gray-300 mb-3">{t('analytics.topDonors')}</h4>
+        <ol className="space-y-2">
+          {topDonors.map(({ donor, total, donations: count }) => (
+            <li key={donor.toBase58()} className="grid grid-cols-[8rem_1fr_auto] items-center gap-3 text-sm">
+              <span className="font-mono text-gray-300" title={donor.toBase58()}>{truncatePublicKey(donor.toBase58())}</span>
+              <span className="h-2 bg-gray-900 rounded-full overflow-hidden">
+                <span
+                  className="block h-full bg-green-500 rounded-full"
+                  style={{ width: `${largest && !largest.isZero() ? total.muln(100).div(largest).toNumber() : 0}%` }}
+                />
+              </span>
+              <span className="text-right text-gray-300">
+                <Amount lamports={total} showFiat={false} className="font-semibold" />
+                <span className="ml-2 text-xs text-gray-500">{t('analytics.donationCount', { count })}</span>
+              </span>
+            </li>
+          ))}
+        </ol>
+      </>
+    );
+  };
+
+  const renderBody = () => {
+    if (loading && donations.length === 0) {
+      return <p role="status" className="text-center py-8 text-gray-400">{t('analytics.loading')}</p>;
+    }
+    if (error) {
+      return <p className="text-center py-8 text-yellow-300">{t('analytics.unavailable', { error })}</p>;
+    }
+    if (series.length === 0) {
+      return <p className="text-center py-8 text-gray-400">{t('analytics.empty')}</p>;
+    }
+    return renderCharts(series);
+  };
+
+  return (
+    <section className="bg-gray-800 rounded-xl p-6 border border-gray-700 shadow-lg mb-8" aria-labelledby="campaign-analytics-heading">
+      <div className="flex flex-wrap justify-between items-center gap-4 mb-6">
+        <h3 id="campaign-analytics-heading" className="text-2xl font-bold text-white">{t('analytics.title')}</h3>
+        <ExportButtons label={t('analytics.export')} disabled={loading || donations.length === 0} onExport={exportDonations} />
+      </div>
+      {truncated && (
+        <p className="mb-4 text-xs text-yellow-300">
+          {t('analytics.truncated', { count: MAX_ANALYTICS_SIGNATURES })}
+        </p>
+      )}
+      {renderBody()}
+    </section>
+  );
+}
@@ -0,0 +1,537 @@
+'use client';
+
+import { createContext, ReactNode, useCallback, useContext, useEffect, useMemo, useState } from 'react';
+import { PublicKey } from '@solana/web3.js';
+import { BN } from '@project-serum/anchor';
+import { toWalletSigner } from '../lib/wallets';
+import {
+  CampaignAccount,
+  campaignAccountSpace,
+  createCampaignClient,
+  deserializeCampaign,
+  describeSeeds,
+  getCampaignSeeds,
+  ProgramCheckResult,
+} from '../lib/campaign-client';
+import { ClusterId, getCluster } from '../lib/clusters';
+import { formatAmount, truncatePublicKey } from '../lib/format';
+import { decodeError, describeError } from '../lib/errors';
+import { MAX_SAFE_LAMPORTS, parseSolAmount, toSafeLamports } from '../lib/amounts';
+import { AIRDROP_COOLDOWN_MS, AirdropError, isFaucetAvailable, requestAirdrop } from '../lib/faucet';
+import {
+  DEFAULT_PRIORITY_FEE_LEVEL,
+  packInstructions,
+  pickTransactionVersion,
+  PRIORITY_FEE_LEVELS,
+  PriorityFeeLevel,
+} from '../lib/transaction-builder';
+import { useCluster } from '../hooks/use-cluster';
+import { useTransactionManager } from '../hooks/use-transactions';
+import { useBalance } from '../hooks/use-balance';
+import { useWalletConnection } from '../hooks/use-wallet-connection';
+import { useCampaigns } from '../hooks/use-campaigns';
+import { useConfirmation } from '../hooks/use-confirmation';
+import { useDonationCart } from '../hooks/use-donation-cart';
+import type { CampaignSnapshot } from '../lib/campaign-snapshot';
+import { useI18n } from './i18n-provider';
+
+const PRIORITY_FEE_STORAGE_KEY = 'priorityFeeLevel';
+
+export interface CreateCampaignArgs {
+  name: string;
+  description: string;
+}
+
+export interface BatchDonation {
+  campaign: PublicKey;
+  lamports: BN;
+}
+
+// Outcome of one donation in a batch; donations packed into the same transaction share it
+export type DonationResult =
+  | { campaign: PublicKey; ok: true; signature: string }
+  | { campaign: PublicKey; ok: false; error: string };
+
+// Wallet, cluster, campaign list and the program actions, shared by every component on the page
+function useCampaignAppState(initialSnapshot: CampaignSnapshot | null) {
+  const { t, locale } = useI18n();
+  const walletConnection = useWalletConnection({ signInOnConnect: process.env.NEXT_PUBLIC_SIGN_IN_ON_CONNECT === 'true', t });
+  const { isWalletConnected, publicKey, wallet, setWalletStatus } = walletConnection;
+  const { cluster, connection, customEndpoint, selectCluster } = useCluster(t);
+  const { transactions, track, dismiss: dismissTransaction, clear: clearTransactions } = useTransactionManager(cluster, connection, t);
+
+  // Typed program client for the selected cluster
+  const client = useMemo(() => createCampaignClient({
+    connection,
+    programId: cluster.programId,
+  }), [connection, cluster]);
+
+  // The snapshot only seeds the first render; the stored cluster is restored after hydration
+  const [initialCampaigns] = useState(() => (
+    initialSnapshot && initialSnapshot.cluster === cluster.id ? initialSnapshot.campaigns.map(deserializeCampaign) : []
+  ));
+  const { campaigns, undecodableAccounts, loading, error: campaignsError, liveMode, refresh: refreshCampaigns } = useCampaigns(client, initialCampaigns);
+
+  const [creatingCampaign, setCreatingCampaign] = useState<boolean>(false);
+  const [donatingCampaign, setDonatingCampaign] = useState<string | null>(null);
+  const [withdrawingCampaign, setWithdrawingCampaign] = useState<string | null>(null);
+  const [donatingBatch, setDonatingBatch] = useState<boolean>(false);
+  const cart = useDonationCart(cluster.endpoint);
+  const [existingCampaign, setExistingCampaign] = useState<CampaignAccount | null>(null);
+  const [programCheck, setProgramCheck] = useState<ProgramCheckResult | null>(null);
+  const { pendingConfirmation, requestConfirmation, refreshPreview, resolveConfirmation } = useConfirmation(connection, t);
+  const ownerKey = useMemo(() => (publicKey ? new PublicKey(publicKey) : null), [publicKey]);
+  const { balance, refresh: refreshBalance } = useBalance(connection, ownerKey);
+  const [airdropCooldownUntil, setAirdropCooldownUntil] = useState(0);
+  const [priorityFeeLevel, setPriorityFeeLevel] = useState<PriorityFeeLevel>(DEFAULT_PRIORITY_FEE_LEVEL);
+  const faucetAvailable = isFaucetAvailable(cluster);
+  // Prefer the live list entry so the dashboard follows donations to the wallet's campaign
+  const myCampaign = useMemo(() => (
+    existingCampaign
+      ? campaigns.find((campaign) => campaign.publicKey.equals(existingCampaign.publicKey)) ?? existingCampaign
+      : null
+  ), [campaigns, existingCampaign]);
+
+  useEffect(() => {
+    const stored = localStorage.getItem(PRIORITY_FEE_STORAGE_KEY) as PriorityFeeLevel | null;
+    if (stored && PRIORITY_FEE_LEVELS.includes(stored)) setPriorityFeeLevel(stored);
+  }, []);
+
+  const changePriorityFeeLevel = useCallback((level: PriorityFeeLevel) => {
+    localStorage.setItem(PRIORITY_FEE_STORAGE_KEY, level);
+    setPriorityFeeLevel(level);
+  }, []);
+
+  // Startup self-check of the IDL against the program on the selected cluster
+  useEffect(() => {
+    let cancelled = false;
+    setProgramCheck(null);
+    client.selfCheck().then((result) => {
+      if (cancelled) return;
+      if (!result.ok) console.warn('Program self-check failed:', result.problems);
+      setProgramCheck(result);
+    });
+    return () => {
+      cancelled = true;
+    };
+  }, [client]);
+
+  // Look up the campaign the connected wallet would create, so a duplicate is caught before signing
+  const refreshExistingCampaign = useCallback(async () => {
+    if (!publicKey) {
+      setExistingCampaign(null);
+      return null;
+    }
+    try {
+      const found = await client.findCampaignByAdmin(new PublicKey(publicKey));
+      setExistingCampaign(found);
+      return found;
+    } catch (error) {
+      console.warn('Could not look up existing campaign:', error);
+      setExistingCampaign(null);
+      return null;
+    }
+  }, [client, publicKey]);
+
+  useEffect(() => {
+    refreshExistingCampaign();
+  }, [refreshExistingCampaign]);
+
+  // Memoized signer function
+  const getSigner = useCallback(() => {
+    if (!wallet) {
+      throw new Error(t('status.noWalletSelected'));
+    }
+    return toWalletSigner(wallet);
+  }, [wallet, t]);
+
+  useEffect(() => {
+    if (campaignsError) {
+      setWalletStatus(t('status.fetchCampaignsFailed', { error: campaignsError }), 'error');
+    }
+  }, [campaignsError, setWalletStatus, t]);
+
+  useEffect(() => {
+    const mismatches = client.findSeedMismatches(campaigns);
+    if (mismatches.length > 0) {
+      console.warn('Campaigns not at their IDL-derived address:', mismatches.map((key) => key.toString()));
+    }
+  }, [client, campaigns]);
+
+  useEffect(() => {
+    if (undecodableAccounts.length > 0) {
+      setWalletStatus(t('status.undecodable', { count: undecodableAccounts.length }), 'warning');
+    }
+  }, [undecodableAccounts.length, setWalletStatus, t]);
+
+  const changeCluster = useCallback((id: ClusterId, endpoint?: string) => {
+    try {
+      selectCluster(id, endpoint);
+      setWalletStatus(t('status.clusterSwitched', { cluster: getCluster(id, endpoint).name }));
+    } catch (error) {
+      setWalletStatus(t('status.clusterSwitchFailed', { error: (error as Error).message }), 'error');
+    }
+  }, [selectCluster, setWalletStatus, t]);
+
+  // Airdrop from the cluster faucet; a rate-limit response pauses the faucet for a while
+  const airdrop = useCallback(async (owner: PublicKey, lamports: number) => {
+    try {
+      await requestAirdrop(connection, owner, lamports, t);
+      await refreshBalance();
+    } catch (error) {
+      if (error instanceof AirdropError && error.rateLimited) {
+        setAirdropCooldownUntil(Date.now() + AIRDROP_COOLDOWN_MS);
+      }
+      throw error;
+    }
+  }, [connection, refreshBalance, t]);
+
+  // Tops the wallet up to `minLamports` when it holds less
+  const ensureBalance = useCallback(async (owner: PublicKey, minLamports: number) => {
+    const current = await connection.getBalance(owner, 'confirmed');
+    if (current < minLamports) {
+      await airdrop(owner, minLamports - current);
+    }
+  }, [connection, airdrop]);
+
+  const requestFaucetAirdrop = useCallback(async (lamports: number, ensure = false) => {
+    if (!ownerKey) return;
+    try {
+      if (ensure) {
+        await ensureBalance(ownerKey, (balance ?? 0) + lamports);
+      } else {
+        await airdrop(ownerKey, lamports);
+      }
+      setWalletStatus(t('status.airdropped', { amount: formatAmount(lamports, { locale }) }), 'success');
+    } catch (error) {
+      console.warn('Airdrop failed:', error);
+      setWalletStatus((error as Error).message, error instanceof AirdropError && error.rateLimited ? 'warning' : 'error');
+    }
+  }, [ownerKey, balance, airdrop, ensureBalance, setWalletStatus, t, locale]);
+
+  // Manual refresh, also run after our own transactions
+  const getCampaigns = useCallback(async () => {
+    try {
+      await refreshCampaigns();
+    } catch (err) {
+      console.error('Error fetching campaign accounts:', err);
+      setWalletStatus(t('status.fetchCampaignsFailed', { error: (err as Error).message }), 'error');
+    }
+  }, [refreshCampaigns, setWalletStatus, t]);
+
+  // Resolves true once the campaign is created, so the form can reset
+  const createCampaign = useCallback(async ({ name, description }: CreateCampaignArgs) => {
+    if (!isWalletConnected || !publicKey || !name.trim()) {
+      setWalletStatus(t(!name.trim() ? 'status.enterCampaignName' : 'status.notConnected'), 'warning');
+      return false;
+    }
+
+    setCreatingCampaign(true);
+    try {
+      const signer = getSigner();
+
+      const existing = await refreshExistingCampaign();
+      if (existing) {
+        setWalletStatus(t('status.campaignExists', { name: existing.account.name }), 'warning');
+        return false;
+      }
+
+      const args = {
+        name,
+        description: description || t('form.defaultDescription'),
+      };
+      const [{ instructions }, rent] = await Promise.all([
+        client.withBudget(signer.publicKey, [client.createInstruction(signer.publicKey, args)], priorityFeeLevel),
+        connection.getMinimumBalanceForRentExemption(campaignAccountSpace(args.name, args.description)),
+      ]);
+      const confirmed = await requestConfirmation({
+        title: t('transaction.createCampaign', { name }),
+        payer: signer.publicKey,
+        transactions: [instructions],
+        options: { rent },
+      });
+      if (!confirmed) {
+        setWalletStatus(t('status.createCancelled'));
+        return false;
+      }
+
+      await client.sendAndConfirm(signer, instructions, { onUpdate: track(t('transaction.createCampaign', { name })) });
+
+      setWalletStatus(t('status.campaignCreated'), 'success');
+      await Promise.all([getCampaigns(), refreshExistingCampaign()]);
+      return true;
+    } catch (error) {
+      console.error('Error creating campaign:', error);
+      const decoded = decodeError(error, t);
+      const status = describeError(decoded, t('action.createCampaign'), t);
+      if (decoded.kind === 'anchor' && decoded.name === 'ConstraintSeeds') {
+        status.message += ` ${t('status.seedsHint', { seeds: describeSeeds(getCampaignSeeds()) })}`;
+      }
+      setWalletStatus(status.message, status.severity);
+      return false;
+    } finally {
+      setCreatingCampaign(false);
+    }
+  }, [isWalletConnected, publicKey, connection, client, priorityFeeLevel, getSigner, getCampaigns, refreshExistingCampaign, requestConfirmation, track, setWalletStatus, t]);
+
+  // `lamports` is already validated by the donation form; `amount` is the SOL value as the user typed it
+  const donateToCampaign = useCallback(async (campaignPubkey: PublicKey, lamports: BN, amount: string) => {
+    if (!isWalletConnected || !publicKey) {
+      setWalletStatus(t('status.notConnected'), 'warning');
+      return false;
+    }
+
+    const key = campaignPubkey.toString();
+    setDonatingCampaign(key);
+    try {
+      const signer = getSigner();
+      const transfer = toSafeLamports(lamports);
+      if (transfer === null) {
+        throw new Error(t('status.amountTooLarge', { amount: formatAmount(lamports, { locale }), max: formatAmount(MAX_SAFE_LAMPORTS, { locale }) }));
+      }
+
+      const { instructions } = await client.withBudget(
+        signer.publicKey,
+        [client.donateInstruction(campaignPubkey, signer.publicKey, lamports)],
+        priorityFeeLevel,
+      );
+      const confirmed = await requestConfirmation({
+        title: t('transaction.donate', { amount }),
+        payer: signer.publicKey,
+        transactions: [instructions],
+        options: { transfer },
+      });
+      if (!confirmed) {
+        setWalletStatus(t('status.donationCancelled'));
+        return false;
+      }
+
+      await client.sendAndConfirm(signer, instructions, {
+        onUpdate: track(t('transaction.donateTo', { amount, campaign: truncatePublicKey(key) })),
+      });
+
+      setWalletStatus(t('status.donated', { amount }), 'success');
+      await getCampaigns();
+      return true;
+    } catch (error) {
+      console.error('Error donating to campaign:', error);
+      const status = describeError(decodeError(error, t), t('action.donate'), t);
+      setWalletStatus(status.message, status.severity);
+      return false;
+    } finally {
+      setDonatingCampaign(null);
+    }
+  }, [isWalletConnected, publicKey, client, priorityFeeLevel, getSigner, getCampaigns, requestConfirmation, track, setWalletStatus, t, locale]);
+
+  // Donates to several campaigns with a single wallet prompt.
+  // Resolves with a result per donation, or null when nothing was sent (cancelled, rejected or not prepared).
+  const donateToMany = useCallback(async (donations: BatchDonation[]): Promise<DonationResult[] | null> => {
+    if (!isWalletConnected || !publicKey) {
+      setWalletStatus(t('status.notConnected'), 'warning');
+      return null;
+    }
+    if (donations.length === 0) return null;
+
+    setDonatingBatch(true);
+    try {
+      const signer = getSigner();
+
+      const version = pickTransactionVersion(signer.supportedTransactionVersions);
+      const groups = packInstructions(
+        signer.publicKey,
+        donations.map(({ campaign, lamports }) => client.donateInstruction(campaign, signer.publicKey, lamports)),
+        version,
+      );
+      const transactions = (await Promise.all(
+        groups.map((group) => client.withBudget(signer.publicKey, group, priorityFeeLevel))
+      )).map(({ instructions }) => instructions);
+      const total = donations.reduce((sum, { lamports }) => sum.add(lamports), new BN(0));
+      const transfer = toSafeLamports(total);
+      if (transfer === null) {
+        throw new Error(t('status.amountTooLarge', { amount: formatAmount(total, { locale }), max: formatAmount(MAX_SAFE_LAMPORTS, { locale }) }));
+      }
+
+      const confirmed = await requestConfirmation({
+        title: t('transaction.donateMany', { amount: formatAmount(total, { locale }), count: donations.length }),
+        payer: signer.publicKey,
+        transactions,
+        options: { transfer },
+      });
+      if (!confirmed) {
+        setWalletStatus(t('status.donationsCancelled'));
+        return null;
+      }
+
+      const settled = await client.sendAllAndConfirm(signer, transactions, {
+        onUpdates: groups.map((group, i) => {
+          const label = t('transaction.donateBatch', { count: group.length });
+          return track(groups.length > 1 ? t('transaction.batchPart', { label, part: i + 1, parts: groups.length }) : label);
+        }),
+      });
+
+      let offset = 0;
+      const results = groups.flatMap((group, i): DonationResult[] => {
+        const outcome = settled[i];
+        const packed = donations.slice(offset, offset + group.length);
+        offset += group.length;
+        return packed.map(({ campaign }) => (
+          outcome.status === 'fulfilled'
+            ? { campaign, ok: true, signature: outcome.value }
+            : { campaign, ok: false, error: decodeError(outcome.reason, t).message }
+        ));
+      });
+
+      const succeeded = results.filter((result) => result.ok).length;
+      if (succeeded === results.length) {
+        setWalletStatus(t('status.donatedToAll', { count: succeeded }), 'success');
+      } else {
+        setWalletStatus(t('status.donatedToSome', { succeeded, count: results.length }), succeeded > 0 ? 'warning' : 'error');
+      }
+      await getCampaigns();
+      return results;
+    } catch (error) {
+      console.error('Error donating to campaigns:', error);
+      const status = describeError(decodeError(error, t), t('action.donateMany'), t);
+      setWalletStatus(status.message, status.severity);
+      return null;
+    } finally {
+      setDonatingBatch(false);
+    }
+  }, [isWalletConnected, publicKey, client, priorityFeeLevel, getSigner, getCampaigns, requestConfirmation, track, setWalletStatus, t, locale]);
+
+  // Admin withdrawal
+  const withdrawFromCampaign = useCallback(async (campaignAccount: CampaignAccount, withdrawAmount: string) => {
+    if (!isWalletConnected || !publicKey) {
+      setWalletStatus(t('status.notConnected'), 'warning');
+      return false;
+    }
+
+    if (campaignAccount.account.admin.toString() !== publicKey) {
+      setWalletStatus(t('status.adminOnly'), 'warning');
+      return false;
+    }
+
+    const parsed = parseSolAmount(withdrawAmount);
+    if (!parsed || parsed.isZero()) {
+      setWalletStatus(t('status.invalidWithdrawal'), 'warning');
+      return false;
+    }
+    const amount = withdrawAmount.trim();
+
+    const campaignPubkey = campaignAccount.publicKey;
+    setWithdrawingCampaign(campaignPubkey.toString());
+    try {
+      const signer = getSigner();
+
+      if (campaignAccount.account.amountDonated.lt(parsed)) {
+        throw new Error(t('status.withdrawExceedsDonated', { amount, donated: formatAmount(campaignAccount.account.amountDonated, { locale }) }));
+      }
+
+      // The campaign account must stay rent exempt after the withdrawal
+      const available = await client.fetchWithdrawable(campaignPubkey);
+      if (available === null) {
+        throw new Error(t('status.campaignNotFound'));
+      }
+      // Compared as BN; once within the account's lamports the amount is a safe number
+      if (parsed.gt(new BN(available))) {
+        throw new Error(t('status.withdrawExceedsRent', { amount, available: formatAmount(available, { locale }) }));
+      }
+      const lamports = parsed.toNumber();
+
+      const { instructions } = await client.withBudget(
+        signer.publicKey,
+        [client.withdrawInstruction(campaignPubkey, signer.publicKey, parsed)],
+        priorityFeeLevel,
+      );
+      const confirmed = await requestConfirmation({
+        title: t('transaction.withdraw', { amount }),
+        payer: signer.publicKey,
+        transactions: [instructions],
+        options: { transfer: -lamports },
+      });
+      if (!confirmed) {
+        setWalletStatus(t('status.withdrawCancelled'));
+        return false;
+      }
+
+      await client.sendAndConfirm(signer, instructions, {
+        onUpdate: track(t('transaction.withdrawFrom', { amount, name: campaignAccount.account.name })),
+      });
+
+      setWalletStatus(t('status.withdrew', { amount }), 'success');
+      await getCampaigns();
+      return true;
+    } catch (error) {
+      console.error('Error withdrawing from campaign:', error);
+      const decoded = decodeError(error, t);
+      if (decoded.kind === 'anchor' && (decoded.name === 'ConstraintHasOne' || decoded.name === 'ConstraintRaw')) {
+        setWalletStatus(t('status.adminOnlyError'), 'error');
+      } else {
+        const status = describeError(decoded, t('action.withdraw'), t);
+        setWalletStatus(status.message, status.severity);
+      }
+      return false;
+    } finally {
+      setWithdrawingCampaign(null);
+    }
+  }, [isWalletConnected, publicKey, client, priorityFeeLevel, getSigner, getCampaigns, requestConfirmation, track, setWalletStatus, t, locale]);
+
+  return {
+    ...walletConnection,
+    ownerKey,
+    balance,
+    cluster,
+    connection,
+    customEndpoint,
+    changeCluster,
+    priorityFeeLevel,
+    changePriorityFeeLevel,
+    client,
+    programCheck,
+    campaigns,
+    undecodableAccounts,
+    loading,
+    liveMode,
+    getCampaigns,
+    existingCampaign,
+    myCampaign,
+    creatingCampaign,
+    donatingCampaign,
+    withdrawingCampaign,
+    createCampaign,
+    donateToCampaign,
+    withdrawFromCampaign,
+    cart,
+    donatingBatch,
+    donateToMany,
+    faucetAvailable,
+    airdropCooldownUntil,
+    requestFaucetAirdrop,
+    transactions,
+    dismissTransaction,
+    clearTransactions,
+    pendingConfirmation,
+    refreshPreview,
+    resolveConfirmation
+  };
+}
+
+export type CampaignAppState = ReturnType<typeof useCampaignAppState>;
+
+const CampaignAppContext = createContext<CampaignAppState | null>(null);
+
+export function CampaignAppProvider({ children, initialSnapshot = null }: {
+  children: ReactNode;
+  initialSnapshot?: CampaignSnapshot | null;
+}) {
+  const state = useCampaignAppState(initialSnapshot);
+  return <CampaignAppContext.Provider value={state}>{children}</CampaignAppContext.Provider>;
+}
+
+export const useCampaignApp = (): CampaignAppState => {
+  const state = useContext(CampaignAppContext);
+  if (!state) {
+    throw new Error('useCampaignApp must be used inside <CampaignAppProvider>');
+  }
+  return state;
+};
@@ -0,0 +1,194 @@
+'use client';
+
+import { memo, useId, useState } from 'react';
+import Link from 'next/link';
+import { PublicKey } from '@solana/web3.js';
+import { BN } from '@project-serum/anchor';
+import { CampaignAccount } from '../lib/campaign-client';
+import { ClusterConfig, getExplorerUrl } from '../lib/clusters';
+import { lamportsToSolString, truncatePublicKey } from '../lib/format';
+import { useCampaignMetadata } from '../hooks/use-campaign-metadata';
+import { Amount } from './amount';
+import { CampaignImage, CampaignLinks, Countdown, FundingProgress } from './campaign-metadata';
+import { DonationForm } from './donation-form';
+import { Spinner } from './spinner';
+import { useI18n } from './i18n-provider';
+
+interface CampaignCardProps {
+  campaign: CampaignAccount;
+  index: number;
+  cluster: ClusterConfig;
+  balance: number | null;
+  // Anonymous visitors can browse; donating needs a wallet
+  connected: boolean;
+  isAdmin: boolean;
+  donating: boolean;
+  withdrawing: boolean;
+  onDonate: (campaign: PublicKey, lamports: BN, amount: string) => Promise<boolean>;
+  // Tops the wallet up when a donation exceeds the balance; only on clusters with a faucet
+  onAirdrop?: (lamports: number) => Promise<void>;
+  onWithdraw: (campaign: CampaignAccount, amount: string) => Promise<boolean>;
+  inCart: boolean;
+  onToggleCart: (campaign: CampaignAccount) => void;
+}
+
+function WithdrawForm({ campaign, withdrawing, onWithdraw }: Pick<CampaignCardProps, 'campaign' | 'withdrawing' | 'onWithdraw'>) {
+  const [amount, setAmount] = useState<string>('');
+  const { t } = useI18n();
+
+  const withdraw = async () => {
+    if (await onWithdraw(campaign, amount)) {
+      setAmount('');
+    }
+  };
+
+  return (
+    <div className="mt-4 pt-4 border-t border-gray-700">
+      <div className="text-xs text-gray-400 mb-2 font-semibold">{t('card.withdrawTitle')}</div>
+      <div className="flex gap-2 mb-3">
+        <input
+          type="text"
+          inputMode="decimal"
+          aria-label={t('card.withdrawAmount')}
+          value={amount}
+          onChange={(e) => setAmount(e.target.value)}
+          className="flex-1 px-3 py-2 bg-gray-900 border border-gray-600 rounded text-white text-sm focus:outline-none focus:border-yellow-500"
+          placeholder={lamportsToSolString(campaign.account.amountDonated)}
+        />
+        <span className="px-3 py-2 bg-gray-700 text-gray-300 rounded text-sm font-semibold">SOL</span>
+      </div>
+      <button
+        onClick={withdraw}
+        disabled={withdrawing || !amount}
+        aria-busy={withdrawing}
+        className="w-full py-2 bg-gradient-to-r from-yellow-600 to-orange-600 hover:from-yellow-700 hover:to-orange-700 disabled:from-gray-600 disabled:to-gray-600 text-white font-semibold rounded-lg transition-all duration-300 transform hover:scale-105 disabled:scale-100 disabled:cursor-not-allowed shadow-lg"
+      >
+        {withdrawing ? (
+          <span className="flex items-center justify-center">
+            <Spinner className="-ml-1 mr-2 h-4 w-4" />
+            {t('card.withdrawing')}
+          </span>
+        ) : (
+          t('card.withdraw')
+        )}
+      </button>
+    </div>
+  );
+}
+
+function CampaignCardView({
+  campaign,
+  index,
+  cluster,
+  balance,
+  connected,
+  isAdmin,
+  donating,
+  withdrawing,
+  onDonate,
+  onAirdrop,
+  onWithdraw,
+  inCart,
+  onToggleCart,
+}: CampaignCardProps) {
+  const { metadata, text } = useCampaignMetadata(campaign.account.description);
+  const { t } = useI18n();
+  const titleId = useId();
+  const title = metadata?.title || campaign.account.name;
+
+  return (
+    <article aria-labelledby={titleId} className="bg-gray-800 rounded-xl p-6 border border-gray-700 shadow-lg hover:shadow-2xl transition-all duration-300 hover:border-blue-500 focus-within:border-blue-500 hover:transform hover:-translate-y-2">
+      {metadata?.image && (
+        <CampaignImage src={metadata.image} alt={title} className="w-full h-40 object-cover rounded-lg mb-4 border border-gray-700" />
+      )}
+      <div className="flex justify-between items-start mb-4">
+        <h3 id={titleId} className="text-white text-lg font-bold flex-1 mr-2">
+          <Link href={`/campaign/${campaign.publicKey.toString()}`} className="hover:text-blue-400 transition-colors">
+            {title}
+          </Link>
+        </h3>
+        <span className="bg-blue-600 text-white px-3 py-1 rounded-full text-sm font-bold shadow-lg">#{index + 1}</span>
+      </div>
+
+      {text && <p className="text-gray-300 mb-4 leading-relaxed">{text}</p>}
+
+      {metadata?.goal && <FundingProgress raised={campaign.account.amountDonated} goal={metadata.goal} />}
+      {metadata?.deadline && (
+        <div className="flex justify-between items-center mb-4 text-xs text-gray-400">
+          <span>{t('card.deadline')}</span>
+          <Countdown deadline={metadata.deadline} />
+        </div>
+      )}
+      {metadata?.links && metadata.links.length > 0 && <CampaignLinks links={metadata.links} />}
+
+      <div className="flex justify-between items-center mb-4">
+        <div>
+          <div className="text-xs text-gray-400 mb-1">{t('common.amountDonated')}</div>
+          <Amount lamports={campaign.account.amountDonated} className="block text-lg font-bold text-green-400" />
+        </div>
+        <div className="text-right">
+          <div className="text-xs text-gray-400 mb-1">{t('common.admin')}</div>
+          <div className="text-sm text-gray-300 font-mono" title={campaign.account.admin.toString()}>{truncatePublicKey(campaign.account.admin.toString())}</div>
+        </div>
+      </div>
+
+      {connected ? (
+        <>
+          <DonationForm
+            balance={balance}
+            donating={donating}
+            onDonate={(lamports, amount) => onDonate(campaign.publicKey, lamports, amount)}
+            onAirdrop={onAirdrop}
+          />
+          <button
+            onClick={() => onToggleCart(campaign)}
+            aria-pressed={inCart}
+            className={`w-full mt-2 py-2 text-sm font-semibold rounded-lg border transition-colors ${inCart ? 'bg-green-900/40 border-green-500/50 text-green-300 hover:bg-green-900/60' : 'bg-gray-700 border-gray-600 text-gray-300 hover:bg-gray-600'}`}
+          >
+            {inCart ? t('card.inCart') : t('card.addToCart')}
+          </button>
+        </>
+      ) : (
+        <p className="mt-4 pt-4 border-t border-gray-700 text-sm text-gray-400">{t('card.connectToDonate')}</p>
+      )}
+
+      {isAdmin && <WithdrawForm campaign={campaign} withdrawing={withdrawing} onWithdraw={onWithdraw} />}
+
+      <a
+        href={getExplorerUrl(cluster, 'address', campaign.publicKey.toString())}
+        target="_blank"
+        rel="noopener noreferrer"
+        className="block mt-4 text-xs text-gray-500 hover:text-blue-400 font-mono bg-gray-900 p-2 rounded border border-gray-700 break-all transition-colors"
+      >
+        {campaign.publicKey.toString()}
+      </a>
+    </article>
+  );
+}
+
+// Refetches hand back new account objects, so campaigns compare by address and decoded data
+const sameCampaign = (a: CampaignAccount, b: CampaignAccount) => (
+  a === b || (
+    a.publicKey.equals(b.publicKey)
+    && a.account.amountDonated.eq(b.account.amountDonated)
+    && a.account.name === b.account.name
+    && a.account.description === b.account.description
+    && a.account.admin.equals(b.account.admin)
+  )
+);
+
+export const CampaignCard = memo(CampaignCardView, (prev, next) => (
+  sameCampaign(prev.campaign, next.campaign)
+  && prev.index === next.index
+  && prev.cluster === next.cluster
+  && prev.balance === next.balance
+  && prev.connected === next.connected
+  && prev.isAdmin === next.isAdmin
+  && prev.donating === next.donating
+  && prev.withdrawing === next.withdrawing
+  && prev.onDonate === next.onDonate
+  && prev.onWithdraw === next.onWithdraw
+  && prev.inCart === next.inCart
+  && prev.onToggleCart === next.onToggleCart
+  && prev.onAirdrop === next.onAirdrop
+));
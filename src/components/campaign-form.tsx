@@ -0,0 +1,180 @@
+'use client';
+
+import { useId, useMemo, useState } from 'react';
+import { parseSolAmount } from '../lib/amounts';
+import { Translate } from '../lib/i18n';
+import { CampaignLink, encodeCampaignDescription, MAX_DESCRIPTION_BYTES, MetadataError } from '../lib/metadata';
+import { useCampaignApp } from './campaign-app-provider';
+import { Spinner } from './spinner';
+import { useI18n } from './i18n-provider';
+
+interface MetadataInputs {
+  title: string;
+  goal: string;
+  deadline: string;
+  image: string;
+  links: string;
+  uri: string;
+}
+
+const EMPTY_METADATA: MetadataInputs = { title: '', goal: '', deadline: '', image: '', links: '', uri: '' };
+
+const INPUT_CLASS = 'w-full px-4 py-3 bg-gray-900 border border-gray-600 rounded-lg text-white placeholder-gray-500 focus:outline-none focus:border-blue-500 focus:ring-1 focus:ring-blue-500 transition-colors';
+
+// One link per line: an optional label followed by the URL, e.g. "Website https://example.org"
+const parseLinks = (input: string): CampaignLink[] => input
+  .split('\n')
+  .map((line) => line.trim())
+  .filter(Boolean)
+  .map((line) => {
+    const separator = line.lastIndexOf(' ');
+    return separator === -1
+      ? { label: '', url: line }
+      : { label: line.slice(0, separator).trim(), url: line.slice(separator + 1) };
+  });
+
+// The description that will be stored on-chain, or why the inputs cannot be stored
+const buildDescription = (summary: string, inputs: MetadataInputs, t: Translate): { description: string } | { error: string } => {
+  const goal = inputs.goal.trim() ? parseSolAmount(inputs.goal) : undefined;
+  if (goal === null || goal?.isZero()) return { error: t('form.invalidGoal') };
+  const deadline = inputs.deadline ? Math.floor(new Date(inputs.deadline).getTime() / 1000) : undefined;
+  if (deadline !== undefined && !(deadline * 1000 > Date.now())) return { error: t('form.pastDeadline') };
+
+  try {
+    return {
+      description: encodeCampaignDescription({
+        uri: inputs.uri.trim() || undefined,
+        title: inputs.title.trim() || undefined,
+        summary: summary.trim() || undefined,
+        image: inputs.image.trim() || undefined,
+        goal,
+        deadline,
+        links: parseLinks(inputs.links),
+      }, t),
+    };
+  } catch (error) {
+    if (error instanceof MetadataError) return { error: error.message };
+    throw error;
+  }
+};
+
+export function CampaignForm() {
+  const { existingCampaign, creatingCampaign, createCampaign } = useCampaignApp();
+  const { t } = useI18n();
+  // Prefix for the input ids the labels point at
+  const id = useId();
+  const [campaignName, setCampaignName] = useState('');
+  const [campaignDescription, setCampaignDescription] = useState('');
+  const [metadataInputs, setMetadataInputs] = useState<MetadataInputs>(EMPTY_METADATA);
+
+  const built = useMemo(() => buildDescription(campaignDescription, metadataInputs, t), [campaignDescription, metadataInputs, t]);
+  const descriptionBytes = 'description' in built ? new TextEncoder().encode(built.description).length : null;
+
+  const setMetadataInput = (field: keyof MetadataInputs) => (
+    e: React.ChangeEvent<HTMLInputElement | HTMLTextAreaElement>
+  ) => setMetadataInputs((prev) => ({ ...prev, [field]: e.target.value }));
+
+  const create = async () => {
+    if (!('description' in built)) return;
+    if (await createCampaign({ name: campaignName, description: built.description })) {
+      setCampaignName('');
+      setCampaignDescription('');
+      setMetadataInputs(EMPTY_METADATA);
+    }
+  };
+
+  return (
+    <section className="bg-gray-800 rounded-xl p-6 mb-6 border border-gray-700 shadow-lg" aria-labelledby={`${id}-title`}>
+      <h3 id={`${id}-title`} className="text-white text-xl font-bold mb-4">{t('form.title')}</h3>
+      {existingCampaign && (
+        <div className="mb-4 p-3 rounded-lg bg-yellow-900/30 border border-yellow-500/50 text-yellow-300 text-sm">
+          {t('form.existing', { name: existingCampaign.account.name })}
+        </div>
+      )}
+      <div className="space-y-4">
+        <div>
+          <label htmlFor={`${id}-name`} className="block text-gray-300 mb-2 font-semibold">
+            {t('form.name')} <span aria-hidden="true">*</span>
+          </label>
+          <input
+            id={`${id}-name`}
+            type="text"
+            required
+            aria-required="true"
+            value={campaignName}
+            onChange={(e) => setCampaignName(e.target.value)}
+            placeholder={t('form.namePlaceholder')}
+            className="w-full px-4 py-3 bg-gray-900 border border-gray-600 rounded-lg text-white placeholder-gray-500 focus:outline-none focus:border-blue-500 focus:ring-1 focus:ring-blue-500 transition-colors"
+          />
+        </div>
+        <div>
+          <label htmlFor={`${id}-description`} className="block text-gray-300 mb-2 font-semibold">{t('form.description')}</label>
+          <textarea
+            id={`${id}-description`}
+            value={campaignDescription}
+            onChange={(e) => setCampaignDescription(e.target.value)}
+            placeholder={t('form.descriptionPlaceholder')}
+            rows={3}
+            className="w-full px-4 py-3 bg-gray-900 border border-gray-600 rounded-lg text-white placeholder-gray-500 focus:outline-none focus:border-blue-500 focus:ring-1 focus:ring-blue-500 transition-colors resize-vertical"
+          />
+        </div>
+        <details className="bg-gray-900/50 rounded-lg border border-gray-700 p-4">
+          <summary className="text-gray-300 font-semibold cursor-pointer">{t('form.details')}</summary>
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-4 mt-4">
+            <div className="md:col-span-2">
+              <label htmlFor={`${id}-title-input`} className="block text-gray-300 mb-2 text-sm font-semibold">{t('form.displayTitle')}</label>
+              <input id={`${id}-title-input`} type="text" value={metadataInputs.title} onChange={setMetadataInput('title')} placeholder={t('form.displayTitlePlaceholder')} className={INPUT_CLASS} />
+            </div>
+            <div>
+              <label htmlFor={`${id}-goal`} className="block text-gray-300 mb-2 text-sm font-semibold">{t('form.goal')}</label>
+              <input id={`${id}-goal`} type="text" inputMode="decimal" value={metadataInputs.goal} onChange={setMetadataInput('goal')} placeholder={t('form.goalPlaceholder')} className={INPUT_CLASS} />
+            </div>
+            <div>
+              <label htmlFor={`${id}-deadline`} className="block text-gray-300 mb-2 text-sm font-semibold">{t('form.deadline')}</label>
+              <input id={`${id}-deadline`} type="datetime-local" value={metadataInputs.deadline} onChange={setMetadataInput('deadline')} className={INPUT_CLASS} />
+            </div>
+            <div className="md:col-span-2">
+              <label htmlFor={`${id}-image`} className="block text-gray-300 mb-2 text-sm font-semibold">{t('form.image')}</label>
+              <input id={`${id}-image`} type="url" value={metadataInputs.image} onChange={setMetadataInput('image')} placeholder="https://... or ipfs://..." className={INPUT_CLASS} />
+            </div>
+            <div className="md:col-span-2">
+              <label htmlFor={`${id}-links`} className="block text-gray-300 mb-2 text-sm font-semibold">{t('form.links')}</label>
+              <textarea
+                id={`${id}-links`}
+                value={metadataInputs.links}
+                onChange={setMetadataInput('links')}
+                placeholder={t('form.linksPlaceholder')}
+                rows={2}
+                className={`${INPUT_CLASS} resize-vertical`}
+              />
+            </div>
+            <div className="md:col-span-2">
+              <label htmlFor={`${id}-uri`} className="block text-gray-300 mb-2 text-sm font-semibold">{t('form.uri')}</label>
+              <input id={`${id}-uri`} type="url" value={metadataInputs.uri} onChange={setMetadataInput('uri')} placeholder={t('form.uriPlaceholder')} className={INPUT_CLASS} />
+            </div>
+          </div>
+        </details>
+        {'error' in built ? (
+          <p role="alert" className="text-sm text-red-400">{built.error}</p>
+        ) : descriptionBytes !== null && descriptionBytes > MAX_DESCRIPTION_BYTES / 2 && (
+          <p className="text-xs text-gray-400">{t('form.bytesUsed', { used: descriptionBytes, max: MAX_DESCRIPTION_BYTES })}</p>
+        )}
+        <button
+          onClick={create}
+          disabled={creatingCampaign || !campaignName.trim() || Boolean(existingCampaign) || 'error' in built}
+          aria-busy={creatingCampaign}
+          className="w-full py-3 px-6 bg-gradient-to-r from-blue-600 to-purple-600 hover:from-blue-700 hover:to-purple-700 disabled:from-gray-600 disabled:to-gray-600 disabled:cursor-not-allowed text-white font-bold rounded-lg transition-all duration-300 transform hover:scale-105 disabled:scale-100 shadow-lg"
+        >
+          {creatingCampaign ? (
+            <span className="flex items-center justify-center">
+              <Spinner className="-ml-1 mr-3 h-5 w-5" />
+              {t('form.creating')}
+            </span>
+          ) : (
+            t('form.create')
+          )}
+        </button>
+      </div>
+    </section>
+  );
+}
@@ -0,0 +1,117 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import { BN } from '@project-serum/anchor';
+import { Translate } from '../lib/i18n';
+import { CampaignLink, goalProgress, resolveMetadataUri } from '../lib/metadata';
+import { Amount } from './amount';
+import { useI18n } from './i18n-provider';
+
+const SECOND = 1000;
+const MINUTE = 60 * SECOND;
+const HOUR = 60 * MINUTE;
+const DAY = 24 * HOUR;
+
+const formatRemaining = (ms: number, t: Translate): string => {
+  if (ms >= DAY) return t('metadata.daysLeft', { days: Math.floor(ms / DAY), hours: Math.floor((ms % DAY) / HOUR) });
+  if (ms >= HOUR) return t('metadata.hoursLeft', { hours: Math.floor(ms / HOUR), minutes: Math.floor((ms % HOUR) / MINUTE) });
+  return t('metadata.minutesLeft', { minutes: Math.floor(ms / MINUTE), seconds: Math.floor((ms % MINUTE) / SECOND) });
+};
+
+export function FundingProgress({ raised, goal }: { raised: BN; goal: BN }) {
+  const { t, formatNumber } = useI18n();
+  const basisPoints = goalProgress(raised, goal);
+  const percent = basisPoints / 100;
+  const digits = percent < 10 ? 1 : 0;
+
+  return (
+    <div className="mb-4">
+      <div className="flex justify-between text-xs text-gray-400 mb-1">
+        <span>
+          {percent >= 100
+            ? t('metadata.goalReached')
+            : t('metadata.funded', { percent: formatNumber(percent, { minimumFractionDigits: digits, maximumFractionDigits: digits }) })}
+        </span>
+        <span>{t('metadata.goal')} <Amount lamports={goal} /></span>
+      </div>
+      <div
+        role="progressbar"
+        aria-valuemin={0}
+        aria-valuemax={100}
+        aria-valuenow={Math.min(percent, 100)}
+        aria-label={t('metadata.progress')}
+        className="h-2 bg-gray-900 rounded-full overflow-hidden border border-gray-700"
+      >
+        <div
+          className={`h-full rounded-full ${percent >= 100 ? 'bg-green-500' : 'bg-gradient-to-r from-blue-500 to-purple-500'}`}
+          style={{ width: `${Math.min(percent, 100)}%` }}
+        />
+      </div>
+    </div>
+  );
+}
+
+// Ticks every second in the last hour and every minute before that
+export function Countdown({ deadline }: { deadline: number }) {
+  const { t, formatDate } = useI18n();
+  const [now, setNow] = useState<number | null>(null);
+  const remaining = now === null ? null : deadline * 1000 - now;
+  const ended = remaining !== null && remaining <= 0;
+  const finalHour = remaining !== null && remaining < HOUR;
+
+  useEffect(() => {
+    setNow(Date.now());
+    if (ended) return;
+    const timer = setInterval(() => setNow(Date.now()), finalHour ? SECOND : MINUTE);
+    return () => clearInterval(timer);
+  }, [deadline, ended, finalHour]);
+
+  const endsAt = new Date(deadline * 1000);
+  // Rendered on the server too, so anything clock- or timezone-dependent waits for the client
+  const label = remaining === null ? '' : ended ? t('metadata.ended') : formatRemaining(remaining, t);
+
+  return (
+    <time
+      dateTime={endsAt.toISOString()}
+      title={now === null ? undefined : formatDate(endsAt)}
+      className={`text-xs font-semibold ${ended ? 'text-gray-500' : 'text-yellow-300'}`}
+    >
+      {label}
+    </time>
+  );
+}
+
+export function CampaignImage({ src, alt, className }: { src: string; alt: string; className?: string }) {
+  const [failed, setFailed] = useState<boolean>(false);
+  if (failed) return null;
+
+  return (
+    // Images come from arbitrary hosts, which next/image would need to allow-list
+    <img
+      src={resolveMetadataUri(src)}
+      alt={alt}
+      loading="lazy"
+      onError={() => setFailed(true)}
+      className={className}
+    />
+  );
+}
+
+export function CampaignLinks({ links }: { links: CampaignLink[] }) {
+  return (
+    <ul className="flex flex-wrap gap-2 mb-4">
+      {links.map((link) => (
+        <li key={link.url}>
+          <a
+            href={resolveMetadataUri(link.url)}
+            target="_blank"
+            rel="noopener noreferrer nofollow"
+            className="inline-block px-3 py-1 bg-gray-700 hover:bg-gray-600 text-blue-300 text-xs font-semibold rounded-full transition-colors break-all"
+          >
+            {link.label}
+          </a>
+        </li>
+      ))}
+    </ul>
+  );
+}
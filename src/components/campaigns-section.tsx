@@ -0,0 +1,246 @@
+'use client';
+
+import { useMemo } from 'react';
+import { getExplorerUrl } from '../lib/clusters';
+import { applyCampaignView, CAMPAIGN_FILTERS, CAMPAIGN_SORTS, CampaignFilter, CampaignSort, CampaignView } from '../lib/campaign-view';
+import { downloadReport, formatCampaignReport, ReportFormat } from '../lib/reports';
+import { useCampaignView } from '../hooks/use-campaign-view';
+import { useDonatedCampaigns } from '../hooks/use-donated-campaigns';
+import { POLL_INTERVAL_MS } from '../hooks/use-campaigns';
+import { useCampaignApp } from './campaign-app-provider';
+import { CampaignCard } from './campaign-card';
+import { ExportButtons } from './campaign-analytics';
+import { Spinner } from './spinner';
+import { useI18n } from './i18n-provider';
+
+// Search, sort and filter controls for the campaigns grid, with the list export
+function CampaignToolbar({ view, onChange, canExport, onExport }: {
+  view: CampaignView;
+  onChange: (update: Partial<CampaignView>) => void;
+  canExport: boolean;
+  onExport: (format: ReportFormat) => void;
+}) {
+  const { t } = useI18n();
+
+  return (
+    <div className="flex flex-wrap gap-3 mb-6">
+      <input
+        type="search"
+        value={view.query}
+        onChange={(e) => onChange({ query: e.target.value })}
+        placeholder={t('campaigns.searchPlaceholder')}
+        aria-label={t('campaigns.search')}
+        className="flex-1 min-w-[12rem] px-4 py-2 bg-gray-900 border border-gray-600 rounded-lg text-white text-sm placeholder-gray-500 focus:outline-none focus:border-blue-500"
+      />
+      <select
+        value={view.sort}
+        onChange={(e) => onChange({ sort: e.target.value as CampaignSort })}
+        aria-label={t('campaigns.sortLabel')}
+        className="px-3 py-2 bg-gray-900 border border-gray-600 rounded-lg text-white text-sm focus:outline-none focus:border-blue-500"
+      >
+        {CAMPAIGN_SORTS.map((value) => (
+          <option key={value} value={value}>{t(`campaigns.sort.${value}`)}</option>
+        ))}
+      </select>
+      <select
+        value={view.filter}
+        onChange={(e) => onChange({ filter: e.target.value as CampaignFilter })}
+        aria-label={t('campaigns.filterLabel')}
+        className="px-3 py-2 bg-gray-900 border border-gray-600 rounded-lg text-white text-sm focus:outline-none focus:border-blue-500"
+      >
+        {CAMPAIGN_FILTERS.map((value) => (
+          <option key={value} value={value}>{t(`campaigns.filter.${value}`)}</option>
+        ))}
+      </select>
+      <ExportButtons label={t('campaigns.export')} disabled={!canExport} onExport={onExport} />
+    </div>
+  );
+}
+
+function Pagination({ page, pageCount, onPageChange }: {
+  page: number;
+  pageCount: number;
+  onPageChange: (page: number) => void;
+}) {
+  const { t } = useI18n();
+  if (pageCount <= 1) return null;
+
+  return (
+    <nav className="flex items-center justify-center gap-4 mt-8" aria-label={t('campaigns.pages')}>
+      <button
+        onClick={() => onPageChange(page - 1)}
+        disabled={page <= 1}
+        className="px-4 py-2 bg-gray-700 hover:bg-gray-600 disabled:bg-gray-800 disabled:cursor-not-allowed text-gray-300 text-sm font-semibold rounded-lg transition-colors"
+      >
+        {t('campaigns.previous')}
+      </button>
+      <span className="text-gray-400 text-sm">{t('campaigns.page', { page, pages: pageCount })}</span>
+      <button
+        onClick={() => onPageChange(page + 1)}
+        disabled={page >= pageCount}
+        className="px-4 py-2 bg-gray-700 hover:bg-gray-600 disabled:bg-gray-800 disabled:cursor-not-allowed text-gray-300 text-sm font-semibold rounded-lg transition-colors"
+      >
+        {t('campaigns.next')}
+      </button>
+    </nav>
+  );
+}
+
+// Campaign list with its toolbar, live indicator and the accounts that failed to decode
+export function CampaignsSection() {
+  const {
+    client,
+    cluster,
+    isWalletConnected,
+    publicKey,
+    ownerKey,
+    balance,
+    campaigns,
+    undecodableAccounts,
+    loading,
+    liveMode,
+    getCampaigns,
+    donatingCampaign,
+    withdrawingCampaign,
+    donateToCampaign,
+    withdrawFromCampaign,
+    faucetAvailable,
+    requestFaucetAirdrop,
+    cart,
+  } = useCampaignApp();
+  const { t } = useI18n();
+  const { view, updateView } = useCampaignView();
+  const { donated, loading: donatedLoading } = useDonatedCampaigns(client, ownerKey, view.filter === 'donated');
+  const visibleCampaigns = useMemo(
+    () => applyCampaignView(campaigns, view, { owner: publicKey, donated }),
+    [campaigns, view, publicKey, donated]
+  );
+
+  // The whole list, regardless of the search and filter in view
+  const exportCampaigns = (format: ReportFormat) => {
+    downloadReport(formatCampaignReport(campaigns, format), `campaigns-${cluster.id}`, format);
+  };
+
+  const cartKeys = useMemo(() => new Set(cart.items.map((item) => item.campaign)), [cart.items]);
+
+  const renderGrid = () => {
+    if (loading && campaigns.length === 0) {
+      return <div className="text-center py-12 text-gray-400"><p>{t('campaigns.loading')}</p></div>;
+    }
+
+    if (campaigns.length === 0) {
+      return (
+        <div className="text-center py-12 bg-gray-800 rounded-xl border-2 border-dashed border-gray-600">
+          <p className="text-gray-400 text-lg">{t('campaigns.empty')}</p>
+        </div>
+      );
+    }
+
+    if (view.filter === 'donated' && donatedLoading) {
+      return <div className="text-center py-12 text-gray-400"><p>{t('campaigns.lookingUpDonations')}</p></div>;
+    }
+
+    if (visibleCampaigns.total === 0) {
+      return (
+        <div className="text-center py-12 bg-gray-800 rounded-xl border-2 border-dashed border-gray-600">
+          <p className="text-gray-400 text-lg">{t('campaigns.noMatches')}</p>
+        </div>
+      );
+    }
+
+    return (
+      <>
+        <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-6">
+          {visibleCampaigns.items.map((campaign, index) => {
+            const key = campaign.publicKey.toString();
+            return (
+              <CampaignCard
+                key={key}
+                campaign={campaign}
+                index={visibleCampaigns.offset + index}
+                cluster={cluster}
+                balance={balance}
+                connected={isWalletConnected}
+                isAdmin={publicKey === campaign.account.admin.toString()}
+                donating={donatingCampaign === key}
+                withdrawing={withdrawingCampaign === key}
+                onDonate={donateToCampaign}
+                onAirdrop={faucetAvailable ? requestFaucetAirdrop : undefined}
+                onWithdraw={withdrawFromCampaign}
+                inCart={cartKeys.has(key)}
+                onToggleCart={cart.toggleItem}
+              />
+            );
+          })}
+        </div>
+        <Pagination
+          page={visibleCampaigns.page}
+          pageCount={visibleCampaigns.pageCount}
+          onPageChange={(page) => updateView({ page })}
+        />
+      </>
+    );
+  };
+
+  return (
+    <>
+      <div className="flex flex-wrap gap-4 justify-center mb-6">
+        <button
+          onClick={getCampaigns}
+          disabled={loading}
+          aria-busy={loading}
+          className="px-6 py-3 bg-gray-700 hover:bg-gray-600 disabled:bg-gray-800 text-white font-semibold rounded-lg transition-all duration-300 transform hover:scale-105 disabled:scale-100 disabled:cursor-not-allowed shadow-lg"
+        >
+          {loading ? (
+            <span className="flex items-center">
+              <Spinner className="-ml-1 mr-3 h-5 w-5" />
+              {t('common.loading')}
+            </span>
+          ) : (
+            t('campaigns.refresh')
+          )}
+        </button>
+      </div>
+
+      <div className="mt-8">
+        <h2 className="flex items-center justify-between text-2xl font-bold text-white mb-6 pb-4 border-b border-gray-700">
+          <span>
+            {visibleCampaigns.total === campaigns.length
+              ? t('campaigns.heading', { count: campaigns.length })
+              : t('campaigns.headingFiltered', { visible: visibleCampaigns.total, count: campaigns.length })}
+          </span>
+          {liveMode !== 'off' && (
+            <span className="flex items-center text-xs font-semibold text-gray-400">
+              <span className={`w-2 h-2 rounded-full mr-2 ${liveMode === 'websocket' ? 'bg-green-400 animate-pulse' : 'bg-yellow-400'}`} aria-hidden="true"></span>
+              {liveMode === 'websocket' ? t('campaigns.live') : t('campaigns.polling', { seconds: POLL_INTERVAL_MS / 1000 })}
+            </span>
+          )}
+        </h2>
+        <CampaignToolbar view={view} onChange={updateView} canExport={campaigns.length > 0} onExport={exportCampaigns} />
+        {renderGrid()}
+        {undecodableAccounts.length > 0 && (
+          <details className="mt-6 p-4 rounded-xl bg-yellow-900/20 border border-yellow-500/40 text-yellow-300 text-sm">
+            <summary className="cursor-pointer font-semibold">
+              {t('campaigns.undecodable', { count: undecodableAccounts.length })}
+            </summary>
+            <ul className="mt-3 space-y-2">
+              {undecodableAccounts.map(({ publicKey: address, error }) => (
+                <li key={address.toString()} className="font-mono break-all">
+                  <a
+                    href={getExplorerUrl(cluster, 'address', address.toString())}
+                    target="_blank"
+                    rel="noopener noreferrer"
+                    className="hover:text-yellow-100"
+                  >
+                    {address.toString()}
+                  </a>
+                  <span className="text-yellow-500"> — {error}</span>
+                </li>
+              ))}
+            </ul>
+          </details>
+        )}
+      </div>
+    </>
+  );
+}
@@ -0,0 +1,70 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import { ClusterId, CLUSTER_IDS, getCluster } from '../lib/clusters';
+import { PRIORITY_FEE_LEVELS, PriorityFeeLevel } from '../lib/transaction-builder';
+import { useCampaignApp } from './campaign-app-provider';
+import { DenominationToggle } from './amount';
+import { useI18n } from './i18n-provider';
+
+export function ClusterSelector() {
+  const { t } = useI18n();
+  const { cluster, customEndpoint, changeCluster, priorityFeeLevel, changePriorityFeeLevel, setWalletStatus } = useCampaignApp();
+  const [customRpcInput, setCustomRpcInput] = useState('');
+
+  useEffect(() => {
+    setCustomRpcInput(customEndpoint ?? '');
+  }, [customEndpoint]);
+
+  return (
+    <div className="flex flex-wrap items-center justify-center gap-3 mb-6">
+      <label htmlFor="cluster-select" className="text-gray-300 font-semibold">{t('cluster.label')}</label>
+      <select
+        id="cluster-select"
+        value={cluster.id}
+        onChange={(e) => {
+          const id = e.target.value as ClusterId;
+          if (id === 'custom' && !customEndpoint) {
+            setWalletStatus(t('status.customRpcHint'));
+          } else {
+            changeCluster(id, customEndpoint ?? undefined);
+          }
+        }}
+        className="px-3 py-2 bg-gray-900 border border-gray-600 rounded-lg text-white text-sm focus:outline-none focus:border-blue-500"
+      >
+        {CLUSTER_IDS.map((id) => (
+          <option key={id} value={id}>{getCluster(id, customEndpoint).name}</option>
+        ))}
+      </select>
+      <input
+        type="url"
+        value={customRpcInput}
+        onChange={(e) => setCustomRpcInput(e.target.value)}
+        placeholder={t('cluster.customRpc')}
+        aria-label={t('cluster.customRpc')}
+        className="px-3 py-2 bg-gray-900 border border-gray-600 rounded-lg text-white text-sm placeholder-gray-500 focus:outline-none focus:border-blue-500"
+      />
+      <button
+        onClick={() => changeCluster('custom', customRpcInput.trim())}
+        disabled={!customRpcInput.trim()}
+        className="px-3 py-2 bg-gray-700 hover:bg-gray-600 disabled:bg-gray-800 disabled:cursor-not-allowed text-gray-300 text-sm font-semibold rounded-lg transition-colors"
+      >
+        {t('cluster.useCustomRpc')}
+      </button>
+      <span className="text-xs text-gray-500 font-mono break-all">{cluster.endpoint}</span>
+      <label htmlFor="priority-fee-select" className="text-gray-300 text-sm font-semibold">{t('cluster.priorityFee')}</label>
+      <select
+        id="priority-fee-select"
+        value={priorityFeeLevel}
+        onChange={(e) => changePriorityFeeLevel(e.target.value as PriorityFeeLevel)}
+        title={t('cluster.priorityFeeHint')}
+        className="px-3 py-2 bg-gray-900 border border-gray-600 rounded-lg text-white text-sm focus:outline-none focus:border-blue-500"
+      >
+        {PRIORITY_FEE_LEVELS.map((level) => (
+          <option key={level} value={level}>{t(`cluster.priorityFee.${level}`)}</option>
+        ))}
+      </select>
+      <DenominationToggle />
+    </div>
+  );
+}
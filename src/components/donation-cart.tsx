@@ -0,0 +1,160 @@
+'use client';
+
+import { useState } from 'react';
+import { PublicKey } from '@solana/web3.js';
+import { BN } from '@project-serum/anchor';
+import { FEE_RESERVE_LAMPORTS, validateDonation } from '../lib/amounts';
+import { getExplorerUrl } from '../lib/clusters';
+import { truncatePublicKey } from '../lib/format';
+import { DonationResult, useCampaignApp } from './campaign-app-provider';
+import { Amount } from './amount';
+import { Spinner } from './spinner';
+import { useI18n } from './i18n-provider';
+
+// Campaigns picked for a batched donation, each with its own amount; signed with one wallet prompt
+export function DonationCart() {
+  const { t } = useI18n();
+  const { cart, balance, cluster, donatingBatch, donateToMany } = useCampaignApp();
+  const [failures, setFailures] = useState<Record<string, string>>({});
+  const [succeeded, setSucceeded] = useState<(DonationResult & { ok: true; name: string })[]>([]);
+
+  if (cart.items.length === 0 && succeeded.length === 0) return null;
+
+  const validations = cart.items.map((item) => validateDonation(item.amount, balance, t));
+  const total = validations.reduce((sum, validation) => (validation.ok ? sum.add(validation.lamports) : sum), new BN(0));
+  const allValid = validations.every((validation) => validation.ok);
+  const overBalance = balance !== null && total.add(FEE_RESERVE_LAMPORTS).gt(new BN(balance));
+
+  const donateAll = async () => {
+    if (!allValid) return;
+    const donations = cart.items.flatMap((item, i) => {
+      const validation = validations[i];
+      return validation.ok ? [{ campaign: new PublicKey(item.campaign), lamports: validation.lamports }] : [];
+    });
+    const results = await donateToMany(donations);
+    if (!results) return;
+
+    const names = new Map(cart.items.map((item) => [item.campaign, item.name]));
+    const nextFailures: Record<string, string> = {};
+    const nextSucceeded: typeof succeeded = [];
+    for (const result of results) {
+      const key = result.campaign.toBase58();
+      if (result.ok) {
+        nextSucceeded.push({ ...result, name: names.get(key) ?? truncatePublicKey(key) });
+      } else {
+        nextFailures[key] = result.error;
+      }
+    }
+    setFailures(nextFailures);
+    setSucceeded(nextSucceeded);
+    // Failed donations stay in the cart so they can be retried
+    cart.removeItems(nextSucceeded.map((result) => result.campaign.toBase58()));
+  };
+
+  return (
+    <section aria-labelledby="donation-cart-title" className="bg-gray-800 rounded-xl p-6 mb-6 border border-green-700/50 shadow-lg">
+      <div className="flex justify-between items-center mb-4">
+        <h3 id="donation-cart-title" className="text-white text-xl font-bold">{t('cart.title')}</h3>
+        {cart.items.length > 0 && (
+          <button
+            onClick={() => {
+              cart.clear();
+              setFailures({});
+            }}
+            disabled={donatingBatch}
+            className="text-sm text-gray-400 hover:text-white disabled:cursor-not-allowed transition-colors"
+          >
+            {t('cart.empty')}
+          </button>
+        )}
+      </div>
+
+      {cart.items.length > 0 && (
+        <>
+          <ul className="space-y-3 mb-4">
+            {cart.items.map((item, i) => {
+              const validation = validations[i];
+              const failure = failures[item.campaign];
+              return (
+                <li key={item.campaign} className="bg-gray-900/50 rounded-lg p-3 border border-gray-700">
+                  <div className="flex flex-wrap items-center gap-3">
+                    <span className="flex-1 min-w-[8rem] text-white font-semibold truncate" title={item.campaign}>{item.name}</span>
+                    <input
+                      type="text"
+                      inputMode="decimal"
+                      value={item.amount}
+                      onChange={(e) => cart.setItemAmount(item.campaign, e.target.value)}
+                      disabled={donatingBatch}
+                      aria-label={t('cart.amountFor', { name: item.name })}
+                      aria-invalid={!validation.ok}
+                      className={`w-28 px-3 py-1 bg-gray-900 border rounded text-white text-sm focus:outline-none ${validation.ok ? 'border-gray-600 focus:border-blue-500' : 'border-red-500'}`}
+                    />
+                    <span className="text-gray-400 text-sm">SOL</span>
+                    <button
+                      onClick={() => cart.removeItems([item.campaign])}
+                      disabled={donatingBatch}
+                      aria-label={t('cart.removeItem', { name: item.name })}
+                      className="px-2 py-1 text-gray-400 hover:text-red-400 disabled:cursor-not-allowed text-sm transition-colors"
+                    >
+                      {t('common.remove')}
+                    </button>
+                  </div>
+                  {!validation.ok && <p className="mt-1 text-xs text-red-400">{validation.error}</p>}
+                  {failure && <p role="alert" className="mt-1 text-xs text-red-400">{t('cart.lastAttemptFailed', { error: failure })}</p>}
+                </li>
+              );
+            })}
+          </ul>
+
+          <div className="flex justify-between items-center mb-4 text-gray-300">
+            <span>{t('cart.total', { count: cart.items.length })}</span>
+            <Amount lamports={total} className="font-bold text-green-400" />
+          </div>
+          {overBalance && <p role="alert" className="mb-3 text-sm text-red-400">{t('cart.overBalance')}</p>}
+
+          <button
+            onClick={donateAll}
+            disabled={donatingBatch || !allValid || overBalance}
+            aria-busy={donatingBatch}
+            className="w-full py-3 bg-gradient-to-r from-green-600 to-emerald-600 hover:from-green-700 hover:to-emerald-700 disabled:from-gray-600 disabled:to-gray-600 text-white font-bold rounded-lg transition-all duration-300 disabled:cursor-not-allowed shadow-lg"
+          >
+            {donatingBatch ? (
+              <span className="flex items-center justify-center">
+                <Spinner className="-ml-1 mr-2 h-4 w-4" />
+                {t('donation.donating')}
+              </span>
+            ) : (
+              t('cart.donate', { count: cart.items.length })
+            )}
+          </button>
+        </>
+      )}
+
+      {succeeded.length > 0 && (
+        <div className="mt-4 pt-4 border-t border-gray-700">
+          <div className="flex justify-between items-center mb-2">
+            <span className="text-sm text-green-300 font-semibold">{t('cart.donated')}</span>
+            <button onClick={() => setSucceeded([])} className="text-xs text-gray-400 hover:text-white transition-colors">
+              {t('common.dismiss')}
+            </button>
+          </div>
+          <ul className="space-y-1 text-sm">
+            {succeeded.map((result) => (
+              <li key={result.campaign.toBase58()} className="flex justify-between gap-3 text-gray-300">
+                <span className="truncate">{result.name}</span>
+                <a
+                  href={getExplorerUrl(cluster, 'tx', result.signature)}
+                  target="_blank"
+                  rel="noopener noreferrer"
+                  className="font-mono text-xs hover:text-blue-400 transition-colors"
+                >
+                  {truncatePublicKey(result.signature)}
+                </a>
+              </li>
+            ))}
+          </ul>
+        </div>
+      )}
+    </section>
+  );
+}
@@ -0,0 +1,101 @@
+'use client';
+
+import { useId, useState } from 'react';
+import { BN } from '@project-serum/anchor';
+import { DEFAULT_DONATION, DONATION_PRESETS, validateDonation } from '../lib/amounts';
+import { formatAmount } from '../lib/format';
+import { Spinner } from './spinner';
+import { useI18n } from './i18n-provider';
+
+// Donation input for one campaign, with preset amounts and inline validation
+export function DonationForm({ balance, donating, onDonate, onAirdrop }: {
+  balance: number | null;
+  donating: boolean;
+  // Resolves true when the donation went through, which resets the input
+  onDonate: (lamports: BN, amount: string) => Promise<boolean>;
+  // Offered when the balance is too low, on clusters with a faucet
+  onAirdrop?: (lamports: number) => Promise<void>;
+}) {
+  const [value, setValue] = useState<string>(DEFAULT_DONATION);
+  const [airdropping, setAirdropping] = useState<boolean>(false);
+  const { t, locale } = useI18n();
+  const errorId = useId();
+  const validation = validateDonation(value, balance, t);
+  const shortfall = !validation.ok && onAirdrop ? validation.shortfall : undefined;
+
+  const airdrop = async () => {
+    if (!shortfall || !onAirdrop) return;
+    setAirdropping(true);
+    try {
+      await onAirdrop(shortfall.toNumber());
+    } finally {
+      setAirdropping(false);
+    }
+  };
+
+  const donate = async () => {
+    if (!validation.ok) return;
+    if (await onDonate(validation.lamports, value.trim())) {
+      setValue(DEFAULT_DONATION);
+    }
+  };
+
+  return (
+    <div className="mt-4 pt-4 border-t border-gray-700">
+      <div className="flex flex-wrap gap-2 mb-2">
+        {DONATION_PRESETS.map((preset) => (
+          <button
+            key={preset}
+            type="button"
+            onClick={() => setValue(preset)}
+            aria-pressed={value === preset}
+            className={`px-2 py-1 rounded text-xs font-semibold transition-colors ${value === preset ? 'bg-green-600 text-white' : 'bg-gray-700 text-gray-300 hover:bg-gray-600'}`}
+          >
+            {t('donation.preset', { amount: preset })}
+          </button>
+        ))}
+      </div>
+      <div className="flex gap-2 mb-1">
+        <input
+          type="text"
+          inputMode="decimal"
+          value={value}
+          onChange={(e) => setValue(e.target.value)}
+          aria-label={t('donation.amount')}
+          aria-invalid={!validation.ok}
+          aria-describedby={errorId}
+          className={`flex-1 px-3 py-2 bg-gray-900 border rounded text-white text-sm focus:outline-none ${validation.ok ? 'border-gray-600 focus:border-blue-500' : 'border-red-500'}`}
+          placeholder={DEFAULT_DONATION}
+        />
+        <span className="px-3 py-2 bg-gray-700 text-gray-300 rounded text-sm font-semibold">SOL</span>
+      </div>
+      <p id={errorId} aria-live="polite" className="min-h-[1.25rem] mb-2 text-xs text-red-400">{validation.ok ? '' : validation.error}</p>
+      {shortfall && (
+        <button
+          type="button"
+          onClick={airdrop}
+          disabled={airdropping}
+          aria-busy={airdropping}
+          className="w-full mb-2 py-1 bg-green-700 hover:bg-green-600 disabled:bg-gray-700 disabled:cursor-not-allowed text-white text-xs font-semibold rounded-lg transition-colors"
+        >
+          {airdropping ? t('donation.airdropping') : t('donation.airdrop', { amount: formatAmount(shortfall, { locale }) })}
+        </button>
+      )}
+      <button
+        onClick={donate}
+        disabled={donating || !validation.ok}
+        aria-busy={donating}
+        className="w-full py-2 bg-gradient-to-r from-green-600 to-emerald-600 hover:from-green-700 hover:to-emerald-700 disabled:from-gray-600 disabled:to-gray-600 text-white font-semibold rounded-lg transition-all duration-300 transform hover:scale-105 disabled:scale-100 disabled:cursor-not-allowed shadow-lg"
+      >
+        {donating ? (
+          <span className="flex items-center justify-center">
+            <Spinner className="-ml-1 mr-2 h-4 w-4" />
+            {t('donation.donating')}
+          </span>
+        ) : (
+          t('donation.donate', { amount: value.trim() || '0' })
+        )}
+      </button>
+    </div>
+  );
+}
@@ -0,0 +1,44 @@
+'use client';
+
+import { Component, ContextType, ErrorInfo, ReactNode } from 'react';
+import { I18nContext } from './i18n-provider';
+
+interface ErrorBoundaryState {
+  error: Error | null;
+}
+
+// Catches render errors below it; "Dismiss" renders the children again
+export class ErrorBoundary extends Component<{ children: ReactNode }, ErrorBoundaryState> {
+  static contextType = I18nContext;
+  declare context: ContextType<typeof I18nContext>;
+  state: ErrorBoundaryState = { error: null };
+
+  static getDerivedStateFromError(error: Error): ErrorBoundaryState {
+    return { error };
+  }
+
+  componentDidCatch(error: Error, info: ErrorInfo) {
+    console.error('Unhandled render error:', error, info.componentStack);
+  }
+
+  render() {
+    const { error } = this.state;
+    const { t } = this.context;
+    if (error) {
+      return (
+        <div role="alert" className="bg-red-900/50 border border-red-500 rounded-lg p-5 text-center text-red-200 my-5">
+          <h3 className="text-red-300 mb-2 font-bold">{t('common.error')}</h3>
+          <p>{error.message}</p>
+          <button
+            onClick={() => this.setState({ error: null })}
+            className="mt-3 px-4 py-2 bg-red-500 text-gray-900 rounded font-bold hover:bg-red-400 transition-colors"
+          >
+            {t('common.dismiss')}
+          </button>
+        </div>
+      );
+    }
+
+    return this.props.children;
+  }
+}
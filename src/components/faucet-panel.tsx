@@ -0,0 +1,62 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import { LAMPORTS_PER_SOL } from '@solana/web3.js';
+import { AIRDROP_AMOUNTS } from '../lib/faucet';
+import { Amount } from './amount';
+import { useI18n } from './i18n-provider';
+
+// Devnet/localnet faucet with the live wallet balance
+export function FaucetPanel({ clusterName, balance, cooldownUntil, onAirdrop }: {
+  clusterName: string;
+  balance: number | null;
+  cooldownUntil: number;
+  onAirdrop: (lamports: number) => Promise<void>;
+}) {
+  const { t, formatNumber } = useI18n();
+  const [requesting, setRequesting] = useState<number | null>(null);
+  const [now, setNow] = useState(() => Date.now());
+
+  // Tick only while a rate-limit cooldown is running
+  useEffect(() => {
+    if (cooldownUntil <= Date.now()) return;
+    setNow(Date.now());
+    const timer = setInterval(() => setNow(Date.now()), 1000);
+    return () => clearInterval(timer);
+  }, [cooldownUntil]);
+
+  const cooldownSeconds = Math.max(Math.ceil((cooldownUntil - now) / 1000), 0);
+
+  const request = async (amount: number) => {
+    setRequesting(amount);
+    try {
+      await onAirdrop(amount * LAMPORTS_PER_SOL);
+    } finally {
+      setRequesting(null);
+    }
+  };
+
+  return (
+    <div className="flex flex-wrap items-center justify-center gap-3 p-4 mb-6 rounded-xl bg-gray-900/50 border border-gray-700 text-sm">
+      <span className="text-gray-300">
+        {t('faucet.balance')} <span className="font-mono text-white">{balance === null ? '...' : <Amount lamports={balance} />}</span>
+      </span>
+      <span className="text-gray-500">{t('faucet.label', { cluster: clusterName })}</span>
+      {AIRDROP_AMOUNTS.map((amount) => (
+        <button
+          key={amount}
+          onClick={() => request(amount)}
+          disabled={requesting !== null || cooldownSeconds > 0}
+          aria-busy={requesting === amount}
+          aria-label={t('faucet.airdrop', { amount })}
+          className="px-3 py-1 bg-green-700 hover:bg-green-600 disabled:bg-gray-700 disabled:cursor-not-allowed text-white font-semibold rounded-lg transition-colors"
+        >
+          {requesting === amount ? t('faucet.requesting') : `+${formatNumber(amount)} SOL`}
+        </button>
+      ))}
+      {cooldownSeconds > 0 && (
+        <span role="status" className="text-yellow-400">{t('faucet.rateLimited', { seconds: cooldownSeconds })}</span>
+      )}
+    </div>
+  );
+}
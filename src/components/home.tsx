@@ -0,0 +1,125 @@
+'use client';
+
+import { ErrorBoundary } from './error-boundary';
+import type { CampaignSnapshot } from '../lib/campaign-snapshot';
+import { CampaignAppProvider, useCampaignApp } from './campaign-app-provider';
+import { ClusterSelector } from './cluster-selector';
+import { FaucetPanel } from './faucet-panel';
+import { ConnectedWallet, StatusBanner, WalletPicker } from './wallet-panels';
+import { WalletDashboard } from './wallet-dashboard';
+import { CampaignForm } from './campaign-form';
+import { CampaignsSection } from './campaigns-section';
+import { DonationCart } from './donation-cart';
+import { TransactionPreviewModal } from './transaction-preview-modal';
+import { ActivityPanel } from './activity-panel';
+import { LocaleSelector, useI18n } from './i18n-provider';
+
+function HomeContent() {
+  const {
+    cluster,
+    client,
+    programCheck,
+    isWalletConnected,
+    ownerKey,
+    balance,
+    myCampaign,
+    faucetAvailable,
+    airdropCooldownUntil,
+    requestFaucetAirdrop,
+    pendingConfirmation,
+    refreshPreview,
+    resolveConfirmation,
+    transactions,
+    dismissTransaction,
+    clearTransactions,
+  } = useCampaignApp();
+  const { t } = useI18n();
+
+  return (
+    <main className="min-h-screen bg-gradient-to-br from-gray-900 to-black py-8 px-4 sm:px-6 lg:px-8">
+      <div className="max-w-7xl mx-auto">
+        <div className="bg-gray-800/50 backdrop-blur-lg rounded-3xl p-6 md:p-8 shadow-2xl border border-gray-700/50">
+          <header className="text-center mb-8 pb-8 border-b border-gray-700/50">
+            <h1 className="text-4xl md:text-5xl font-bold bg-gradient-to-r from-blue-400 via-purple-500 to-green-400 bg-clip-text text-transparent mb-4">
+              {t('app.title')}
+            </h1>
+            <p className="text-gray-400 text-lg md:text-xl max-w-2xl mx-auto">
+              {t('app.tagline')}
+            </p>
+            <div className="flex items-center justify-center gap-2 mt-4">
+              <LocaleSelector />
+            </div>
+          </header>
+
+          <ClusterSelector />
+
+          {programCheck && !programCheck.ok && (
+            <div role="alert" className="p-4 mb-6 rounded-xl bg-yellow-900/30 border border-yellow-500/50 text-yellow-300 text-sm shadow-lg">
+              <div className="font-semibold mb-1">{t('app.programCheckFailed', { cluster: cluster.name })}</div>
+              <ul className="list-disc list-inside">
+                {programCheck.problems.map((problem) => <li key={problem}>{problem}</li>)}
+              </ul>
+            </div>
+          )}
+
+          {isWalletConnected && faucetAvailable && (
+            <FaucetPanel
+              clusterName={cluster.name}
+              balance={balance}
+              cooldownUntil={airdropCooldownUntil}
+              onAirdrop={requestFaucetAirdrop}
+            />
+          )}
+
+          <StatusBanner />
+          <ConnectedWallet />
+
+          {isWalletConnected ? (
+            <div className="mt-5">
+              {ownerKey && (
+                <WalletDashboard client={client} cluster={cluster} owner={ownerKey} balance={balance} campaign={myCampaign} />
+              )}
+              <CampaignForm />
+              <DonationCart />
+              <CampaignsSection />
+            </div>
+          ) : (
+            <>
+              <WalletPicker />
+              <CampaignsSection />
+            </>
+          )}
+
+          {pendingConfirmation && (
+            <TransactionPreviewModal
+              request={pendingConfirmation}
+              onConfirm={() => resolveConfirmation(true)}
+              onCancel={() => resolveConfirmation(false)}
+              onAirdrop={faucetAvailable ? async (lamports) => {
+                await requestFaucetAirdrop(lamports, true);
+                await refreshPreview();
+              } : undefined}
+            />
+          )}
+
+          <ActivityPanel transactions={transactions} onDismiss={dismissTransaction} onClear={clearTransactions} />
+
+          <footer className="mt-12 pt-8 border-t border-gray-700/50 text-center text-gray-500 text-sm">
+            <p>{t('app.footer')}</p>
+          </footer>
+        </div>
+      </div>
+    </main>
+  );
+}
+
+// `initialSnapshot` is the server-rendered list for the default cluster, shown until the client takes over
+export function Home({ initialSnapshot }: { initialSnapshot: CampaignSnapshot | null }) {
+  return (
+    <ErrorBoundary>
+      <CampaignAppProvider initialSnapshot={initialSnapshot}>
+        <HomeContent />
+      </CampaignAppProvider>
+    </ErrorBoundary>
+  );
+}
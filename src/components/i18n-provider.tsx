@@ -0,0 +1,80 @@
+'use client';
+
+import { createContext, ReactNode, useCallback, useContext, useEffect, useMemo, useState } from 'react';
+import { createTranslator, DEFAULT_LOCALE, isLocale, Locale, LOCALE_COOKIE, LOCALE_NAMES, LOCALES, negotiateLocale, Translate } from '../lib/i18n';
+
+const LOCALE_COOKIE_MAX_AGE = 60 * 60 * 24 * 365;
+
+interface I18nSettings {
+  locale: Locale;
+  setLocale: (locale: Locale) => void;
+  t: Translate;
+  formatNumber: (value: number, options?: Intl.NumberFormatOptions) => string;
+  formatDate: (date: Date | number, options?: Intl.DateTimeFormatOptions) => string;
+}
+
+const settingsFor = (locale: Locale, setLocale: (locale: Locale) => void): I18nSettings => ({
+  locale,
+  setLocale,
+  t: createTranslator(locale),
+  formatNumber: (value, options) => new Intl.NumberFormat(locale, options).format(value),
+  formatDate: (date, options = { dateStyle: 'medium', timeStyle: 'short' }) => new Intl.DateTimeFormat(locale, options).format(date),
+});
+
+// English outside the provider, e.g. components rendered on their own in tests
+export const I18nContext = createContext<I18nSettings>(settingsFor(DEFAULT_LOCALE, () => {}));
+
+export const useI18n = () => useContext(I18nContext);
+
+// The language picked in the UI, else the best match for the browser's languages
+const browserLocale = (): Locale => {
+  const stored = document.cookie
+    .split('; ')
+    .find((entry) => entry.startsWith(`${LOCALE_COOKIE}=`))
+    ?.slice(LOCALE_COOKIE.length + 1);
+  return isLocale(stored) ? stored : negotiateLocale(navigator.languages);
+};
+
+// Starts in the default locale so hydration matches the prerendered page, then switches
+export function I18nProvider({ children }: { children: ReactNode }) {
+  const [locale, setLocaleState] = useState<Locale>(DEFAULT_LOCALE);
+
+  useEffect(() => {
+    setLocaleState(browserLocale());
+  }, []);
+
+  useEffect(() => {
+    document.documentElement.lang = locale;
+  }, [locale]);
+
+  const setLocale = useCallback((next: Locale) => {
+    document.cookie = `${LOCALE_COOKIE}=${next}; path=/; max-age=${LOCALE_COOKIE_MAX_AGE}; samesite=lax`;
+    setLocaleState(next);
+  }, []);
+
+  const value = useMemo(() => settingsFor(locale, setLocale), [locale, setLocale]);
+
+  return <I18nContext.Provider value={value}>{children}</I18nContext.Provider>;
+}
+
+export function LocaleSelector() {
+  const { locale, setLocale, t } = useI18n();
+
+  return (
+    <>
+      <label htmlFor="locale-select" className="text-gray-300 text-sm font-semibold">{t('app.language')}:</label>
+      <select
+        id="locale-select"
+        value={locale}
+        onChange={(e) => {
+          if (isLocale(e.target.value)) setLocale(e.target.value);
+        }}
+        className="px-3 py-2 bg-gray-900 border border-gray-600 rounded-lg text-white text-sm focus:outline-none focus:border-blue-500"
+      >
+        {LOCALES.map((option) => (
+          <option key={option} value={option} lang={option}>{LOCALE_NAMES[option]}</option>
+        ))}
+      </select>
+    </>
+  );
+}
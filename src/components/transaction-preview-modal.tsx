@@ -0,0 +1,153 @@
+'use client';
+
+import { KeyboardEvent, useEffect, useId, useRef, useState } from 'react';
+import { LAMPORTS_PER_SOL } from '@solana/web3.js';
+import { PendingConfirmation } from '../hooks/use-confirmation';
+import { formatAmount } from '../lib/format';
+import { Amount } from './amount';
+import { useI18n } from './i18n-provider';
+
+const FOCUSABLE = 'button:not([disabled]), [href], input:not([disabled]), select:not([disabled]), textarea:not([disabled]), summary, [tabindex]:not([tabindex="-1"])';
+
+// Fee, rent, balance and simulation preview shown before the wallet prompt opens
+export function TransactionPreviewModal({ request, onConfirm, onCancel, onAirdrop }: {
+  request: PendingConfirmation;
+  onConfirm: () => void;
+  onCancel: () => void;
+  // Only passed where a faucet exists; offered when the payer cannot cover the transaction
+  onAirdrop?: (lamports: number) => Promise<void>;
+}) {
+  const { title, preview } = request;
+  const { t, formatNumber, locale } = useI18n();
+  const [airdropping, setAirdropping] = useState(false);
+  const titleId = useId();
+  const dialogRef = useRef<HTMLDivElement>(null);
+  const blocked = preview.error !== null;
+  const shortfall = preview.balanceAfter < 0 ? -preview.balanceAfter : 0;
+  const offerAirdrop = onAirdrop && (shortfall > 0 || (preview.error?.kind === 'system' && preview.error.name.startsWith('Insufficient')));
+
+  const airdrop = async () => {
+    if (!onAirdrop) return;
+    setAirdropping(true);
+    try {
+      // Cover the shortfall plus a little headroom for the fee of the retry
+      await onAirdrop(Math.max(shortfall, 0) + 0.01 * LAMPORTS_PER_SOL);
+    } finally {
+      setAirdropping(false);
+    }
+  };
+  // Focus moves into the dialog while it is open and returns to where it was afterwards
+  useEffect(() => {
+    const previous = document.activeElement as HTMLElement | null;
+    dialogRef.current?.querySelector<HTMLElement>(FOCUSABLE)?.focus();
+    return () => previous?.focus();
+  }, []);
+
+  // Escape cancels; Tab cycles through the dialog's controls instead of the page behind it
+  const onKeyDown = (e: KeyboardEvent<HTMLDivElement>) => {
+    if (e.key === 'Escape') {
+      e.stopPropagation();
+      onCancel();
+      return;
+    }
+    if (e.key !== 'Tab' || !dialogRef.current) return;
+    const focusable = [...dialogRef.current.querySelectorAll<HTMLElement>(FOCUSABLE)];
+    if (focusable.length === 0) return;
+    const first = focusable[0];
+    const last = focusable[focusable.length - 1];
+    if (e.shiftKey && document.activeElement === first) {
+      e.preventDefault();
+      last.focus();
+    } else if (!e.shiftKey && document.activeElement === last) {
+      e.preventDefault();
+      first.focus();
+    }
+  };
+
+  // [label, lamports, signed]; the balance is shown as is, the changes with their sign
+  const rows: [string, number, boolean][] = [
+    [t('preview.currentBalance'), preview.balance, false],
+    ...(preview.transfer > 0 ? [[t('preview.amount'), -preview.transfer, true] as [string, number, boolean]] : []),
+    ...(preview.transfer < 0 ? [[t('preview.amountReceived'), -preview.transfer, true] as [string, number, boolean]] : []),
+    [preview.transactionCount > 1 ? t('preview.networkFees', { count: preview.transactionCount }) : t('preview.networkFee'), -preview.fee, true],
+    ...(preview.rent > 0 ? [[t('preview.rent'), -preview.rent, true] as [string, number, boolean]] : []),
+  ];
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/70 p-4">
+      <div
+        ref={dialogRef}
+        role="dialog"
+        aria-modal="true"
+        aria-labelledby={titleId}
+        onKeyDown={onKeyDown}
+        className="w-full max-w-lg bg-gray-800 rounded-2xl border border-gray-700 shadow-2xl p-6"
+      >
+        <h3 id={titleId} className="text-white text-xl font-bold mb-4">{title}</h3>
+        <dl className="space-y-2 text-sm">
+          {rows.map(([label, lamports, signed]) => (
+            <div key={label} className="flex justify-between text-gray-300">
+              <dt>{label}</dt>
+              <dd className="font-mono"><Amount lamports={lamports} signed={signed} /></dd>
+            </div>
+          ))}
+          <div className={`flex justify-between pt-2 border-t border-gray-700 font-bold ${preview.balanceAfter < 0 ? 'text-red-400' : 'text-white'}`}>
+            <dt>{t('preview.balanceAfter')}</dt>
+            <dd className="font-mono"><Amount lamports={preview.balanceAfter} /></dd>
+          </div>
+          {preview.unitsConsumed !== undefined && (
+            <div className="flex justify-between text-gray-500 text-xs">
+              <dt>{t('preview.computeUnits')}</dt>
+              <dd className="font-mono">{formatNumber(preview.unitsConsumed)}</dd>
+            </div>
+          )}
+        </dl>
+
+        {preview.error && (
+          <div role="alert" className="mt-4 p-3 rounded-lg bg-red-900/30 border border-red-500/50 text-red-300 text-sm">
+            {t('preview.simulationFailed', { error: preview.error.message })}
+            {'name' in preview.error && ` (${preview.error.name})`}
+          </div>
+        )}
+
+        {offerAirdrop && (
+          <button
+            onClick={airdrop}
+            disabled={airdropping}
+            aria-busy={airdropping}
+            className="mt-3 w-full py-2 bg-yellow-600 hover:bg-yellow-700 disabled:bg-gray-600 text-white text-sm font-semibold rounded-lg transition-colors"
+          >
+            {airdropping
+              ? t('preview.requestingAirdrop')
+              : t('preview.airdrop', { amount: formatAmount(Math.ceil(shortfall + 0.01 * LAMPORTS_PER_SOL), { locale }) })}
+          </button>
+        )}
+
+        {preview.logs.length > 0 && (
+          <details className="mt-4 text-xs text-gray-400">
+            <summary className="cursor-pointer">{t('preview.logs', { count: preview.logs.length })}</summary>
+            <pre className="mt-2 p-2 max-h-48 overflow-y-auto bg-gray-900 rounded whitespace-pre-wrap break-all">
+              {preview.logs.join('\n')}
+            </pre>
+          </details>
+        )}
+
+        <div className="flex gap-3 mt-6">
+          <button
+            onClick={onCancel}
+            className="flex-1 py-3 bg-gray-700 hover:bg-gray-600 text-white font-semibold rounded-lg transition-colors"
+          >
+            {t('common.cancel')}
+          </button>
+          <button
+            onClick={onConfirm}
+            disabled={blocked}
+            className="flex-1 py-3 bg-gradient-to-r from-blue-600 to-purple-600 hover:from-blue-700 hover:to-purple-700 disabled:from-gray-600 disabled:to-gray-600 disabled:cursor-not-allowed text-white font-bold rounded-lg transition-all"
+          >
+            {blocked ? t('preview.blocked') : t('preview.confirm')}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
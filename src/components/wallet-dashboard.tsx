@@ -0,0 +1,172 @@
+'use client';
+
+import { useEffect, useMemo, useState } from 'react';
+import Link from 'next/link';
+import { PublicKey } from '@solana/web3.js';
+import { BN } from '@project-serum/anchor';
+import { CampaignAccount, CampaignClient } from '../lib/campaign-client';
+import { ClusterConfig, getExplorerUrl } from '../lib/clusters';
+import { truncatePublicKey } from '../lib/format';
+import { useWalletActivity } from '../hooks/use-wallet-activity';
+import { Amount } from './amount';
+import { useI18n } from './i18n-provider';
+
+function Stat({ label, children }: { label: string; children: React.ReactNode }) {
+  return (
+    <div className="bg-gray-900/60 rounded-xl p-4 border border-gray-700">
+      <div className="text-xs text-gray-400 mb-1">{label}</div>
+      <div className="text-lg font-bold text-white">{children}</div>
+    </div>
+  );
+}
+
+// The connected wallet's own campaign, balance and donation history
+export function WalletDashboard({ client, cluster, owner, balance, campaign }: {
+  client: CampaignClient;
+  cluster: ClusterConfig;
+  owner: PublicKey;
+  balance: number | null;
+  // The campaign at the wallet's PDA, null when it has not created one
+  campaign: CampaignAccount | null;
+}) {
+  const { t, formatNumber, formatDate } = useI18n();
+  const { activities, loading, error, hasMore, loadMore, refresh } = useWalletActivity(client, owner, t);
+  const [withdrawable, setWithdrawable] = useState<number | null>(null);
+
+  // Re-read whenever the campaign account changes, e.g. after a donation lands
+  const campaignAddress = campaign?.publicKey.toBase58();
+  const amountDonated = campaign?.account.amountDonated.toString();
+  useEffect(() => {
+    setWithdrawable(null);
+    if (!campaignAddress) return;
+    let cancelled = false;
+    client.fetchWithdrawable(new PublicKey(campaignAddress))
+      .then((lamports) => {
+        if (!cancelled) setWithdrawable(lamports);
+      })
+      .catch((err) => console.warn('Could not fetch withdrawable balance:', err));
+    return () => {
+      cancelled = true;
+    };
+  }, [client, campaignAddress, amountDonated]);
+
+  // Withdrawals are capped both by the rent-exempt minimum and by what has been donated, as the withdraw form checks
+  const withdrawableLamports = campaign && withdrawable !== null
+    ? BN.min(new BN(withdrawable), campaign.account.amountDonated)
+    : null;
+
+  const donations = useMemo(
+    () => activities.filter((activity) => activity.type === 'donate' && activity.success),
+    [activities]
+  );
+  const totals = useMemo(() => ({
+    donated: donations.reduce((sum, activity) => sum.add(activity.amount ?? new BN(0)), new BN(0)),
+    campaigns: new Set(donations.map((activity) => activity.campaign.toBase58())).size,
+    withdrawn: activities
+      .filter((activity) => activity.type === 'withdraw' && activity.success)
+      .reduce((sum, activity) => sum.add(activity.amount ?? new BN(0)), new BN(0)),
+  }), [activities, donations]);
+
+  return (
+    <section aria-labelledby="dashboard-title" className="mb-8 p-6 bg-gray-800 rounded-xl border border-gray-700 shadow-lg">
+      <div className="flex items-center justify-between mb-6">
+        <h2 id="dashboard-title" className="text-2xl font-bold text-white">{t('dashboard.title')}</h2>
+        <button
+          onClick={refresh}
+          disabled={loading}
+          aria-busy={loading}
+          className="px-4 py-2 bg-gray-700 hover:bg-gray-600 disabled:bg-gray-800 disabled:cursor-not-allowed text-gray-300 text-sm font-semibold rounded-lg transition-colors"
+        >
+          {loading ? t('common.loading') : t('common.refresh')}
+        </button>
+      </div>
+
+      <div className="grid grid-cols-2 lg:grid-cols-4 gap-4 mb-6">
+        <Stat label={t('dashboard.balance')}>{balance === null ? '...' : <Amount lamports={balance} />}</Stat>
+        <Stat label={hasMore ? t('dashboard.donatedLoaded') : t('dashboard.donated')}><Amount lamports={totals.donated} /></Stat>
+        <Stat label={t('dashboard.campaignsSupported')}>{formatNumber(totals.campaigns)}</Stat>
+        <Stat label={t('dashboard.withdrawn')}>
+          <Amount lamports={totals.withdrawn} />
+        </Stat>
+      </div>
+
+      <h3 className="text-lg font-bold text-white mb-3">{t('dashboard.myCampaign')}</h3>
+      {campaign ? (
+        <div className="flex flex-wrap items-center justify-between gap-4 p-4 mb-6 bg-gray-900/60 rounded-xl border border-gray-700">
+          <div>
+            <Link href={`/campaign/${campaign.publicKey.toString()}`} className="text-white font-bold hover:text-blue-400 transition-colors">
+              {campaign.account.name}
+            </Link>
+            <div className="text-xs text-gray-500 font-mono">{truncatePublicKey(campaign.publicKey.toString())}</div>
+          </div>
+          <div className="flex gap-6">
+            <div>
+              <div className="text-xs text-gray-400">{t('dashboard.raised')}</div>
+              <Amount lamports={campaign.account.amountDonated} className="font-bold text-green-400" />
+            </div>
+            <div>
+              <div className="text-xs text-gray-400">{t('dashboard.withdrawable')}</div>
+              {withdrawableLamports === null ? <span className="text-gray-500">...</span> : <Amount lamports={withdrawableLamports} className="font-bold text-yellow-400" />}
+            </div>
+          </div>
+        </div>
+      ) : (
+        <p className="mb-6 text-gray-400 text-sm">{t('dashboard.noCampaign')}</p>
+      )}
+
+      <h3 className="text-lg font-bold text-white mb-3">{t('dashboard.myDonations')}</h3>
+      {error && <p role="alert" className="mb-3 text-sm text-red-400">{error}</p>}
+      {donations.length === 0 && !loading ? (
+        <p className="text-gray-400 text-sm">{t('dashboard.noDonations')}</p>
+      ) : (
+        <div className="overflow-x-auto">
+          <table className="w-full text-sm text-left text-gray-300">
+            <thead className="text-xs text-gray-400 uppercase border-b border-gray-700">
+              <tr>
+                <th scope="col" className="py-3 pr-4">{t('common.campaign')}</th>
+                <th scope="col" className="py-3 pr-4">{t('common.amount')}</th>
+                <th scope="col" className="py-3 pr-4">{t('common.time')}</th>
+                <th scope="col" className="py-3">{t('common.transaction')}</th>
+              </tr>
+            </thead>
+            <tbody>
+              {donations.map((activity, index) => (
+                <tr key={`${activity.signature}-${index}`} className="border-b border-gray-800">
+                  <td className="py-3 pr-4 font-mono">
+                    <Link href={`/campaign/${activity.campaign.toString()}`} className="hover:text-blue-400 transition-colors">
+                      {truncatePublicKey(activity.campaign.toString())}
+                    </Link>
+                  </td>
+                  <td className="py-3 pr-4 font-semibold">{activity.amount ? <Amount lamports={activity.amount} /> : '—'}</td>
+                  <td className="py-3 pr-4">{activity.blockTime ? formatDate(activity.blockTime * 1000) : t('common.unknownTime')}</td>
+                  <td className="py-3 font-mono">
+                    <a
+                      href={getExplorerUrl(cluster, 'tx', activity.signature)}
+                      target="_blank"
+                      rel="noopener noreferrer"
+                      className="hover:text-blue-400 transition-colors"
+                    >
+                      {truncatePublicKey(activity.signature)}
+                    </a>
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      )}
+      {hasMore && (
+        <div className="text-center mt-4">
+          <button
+            onClick={loadMore}
+            disabled={loading}
+            aria-busy={loading}
+            className="px-4 py-2 bg-gray-700 hover:bg-gray-600 disabled:bg-gray-800 disabled:cursor-not-allowed text-white text-sm font-semibold rounded-lg transition-colors"
+          >
+            {loading ? t('common.loading') : t('common.loadOlder')}
+          </button>
+        </div>
+      )}
+    </section>
+  );
+}
@@ -0,0 +1,112 @@
+'use client';
+
+import { truncatePublicKey } from '../lib/format';
+import { useCampaignApp } from './campaign-app-provider';
+import { useI18n } from './i18n-provider';
+
+const STATUS_STYLES = {
+  error: 'bg-red-900/30 border border-red-500/50 text-red-300',
+  warning: 'bg-yellow-900/30 border border-yellow-500/50 text-yellow-300',
+  success: 'bg-green-900/30 border border-green-500/50 text-green-300',
+  info: 'bg-blue-900/30 border border-blue-500/50 text-blue-300',
+};
+
+// Always mounted, so screen readers pick up each new message; errors interrupt, the rest wait their turn
+export function StatusBanner() {
+  const { walletStatus } = useCampaignApp();
+
+  return (
+    <div role="status" aria-live={walletStatus?.severity === 'error' ? 'assertive' : 'polite'} aria-atomic="true">
+      {walletStatus && (
+        <div className={`p-4 mb-6 rounded-xl text-center font-semibold shadow-lg ${STATUS_STYLES[walletStatus.severity]}`}>
+          {walletStatus.message}
+        </div>
+      )}
+    </div>
+  );
+}
+
+export function ConnectedWallet() {
+  const { isWalletConnected, publicKey, wallet, disconnectWallet, session, signingIn, signIn, signOut } = useCampaignApp();
+  const { t, formatDate } = useI18n();
+  if (!isWalletConnected || !publicKey) return null;
+
+  return (
+    <div className="bg-gray-700/30 rounded-xl p-4 mb-6 border border-gray-600/50 shadow-lg">
+      <div className="flex flex-col sm:flex-row sm:items-center sm:justify-between gap-3">
+        <div className="flex items-center gap-3">
+          <span className="text-gray-300 font-semibold">{t('wallet.publicKey')}</span>
+          <span className="font-mono bg-gray-900 px-3 py-1 rounded-lg text-gray-300 text-sm border border-gray-600" title={publicKey}>
+            {truncatePublicKey(publicKey)}
+          </span>
+        </div>
+        <div className="flex items-center gap-4">
+          <div className="flex items-center text-green-400 font-semibold">
+            <div className="w-2 h-2 bg-green-400 rounded-full mr-2 animate-pulse" aria-hidden="true"></div>
+            {wallet ? t('wallet.connectedVia', { wallet: wallet.name }) : t('wallet.connected')}
+          </div>
+          {session ? (
+            <button
+              onClick={signOut}
+              title={t('wallet.signedInUntil', { time: formatDate(session.expiresAt) })}
+              className="px-3 py-1 bg-green-900/40 hover:bg-gray-600 text-green-300 text-sm font-semibold rounded-lg border border-green-500/40 transition-colors"
+            >
+              {t('wallet.signOut')}
+            </button>
+          ) : wallet?.signMessage && (
+            <button
+              onClick={signIn}
+              disabled={signingIn}
+              className="px-3 py-1 bg-blue-700 hover:bg-blue-600 disabled:bg-gray-700 disabled:cursor-not-allowed text-white text-sm font-semibold rounded-lg transition-colors"
+            >
+              {signingIn ? t('wallet.signingIn') : t('wallet.signIn')}
+            </button>
+          )}
+          <button
+            onClick={disconnectWallet}
+            className="px-3 py-1 bg-gray-700 hover:bg-gray-600 text-gray-300 text-sm font-semibold rounded-lg transition-colors"
+          >
+            {t('wallet.disconnect')}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
+
+export function WalletPicker() {
+  const { wallets, installedWallets, connectWallet } = useCampaignApp();
+  const { t } = useI18n();
+
+  return (
+    <div className="text-center py-12 px-4">
+      <div className="bg-gray-800 rounded-2xl p-8 md:p-12 border-2 border-dashed border-gray-600 shadow-2xl max-w-2xl mx-auto">
+        <h2 className="text-2xl md:text-3xl font-bold text-white mb-6">{t('wallet.pickerTitle')}</h2>
+        <p className="text-gray-400 mb-8 text-lg">{t('wallet.pickerSubtitle')}</p>
+        <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+          {wallets.map((adapter) => (
+            installedWallets.includes(adapter.id) ? (
+              <button
+                key={adapter.id}
+                onClick={() => connectWallet(adapter.id).catch(() => undefined)}
+                className="px-6 py-4 bg-gradient-to-r from-purple-600 to-blue-600 hover:from-purple-700 hover:to-blue-700 text-white font-bold rounded-xl transition-all duration-300 transform hover:scale-105 shadow-2xl text-lg"
+              >
+                {t('wallet.connect', { wallet: adapter.name })}
+              </button>
+            ) : (
+              <a
+                key={adapter.id}
+                href={adapter.url}
+                target="_blank"
+                rel="noopener noreferrer"
+                className="px-6 py-4 bg-gray-700 hover:bg-gray-600 text-gray-300 font-semibold rounded-xl transition-colors text-lg"
+              >
+                {t('wallet.install', { wallet: adapter.name })}
+              </a>
+            )
+          ))}
+        </div>
+      </div>
+    </div>
+  );
+}
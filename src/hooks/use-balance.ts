@@ -0,0 +1,34 @@
+'use client';
+
+import { useCallback, useEffect, useState } from 'react';
+import { Connection, PublicKey } from '@solana/web3.js';
+
+// Custom hook for a wallet's SOL balance, kept live with an account subscription
+export function useBalance(connection: Connection, owner: PublicKey | null) {
+  const [balance, setBalance] = useState<number | null>(null);
+
+  const refresh = useCallback(async () => {
+    if (!owner) return;
+    try {
+      setBalance(await connection.getBalance(owner, 'confirmed'));
+    } catch (error) {
+      console.warn('Could not fetch balance:', error);
+    }
+  }, [connection, owner]);
+
+  useEffect(() => {
+    setBalance(null);
+    if (!owner) return;
+
+    refresh();
+    const subscriptionId = connection.onAccountChange(owner, (account) => setBalance(account.lamports), 'confirmed');
+    return () => {
+      connection.removeAccountChangeListener(subscriptionId).catch(() => {});
+    };
+  }, [connection, owner, refresh]);
+
+  return {
+    balance,
+    refresh
+  };
+}
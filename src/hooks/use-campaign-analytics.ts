@@ -0,0 +1,53 @@
+'use client';
+
+import { useEffect, useMemo, useState } from 'react';
+import { Connection, PublicKey } from '@solana/web3.js';
+import { buildDonationSeries, DonationRecord, donationsFromActivity, topDonors } from '../lib/analytics';
+import { fetchFullCampaignHistory } from '../lib/history';
+
+// Transactions read for the charts; campaigns with more show their most recent ones
+export const MAX_ANALYTICS_SIGNATURES = 1000;
+
+// Custom hook loading a campaign's whole donation history and deriving the chart series from it
+// `version` changes (e.g. the donated amount) trigger a reload so new donations show up
+export function useCampaignAnalytics(connection: Connection, programId: PublicKey, campaign: PublicKey | null, version?: string) {
+  const [donations, setDonations] = useState<DonationRecord[]>([]);
+  const [truncated, setTruncated] = useState<boolean>(false);
+  const [loading, setLoading] = useState<boolean>(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (!campaign) return;
+    let cancelled = false;
+    setLoading(true);
+    setError(null);
+    fetchFullCampaignHistory(connection, programId, campaign, { maxSignatures: MAX_ANALYTICS_SIGNATURES })
+      .then((history) => {
+        if (cancelled) return;
+        setDonations(donationsFromActivity(history.activities));
+        setTruncated(history.truncated);
+      })
+      .catch((err) => {
+        console.warn('Could not load campaign analytics:', err);
+        if (!cancelled) setError((err as Error).message);
+      })
+      .finally(() => {
+        if (!cancelled) setLoading(false);
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [connection, programId, campaign, version]);
+
+  const series = useMemo(() => buildDonationSeries(donations), [donations]);
+  const donors = useMemo(() => topDonors(donations), [donations]);
+
+  return {
+    donations,
+    series,
+    topDonors: donors,
+    truncated,
+    loading,
+    error
+  };
+}
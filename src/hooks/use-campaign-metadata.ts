@@ -0,0 +1,56 @@
+'use client';
+
+import { useEffect, useMemo, useRef, useState } from 'react';
+import { translate, Translate } from '../lib/i18n';
+import { CampaignMetadata, fetchCampaignMetadata, mergeMetadata, parseCampaignDescription } from '../lib/metadata';
+
+// Custom hook resolving a campaign description into plain text or metadata, fetching the off-chain part if any
+export function useCampaignMetadata(description: string, t: Translate = translate) {
+  const parsed = useMemo(() => parseCampaignDescription(description), [description]);
+  const uri = parsed.kind === 'metadata' ? parsed.uri : null;
+  const [offChain, setOffChain] = useState<CampaignMetadata | null>(null);
+  const [loading, setLoading] = useState<boolean>(false);
+  const [error, setError] = useState<string | null>(null);
+  // Read through a ref so a language switch does not fetch the document again
+  const tRef = useRef(t);
+  useEffect(() => {
+    tRef.current = t;
+  }, [t]);
+
+  useEffect(() => {
+    setOffChain(null);
+    setError(null);
+    if (!uri) return;
+
+    let cancelled = false;
+    setLoading(true);
+    fetchCampaignMetadata(uri, tRef.current)
+      .then((metadata) => {
+        if (!cancelled) setOffChain(metadata);
+      })
+      .catch((err) => {
+        console.warn(`Could not load campaign metadata from ${uri}:`, err);
+        if (!cancelled) setError((err as Error).message);
+      })
+      .finally(() => {
+        if (!cancelled) setLoading(false);
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [uri]);
+
+  const metadata = useMemo(() => (
+    parsed.kind === 'metadata' ? mergeMetadata(parsed.metadata, offChain) : null
+  ), [parsed, offChain]);
+
+  // A bare URI whose document could not be loaded still shows the link as text
+  const text = parsed.kind === 'text' ? parsed.text : metadata?.summary ?? (error && uri ? uri : '');
+
+  return {
+    metadata,
+    text,
+    loading,
+    error
+  };
+}
@@ -0,0 +1,33 @@
+'use client';
+
+import { useCallback, useEffect, useRef, useState } from 'react';
+import { CampaignView, DEFAULT_CAMPAIGN_VIEW, parseCampaignView, serializeCampaignView } from '../lib/campaign-view';
+
+// Custom hook for the campaigns grid view state, kept in sync with the URL query.
+// Changes replace the current history entry rather than adding one per keystroke.
+export function useCampaignView() {
+  const [view, setViewState] = useState<CampaignView>(DEFAULT_CAMPAIGN_VIEW);
+  // Updates build on the latest view even when several land before a re-render
+  const viewRef = useRef(view);
+
+  // Read after hydration
+  useEffect(() => {
+    const initial = parseCampaignView(new URLSearchParams(window.location.search));
+    viewRef.current = initial;
+    setViewState(initial);
+  }, []);
+
+  // Any change other than paging goes back to the first page
+  const updateView = useCallback((update: Partial<CampaignView>) => {
+    const next = { ...viewRef.current, page: 1, ...update };
+    viewRef.current = next;
+    setViewState(next);
+    const params = serializeCampaignView(next, new URLSearchParams(window.location.search)).toString();
+    window.history.replaceState(null, '', `${window.location.pathname}${params ? `?${params}` : ''}`);
+  }, []);
+
+  return {
+    view,
+    updateView
+  };
+}
@@ -0,0 +1,126 @@
+'use client';
+
+import { useCallback, useEffect, useRef, useState } from 'react';
+import { CampaignAccount, CampaignClient, CampaignUpdate, UndecodableAccount } from '../lib/campaign-client';
+import { probeWebSocket } from '../lib/websocket';
+
+export const POLL_INTERVAL_MS = 15000;
+// How often a polling list probes the websocket again, so a restored connection is used again
+export const WEBSOCKET_CHECK_INTERVAL_MS = 30000;
+
+export type LiveUpdateMode = 'off' | 'websocket' | 'polling';
+
+// Custom hook for campaigns: loads the list, then keeps it live over websocket or by polling.
+// `initialCampaigns` (e.g. server-rendered) is shown until the first fetch for `client` returns.
+export function useCampaigns(client: CampaignClient, initialCampaigns: CampaignAccount[] = []) {
+  const [campaigns, setCampaigns] = useState<CampaignAccount[]>(initialCampaigns);
+  const initialClient = useRef(client);
+  const [undecodableAccounts, setUndecodableAccounts] = useState<UndecodableAccount[]>([]);
+  const [loading, setLoading] = useState<boolean>(false);
+  const [error, setError] = useState<string | null>(null);
+  const [liveMode, setLiveMode] = useState<LiveUpdateMode>('off');
+  // Only the latest request may write; an older one can still be in flight for the previous cluster
+  const latestRequest = useRef(0);
+
+  const refresh = useCallback(async () => {
+    const request = ++latestRequest.current;
+    setLoading(true);
+    try {
+      const result = await client.fetchAll();
+      if (request === latestRequest.current) {
+        setCampaigns(result.campaigns);
+        setUndecodableAccounts(result.failures);
+        setError(null);
+      }
+      return result;
+    } catch (err) {
+      if (request === latestRequest.current) setError((err as Error).message);
+      throw err;
+    } finally {
+      if (request === latestRequest.current) setLoading(false);
+    }
+  }, [client]);
+
+  // Patch single accounts in place so untouched campaigns keep their identity
+  const applyUpdate = useCallback((update: CampaignUpdate) => {
+    if (update.type === 'upsert') {
+      const key = update.campaign.publicKey.toString();
+      setCampaigns((prev) => {
+        const index = prev.findIndex((campaign) => campaign.publicKey.toString() === key);
+        if (index === -1) return [...prev, update.campaign];
+        const next = [...prev];
+        next[index] = update.campaign;
+        return next;
+      });
+      setUndecodableAccounts((prev) => prev.filter((failure) => failure.publicKey.toString() !== key));
+    } else if (update.type === 'remove') {
+      const key = update.publicKey.toString();
+      setCampaigns((prev) => prev.filter((campaign) => campaign.publicKey.toString() !== key));
+    } else {
+      const key = update.failure.publicKey.toString();
+      setUndecodableAccounts((prev) => [...prev.filter((failure) => failure.publicKey.toString() !== key), update.failure]);
+    }
+  }, []);
+
+  // Campaigns belong to the cluster they were fetched from
+  useEffect(() => {
+    if (client === initialClient.current) return;
+    latestRequest.current++;
+    setCampaigns([]);
+    setUndecodableAccounts([]);
+    setError(null);
+  }, [client]);
+
+  useEffect(() => {
+    let cancelled = false;
+    let unsubscribe: (() => void) | null = null;
+    let pollTimer: ReturnType<typeof setInterval> | null = null;
+    let checkTimer: ReturnType<typeof setInterval> | null = null;
+
+    refresh().catch((err) => console.error('Error fetching campaign accounts:', err));
+
+    // Subscribes when the websocket answers, otherwise polls and probes again until it does.
+    // Once subscribed, web3.js reconnects its own socket, so no further probes are opened.
+    const checkWebSocket = async () => {
+      const supported = await probeWebSocket(client.connection.rpcEndpoint);
+      if (cancelled) return;
+      if (supported && !unsubscribe) {
+        if (pollTimer) {
+          clearInterval(pollTimer);
+          pollTimer = null;
+          if (checkTimer) clearInterval(checkTimer);
+          checkTimer = null;
+          // Catch up on anything that changed between the last poll and the subscription
+          refresh().catch((err) => console.warn('Error refreshing campaigns:', err));
+        }
+        unsubscribe = client.subscribe(applyUpdate);
+        setLiveMode('websocket');
+      } else if (!supported && !pollTimer) {
+        console.warn('Websocket unavailable, polling for campaign updates');
+        pollTimer = setInterval(() => {
+          refresh().catch((err) => console.warn('Error polling campaigns:', err));
+        }, POLL_INTERVAL_MS);
+        checkTimer = setInterval(checkWebSocket, WEBSOCKET_CHECK_INTERVAL_MS);
+        setLiveMode('polling');
+      }
+    };
+
+    checkWebSocket();
+
+    return () => {
+      cancelled = true;
+      if (checkTimer) clearInterval(checkTimer);
+      unsubscribe?.();
+      if (pollTimer) clearInterval(pollTimer);
+    };
+  }, [client, refresh, applyUpdate]);
+
+  return {
+    campaigns,
+    undecodableAccounts,
+    loading,
+    error,
+    liveMode,
+    refresh
+  };
+}
@@ -0,0 +1,39 @@
+'use client';
+
+import { useCallback, useEffect, useMemo, useState } from 'react';
+import { Connection } from '@solana/web3.js';
+import { ClusterId, DEFAULT_CLUSTER_ID, getCluster, isValidRpcUrl, loadStoredCluster, storeCluster } from '../lib/clusters';
+import { translate, Translate } from '../lib/i18n';
+
+// Custom hook for the selected cluster and its shared connection
+export function useCluster(t: Translate = translate) {
+  const [clusterId, setClusterId] = useState<ClusterId>(DEFAULT_CLUSTER_ID);
+  const [customEndpoint, setCustomEndpoint] = useState<string | null>(null);
+
+  // Restore the persisted choice after hydration so server and client markup match
+  useEffect(() => {
+    const stored = loadStoredCluster();
+    setClusterId(stored.id);
+    setCustomEndpoint(stored.customEndpoint);
+  }, []);
+
+  const cluster = useMemo(() => getCluster(clusterId, customEndpoint), [clusterId, customEndpoint]);
+  const connection = useMemo(() => new Connection(cluster.endpoint, cluster.commitment), [cluster]);
+
+  const selectCluster = useCallback((id: ClusterId, endpoint?: string) => {
+    if (id === 'custom' && (!endpoint || !isValidRpcUrl(endpoint))) {
+      throw new Error(t('cluster.invalidRpc'));
+    }
+    const nextEndpoint = id === 'custom' ? endpoint ?? null : null;
+    storeCluster(id, nextEndpoint);
+    setClusterId(id);
+    if (nextEndpoint) setCustomEndpoint(nextEndpoint);
+  }, [t]);
+
+  return {
+    cluster,
+    connection,
+    customEndpoint,
+    selectCluster
+  };
+}
@@ -0,0 +1,61 @@
+'use client';
+
+import { useCallback, useRef, useState } from 'react';
+import { Connection, PublicKey, TransactionInstruction } from '@solana/web3.js';
+import { translate, Translate } from '../lib/i18n';
+import { previewTransactions, PreviewOptions, TransactionPreview } from '../lib/preview';
+
+export interface ConfirmationRequest {
+  title: string;
+  payer: PublicKey;
+  // Instructions of each transaction that will be sent, usually just one
+  transactions: TransactionInstruction[][];
+  options?: PreviewOptions;
+}
+
+export type PendingConfirmation = ConfirmationRequest & {
+  preview: TransactionPreview;
+};
+
+// Custom hook for the pre-signing confirmation step; resolves true when the user confirms
+export function useConfirmation(connection: Connection, t: Translate = translate) {
+  const [pendingConfirmation, setPendingConfirmation] = useState<PendingConfirmation | null>(null);
+  // Settles the promise of the request on screen; kept out of state so it is called exactly once
+  const resolver = useRef<((confirmed: boolean) => void) | null>(null);
+
+  const settle = useCallback((confirmed: boolean) => {
+    const resolve = resolver.current;
+    resolver.current = null;
+    resolve?.(confirmed);
+  }, []);
+
+  const requestConfirmation = useCallback(async (request: ConfirmationRequest) => {
+    const preview = await previewTransactions(connection, request.payer, request.transactions, request.options, t);
+    // A newer request replaces the one on screen, which counts as cancelled
+    settle(false);
+    return new Promise<boolean>((resolve) => {
+      resolver.current = resolve;
+      setPendingConfirmation({ ...request, preview });
+    });
+  }, [connection, t, settle]);
+
+  // Simulates the pending transaction again, e.g. after an airdrop topped up the payer
+  const refreshPreview = useCallback(async () => {
+    if (!pendingConfirmation) return;
+    const { payer, transactions, options } = pendingConfirmation;
+    const preview = await previewTransactions(connection, payer, transactions, options, t);
+    setPendingConfirmation((pending) => (pending === pendingConfirmation ? { ...pending, preview } : pending));
+  }, [connection, pendingConfirmation, t]);
+
+  const resolveConfirmation = useCallback((confirmed: boolean) => {
+    settle(confirmed);
+    setPendingConfirmation(null);
+  }, [settle]);
+
+  return {
+    pendingConfirmation,
+    requestConfirmation,
+    refreshPreview,
+    resolveConfirmation
+  };
+}
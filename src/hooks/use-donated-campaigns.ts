@@ -0,0 +1,57 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import { PublicKey } from '@solana/web3.js';
+import { CampaignClient } from '../lib/campaign-client';
+import { fetchProgramActivity } from '../lib/history';
+
+// Signature pages scanned for the wallet's donations; older ones are not considered
+const MAX_PAGES = 4;
+const PAGE_SIZE = 100;
+
+// Custom hook for the campaigns a wallet donated to, read from its recent transaction history
+export function useDonatedCampaigns(client: CampaignClient, owner: PublicKey | null, enabled: boolean) {
+  const [donated, setDonated] = useState<Set<string> | null>(null);
+  const [loading, setLoading] = useState(false);
+
+  useEffect(() => {
+    setDonated(null);
+  }, [client, owner]);
+
+  useEffect(() => {
+    if (!enabled || !owner || donated) return;
+    let cancelled = false;
+    setLoading(true);
+
+    (async () => {
+      const found = new Set<string>();
+      let before: string | undefined;
+      for (let page = 0; page < MAX_PAGES; page++) {
+        const { activities, nextBefore } = await fetchProgramActivity(client.connection, client.programId, owner, { limit: PAGE_SIZE, before });
+        activities
+          .filter((activity) => activity.type === 'donate' && activity.success && activity.user.equals(owner))
+          .forEach((activity) => found.add(activity.campaign.toBase58()));
+        if (!nextBefore) break;
+        before = nextBefore;
+      }
+      return found;
+    })()
+      .then((found) => {
+        if (!cancelled) setDonated(found);
+      })
+      .catch((error) => console.warn('Could not load donation history:', error))
+      .finally(() => {
+        if (!cancelled) setLoading(false);
+      });
+
+    return () => {
+      cancelled = true;
+      setLoading(false);
+    };
+  }, [client, owner, enabled, donated]);
+
+  return {
+    donated,
+    loading
+  };
+}
@@ -0,0 +1,52 @@
+'use client';
+
+import { useCallback, useEffect, useRef, useState } from 'react';
+import { CampaignAccount } from '../lib/campaign-client';
+import { DEFAULT_DONATION } from '../lib/amounts';
+
+export interface CartItem {
+  // Campaign address, base58
+  campaign: string;
+  name: string;
+  // SOL amount as typed
+  amount: string;
+}
+
+// Custom hook for the donation cart; it only holds addresses of the selected cluster, so switching empties it
+export function useDonationCart(clusterKey: string) {
+  const [items, setItems] = useState<CartItem[]>([]);
+  const previousCluster = useRef(clusterKey);
+
+  useEffect(() => {
+    if (previousCluster.current === clusterKey) return;
+    previousCluster.current = clusterKey;
+    setItems([]);
+  }, [clusterKey]);
+
+  const toggleItem = useCallback((campaign: CampaignAccount) => {
+    const key = campaign.publicKey.toBase58();
+    setItems((prev) => (
+      prev.some((item) => item.campaign === key)
+        ? prev.filter((item) => item.campaign !== key)
+        : [...prev, { campaign: key, name: campaign.account.name, amount: DEFAULT_DONATION }]
+    ));
+  }, []);
+
+  const setItemAmount = useCallback((campaign: string, amount: string) => {
+    setItems((prev) => prev.map((item) => (item.campaign === campaign ? { ...item, amount } : item)));
+  }, []);
+
+  const removeItems = useCallback((campaigns: string[]) => {
+    setItems((prev) => prev.filter((item) => !campaigns.includes(item.campaign)));
+  }, []);
+
+  const clear = useCallback(() => setItems([]), []);
+
+  return {
+    items,
+    toggleItem,
+    setItemAmount,
+    removeItems,
+    clear
+  };
+}
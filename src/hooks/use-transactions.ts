@@ -0,0 +1,92 @@
+'use client';
+
+import { useCallback, useEffect, useRef, useState } from 'react';
+import { Connection } from '@solana/web3.js';
+import { ClusterConfig, getExplorerUrl } from '../lib/clusters';
+import { translate, Translate } from '../lib/i18n';
+import {
+  loadTransactionHistory,
+  MAX_STORED_TRANSACTIONS,
+  storeTransactionHistory,
+  TERMINAL_STATUSES,
+  TrackedTransaction,
+  TransactionUpdate,
+} from '../lib/transactions';
+
+// Custom hook for the transaction activity log, persisted in localStorage
+export function useTransactionManager(cluster: ClusterConfig, connection: Connection, t: Translate = translate) {
+  const [transactions, setTransactions] = useState<TrackedTransaction[]>([]);
+  const loaded = useRef(false);
+
+  const patch = useCallback((id: string, update: Partial<TrackedTransaction>) => {
+    setTransactions((prev) => prev.map((transaction) => (
+      transaction.id === id ? { ...transaction, ...update, updatedAt: Date.now() } : transaction
+    )));
+  }, []);
+
+  // Restore history, then settle entries that were still in flight when the page closed
+  useEffect(() => {
+    const stored = loadTransactionHistory();
+    loaded.current = true;
+    setTransactions(stored);
+
+    const pending = stored.filter((transaction) => !TERMINAL_STATUSES.includes(transaction.status));
+    const withSignature = pending.filter((transaction) => transaction.signature);
+    pending
+      .filter((transaction) => !transaction.signature)
+      .forEach((transaction) => patch(transaction.id, { status: 'failed', error: t('activity.interrupted') }));
+    if (withSignature.length === 0) return;
+
+    connection.getSignatureStatuses(withSignature.map((transaction) => transaction.signature!), { searchTransactionHistory: true })
+      .then(({ value }) => {
+        value.forEach((status, i) => {
+          const { id } = withSignature[i];
+          if (status?.err) {
+            patch(id, { status: 'failed', error: JSON.stringify(status.err) });
+          } else if (status?.confirmationStatus) {
+            patch(id, { status: status.confirmationStatus });
+          }
+        });
+      })
+      .catch((error) => console.warn('Could not refresh pending transactions:', error));
+    // Only on mount: later cluster switches must not rewrite history from another cluster
+  }, []);
+
+  useEffect(() => {
+    if (loaded.current) storeTransactionHistory(transactions);
+  }, [transactions]);
+
+  // Starts a new entry and returns the callback that reports its progress
+  const track = useCallback((label: string) => {
+    const id = `${Date.now()}-${Math.random().toString(36).slice(2, 8)}`;
+    const now = Date.now();
+    setTransactions((prev) => [
+      { id, label, status: 'signing' as const, attempts: 1, createdAt: now, updatedAt: now },
+      ...prev,
+    ].slice(0, MAX_STORED_TRANSACTIONS));
+
+    return (update: TransactionUpdate) => {
+      patch(id, {
+        ...update,
+        ...('signature' in update
+          ? { explorerUrl: update.signature ? getExplorerUrl(cluster, 'tx', update.signature) : undefined }
+          : {}),
+      });
+    };
+  }, [cluster, patch]);
+
+  const dismiss = useCallback((id: string) => {
+    setTransactions((prev) => prev.filter((transaction) => transaction.id !== id));
+  }, []);
+
+  const clear = useCallback(() => {
+    setTransactions((prev) => prev.filter((transaction) => !TERMINAL_STATUSES.includes(transaction.status)));
+  }, []);
+
+  return {
+    transactions,
+    track,
+    dismiss,
+    clear
+  };
+}
@@ -0,0 +1,68 @@
+'use client';
+
+import { useCallback, useEffect, useRef, useState } from 'react';
+import { PublicKey } from '@solana/web3.js';
+import { CampaignClient } from '../lib/campaign-client';
+import { CampaignActivity, fetchProgramActivity } from '../lib/history';
+import { translate, Translate } from '../lib/i18n';
+
+const ACTIVITY_PAGE_SIZE = 50;
+
+// Custom hook for the campaign program activity signed by one wallet, newest first
+export function useWalletActivity(client: CampaignClient, owner: PublicKey | null, t: Translate = translate) {
+  const [activities, setActivities] = useState<CampaignActivity[]>([]);
+  const [nextBefore, setNextBefore] = useState<string | null>(null);
+  const [loading, setLoading] = useState<boolean>(false);
+  const [error, setError] = useState<string | null>(null);
+  // Read through a ref so a language switch does not reload the history
+  const tRef = useRef(t);
+  useEffect(() => {
+    tRef.current = t;
+  }, [t]);
+  // Only the latest load may write; an older one can be for the previous owner or cluster, or a list a refresh replaced
+  const latestRequest = useRef(0);
+
+  const load = useCallback(async (before?: string) => {
+    if (!owner) return;
+    const request = ++latestRequest.current;
+    setLoading(true);
+    setError(null);
+    try {
+      const page = await fetchProgramActivity(client.connection, client.programId, owner, { limit: ACTIVITY_PAGE_SIZE, before });
+      if (request !== latestRequest.current) return;
+      const own = page.activities.filter((activity) => activity.user.equals(owner));
+      setActivities((prev) => before ? [...prev, ...own] : own);
+      setNextBefore(page.nextBefore);
+    } catch (err) {
+      console.error('Error fetching wallet activity:', err);
+      if (request === latestRequest.current) setError(tRef.current('dashboard.fetchFailed', { error: (err as Error).message }));
+    } finally {
+      if (request === latestRequest.current) setLoading(false);
+    }
+  }, [client, owner]);
+
+  useEffect(() => {
+    setActivities([]);
+    setNextBefore(null);
+    setLoading(false);
+    load();
+    return () => {
+      latestRequest.current++;
+    };
+  }, [load]);
+
+  const loadMore = useCallback(() => {
+    if (nextBefore) load(nextBefore);
+  }, [load, nextBefore]);
+
+  const refresh = useCallback(() => load(), [load]);
+
+  return {
+    activities,
+    loading,
+    error,
+    hasMore: nextBefore !== null,
+    loadMore,
+    refresh
+  };
+}
@@ -0,0 +1,212 @@
+'use client';
+
+import { useCallback, useEffect, useRef, useState } from 'react';
+import { createWalletAdapters, WalletAdapter } from '../lib/wallets';
+import { decodeError, describeError, Severity, StatusMessage } from '../lib/errors';
+import { truncatePublicKey } from '../lib/format';
+import { fetchSession, signInWithSolana, signOut as endSession } from '../lib/auth';
+import { AuthSession } from '../lib/siws';
+import { translate, Translate } from '../lib/i18n';
+
+const WALLET_STORAGE_KEY = 'selectedWallet';
+
+export interface WalletConnectionOptions {
+  // Ask the wallet to sign in right after an explicit connect
+  signInOnConnect?: boolean;
+  // Status messages are set in the UI language
+  t?: Translate;
+}
+
+// Custom hook for wallet connection and the optional Sign-In With Solana session
+export function useWalletConnection({ signInOnConnect = false, t = translate }: WalletConnectionOptions = {}) {
+  const [walletStatus, setStatus] = useState<StatusMessage | null>(null);
+
+  const setWalletStatus = useCallback((message: string | null, severity: Severity = 'info') => {
+    setStatus(message ? { message, severity } : null);
+  }, []);
+  const [isWalletConnected, setIsWalletConnected] = useState<boolean>(false);
+  const [publicKey, setPublicKey] = useState<string | null>(null);
+  const [wallets] = useState<WalletAdapter[]>(() => createWalletAdapters());
+  const [installedWallets, setInstalledWallets] = useState<string[]>([]);
+  const [wallet, setWallet] = useState<WalletAdapter | null>(null);
+  const [authSession, setAuthSession] = useState<AuthSession | null>(null);
+  const [signingIn, setSigningIn] = useState<boolean>(false);
+  // The restore below runs on mount only; reading `t` through a ref keeps a language switch from re-running it
+  const tRef = useRef(t);
+  useEffect(() => {
+    tRef.current = t;
+  }, [t]);
+
+  const detectWallets = useCallback(() => {
+    setInstalledWallets(wallets.filter((adapter) => adapter.isInstalled()).map((adapter) => adapter.id));
+  }, [wallets]);
+
+  // Silently restore the previously selected wallet if the site is still trusted
+  const checkIfWalletIsConnected = useCallback(async () => {
+    const t = tRef.current;
+    try {
+      detectWallets();
+      const savedId = localStorage.getItem(WALLET_STORAGE_KEY);
+      const saved = wallets.find((adapter) => adapter.id === savedId);
+      if (!saved) {
+        const installed = wallets.filter((adapter) => adapter.isInstalled());
+        setWalletStatus(installed.length > 0
+          ? t('status.walletsFound', { wallets: installed.map((adapter) => adapter.name).join(', ') })
+          : t('status.noWallet'));
+        setIsWalletConnected(false);
+        return;
+      }
+      if (!saved.isInstalled()) {
+        setWalletStatus(t('status.walletNotFound', { wallet: saved.name }), 'warning');
+        setIsWalletConnected(false);
+        return;
+      }
+      const pubKey = await saved.connect({ onlyIfTrusted: true });
+      setWallet(saved);
+      setPublicKey(pubKey.toString());
+      setIsWalletConnected(true);
+      setWalletStatus(t('status.walletRestored', { wallet: saved.name }), 'success');
+    } catch (error) {
+      // Not trusted yet; the user has to pick a wallet explicitly
+      console.warn('Could not restore wallet connection:', error);
+      setIsWalletConnected(false);
+    }
+  }, [wallets, detectWallets, setWalletStatus]);
+
+  const signInWith = useCallback(async (adapter: WalletAdapter) => {
+    setSigningIn(true);
+    try {
+      const session = await signInWithSolana(adapter);
+      setAuthSession(session);
+      setWalletStatus(t('status.signedIn', { account: truncatePublicKey(session.address) }), 'success');
+      return true;
+    } catch (error) {
+      console.error('Error signing in:', error);
+      const status = describeError(decodeError(error), t('action.signIn'), t);
+      setWalletStatus(status.message, status.severity);
+      return false;
+    } finally {
+      setSigningIn(false);
+    }
+  }, [setWalletStatus, t]);
+
+  const signIn = useCallback(async () => {
+    if (!wallet) {
+      setWalletStatus(t('status.notConnected'), 'warning');
+      return false;
+    }
+    return signInWith(wallet);
+  }, [wallet, signInWith, setWalletStatus, t]);
+
+  const signOut = useCallback(async () => {
+    setAuthSession(null);
+    try {
+      await endSession();
+    } catch (error) {
+      console.warn('Error signing out:', error);
+    }
+  }, []);
+
+  const connectWallet = useCallback(async (walletId: string, { signIn: withSignIn = signInOnConnect }: { signIn?: boolean } = {}) => {
+    const adapter = wallets.find((candidate) => candidate.id === walletId);
+    if (!adapter) return;
+    try {
+      if (!adapter.isInstalled()) {
+        setWalletStatus(t('status.walletNotFound', { wallet: adapter.name }), 'warning');
+        return;
+      }
+      if (wallet && wallet.id !== adapter.id) {
+        await wallet.disconnect();
+      }
+      const pubKey = await adapter.connect();
+      localStorage.setItem(WALLET_STORAGE_KEY, adapter.id);
+      setWallet(adapter);
+      setWalletStatus(t('status.walletConnected', { wallet: adapter.name }), 'success');
+      setIsWalletConnected(true);
+      setPublicKey(pubKey.toString());
+      // A failed sign-in leaves the wallet connected; it can be retried from the wallet panel
+      if (withSignIn && adapter.signMessage) await signInWith(adapter);
+      return pubKey.toString();
+    } catch (error) {
+      console.error('Error connecting wallet:', error);
+      const status = describeError(decodeError(error), t('action.connectWallet'), t);
+      setWalletStatus(status.message, status.severity);
+      throw error;
+    }
+  }, [wallets, wallet, setWalletStatus, signInOnConnect, signInWith, t]);
+
+  const disconnectWallet = useCallback(async () => {
+    try {
+      await wallet?.disconnect();
+    } catch (error) {
+      console.warn('Error disconnecting wallet:', error);
+    }
+    localStorage.removeItem(WALLET_STORAGE_KEY);
+    setWallet(null);
+    setIsWalletConnected(false);
+    setPublicKey(null);
+    if (authSession) await signOut();
+    setWalletStatus(t('status.walletDisconnected'));
+  }, [wallet, authSession, signOut, setWalletStatus, t]);
+
+  // Keep the UI in sync when the user switches accounts or disconnects from the extension
+  useEffect(() => {
+    if (!wallet) return;
+    const offAccountChanged = wallet.on('accountChanged', (nextKey) => {
+      if (nextKey) {
+        setPublicKey(nextKey.toString());
+        setWalletStatus(t('status.accountSwitched', { account: truncatePublicKey(nextKey.toString()) }));
+      } else {
+        // The new account has not approved this site yet; ask for it
+        wallet.connect().then((pubKey) => setPublicKey(pubKey.toString())).catch(() => {
+          setIsWalletConnected(false);
+          setPublicKey(null);
+        });
+      }
+    });
+    const offDisconnect = wallet.on('disconnect', () => {
+      setIsWalletConnected(false);
+      setPublicKey(null);
+      setWallet(null);
+      setWalletStatus(t('status.namedWalletDisconnected', { wallet: wallet.name }));
+    });
+    return () => {
+      offAccountChanged();
+      offDisconnect();
+    };
+  }, [wallet, setWalletStatus, t]);
+
+  // Pick up a session from an earlier visit; the cookie itself is not readable from script
+  useEffect(() => {
+    fetchSession()
+      .then(setAuthSession)
+      .catch((error) => console.warn('Could not load session:', error));
+  }, []);
+
+  useEffect(() => {
+    checkIfWalletIsConnected();
+    
+    const onLoad = () => checkIfWalletIsConnected();
+    window.addEventListener('load', onLoad);
+    return () => window.removeEventListener('load', onLoad);
+  }, [checkIfWalletIsConnected]);
+
+  // A session only counts for the account that signed it, e.g. not after switching accounts in the wallet
+  const session = authSession && authSession.address === publicKey ? authSession : null;
+
+  return {
+    walletStatus,
+    isWalletConnected,
+    publicKey,
+    wallet,
+    wallets,
+    installedWallets,
+    connectWallet,
+    disconnectWallet,
+    setWalletStatus,
+    session,
+    signingIn,
+    signIn,
+    signOut
+  };
+}
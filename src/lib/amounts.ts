@@ -0,0 +1,74 @@
+import { LAMPORTS_PER_SOL } from '@solana/web3.js';
+import { BN } from '@project-serum/anchor';
+import { lamportsToSolString, SOL_DECIMALS } from './format';
+import { translate, Translate } from './i18n';
+
+// Largest value the program's u64 amount argument can carry
+export const U64_MAX = new BN('18446744073709551615');
+
+export const DONATION_PRESETS = ['0.05', '0.1', '0.5', '1'];
+export const DEFAULT_DONATION = '0.1';
+export const MIN_DONATION_LAMPORTS = new BN(LAMPORTS_PER_SOL / 1000);
+export const MAX_DONATION_LAMPORTS = new BN(10_000).mul(new BN(LAMPORTS_PER_SOL));
+
+// Lamports kept back for the network fee when checking a donation against the balance
+export const FEE_RESERVE_LAMPORTS = new BN(10_000);
+
+// Largest amount the transaction preview can add up exactly; balances and fees are plain numbers there
+export const MAX_SAFE_LAMPORTS = new BN(Number.MAX_SAFE_INTEGER);
+
+export type AmountValidation =
+  | { ok: true; lamports: BN }
+  // `shortfall` is set when only the balance is lacking, so a faucet airdrop could fix it
+  | { ok: false; error: string; shortfall?: BN };
+
+const SOL_AMOUNT_RE = /^(\d*)(?:\.(\d*))?$/;
+
+/**
+ * Converts a decimal SOL string such as "1.25" to lamports without going through floating point.
+ * Returns null when the string is not a plain non-negative decimal or has more than 9 decimals.
+ */
+export const parseSolAmount = (input: string): BN | null => {
+  const match = input.trim().match(SOL_AMOUNT_RE);
+  if (!match) return null;
+  const [, whole, fraction = ''] = match;
+  if (!whole && !fraction) return null;
+  if (fraction.length > SOL_DECIMALS) return null;
+  return new BN(whole || '0')
+    .mul(new BN(LAMPORTS_PER_SOL))
+    .add(new BN(fraction.padEnd(SOL_DECIMALS, '0')));
+};
+
+// Lamports as a number for the preview, or null when that would lose precision
+export const toSafeLamports = (lamports: BN): number | null => (
+  lamports.lte(MAX_SAFE_LAMPORTS) ? lamports.toNumber() : null
+);
+
+// Error messages come from `t`, English by default
+export const validateDonation = (input: string, balance: number | null, t: Translate = translate): AmountValidation => {
+  if (!input.trim()) {
+    return { ok: false, error: t('donation.enterAmount') };
+  }
+  const match = input.trim().match(SOL_AMOUNT_RE);
+  if (!match || (!match[1] && !match[2])) {
+    return { ok: false, error: t('donation.invalid') };
+  }
+  const lamports = parseSolAmount(input);
+  if (!lamports) {
+    return { ok: false, error: t('donation.tooManyDecimals', { decimals: SOL_DECIMALS }) };
+  }
+  if (lamports.gt(U64_MAX)) {
+    return { ok: false, error: t('donation.tooLarge') };
+  }
+  if (lamports.lt(MIN_DONATION_LAMPORTS)) {
+    return { ok: false, error: t('donation.belowMinimum', { amount: lamportsToSolString(MIN_DONATION_LAMPORTS) }) };
+  }
+  if (lamports.gt(MAX_DONATION_LAMPORTS)) {
+    return { ok: false, error: t('donation.aboveMaximum', { amount: lamportsToSolString(MAX_DONATION_LAMPORTS) }) };
+  }
+  const required = lamports.add(FEE_RESERVE_LAMPORTS);
+  if (balance !== null && required.gt(new BN(balance))) {
+    return { ok: false, error: t('donation.exceedsBalance'), shortfall: required.sub(new BN(balance)) };
+  }
+  return { ok: true, lamports };
+};
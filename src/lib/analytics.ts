@@ -0,0 +1,65 @@
+import { PublicKey } from '@solana/web3.js';
+import { BN } from '@project-serum/anchor';
+import { CampaignActivity } from './history';
+
+// A confirmed donation, as exported and charted
+export interface DonationRecord {
+  signature: string;
+  donor: PublicKey;
+  lamports: BN;
+  blockTime: number | null;
+}
+
+// Running totals after each donation, oldest first
+export interface DonationSeriesPoint {
+  blockTime: number;
+  cumulative: BN;
+  donors: number;
+}
+
+export interface DonorTotal {
+  donor: PublicKey;
+  total: BN;
+  donations: number;
+}
+
+// Successful donate instructions only; failed transactions moved no funds
+export const donationsFromActivity = (activities: CampaignActivity[]): DonationRecord[] => (
+  activities
+    .filter((activity) => activity.type === 'donate' && activity.success && activity.amount)
+    .map((activity) => ({
+      signature: activity.signature,
+      donor: activity.user,
+      lamports: activity.amount as BN,
+      blockTime: activity.blockTime,
+    }))
+);
+
+// Takes donations newest first, as history lists them; ones without a block time cannot be placed on the time axis
+export const buildDonationSeries = (donations: DonationRecord[]): DonationSeriesPoint[] => {
+  // Reversed before the stable sort so donations within the same second stay in order
+  const timed = donations
+    .filter((donation): donation is DonationRecord & { blockTime: number } => donation.blockTime !== null)
+    .reverse()
+    .sort((a, b) => a.blockTime - b.blockTime);
+
+  const donors = new Set<string>();
+  let cumulative = new BN(0);
+  return timed.map((donation) => {
+    donors.add(donation.donor.toBase58());
+    cumulative = cumulative.add(donation.lamports);
+    return { blockTime: donation.blockTime, cumulative, donors: donors.size };
+  });
+};
+
+export const topDonors = (donations: DonationRecord[], limit = 5): DonorTotal[] => {
+  const totals = new Map<string, DonorTotal>();
+  for (const donation of donations) {
+    const key = donation.donor.toBase58();
+    const entry = totals.get(key) ?? { donor: donation.donor, total: new BN(0), donations: 0 };
+    totals.set(key, { ...entry, total: entry.total.add(donation.lamports), donations: entry.donations + 1 });
+  }
+  return [...totals.values()]
+    .sort((a, b) => b.total.cmp(a.total) || b.donations - a.donations)
+    .slice(0, limit);
+};
@@ -0,0 +1,45 @@
+import { utils } from '@project-serum/anchor';
+import { WalletAdapter } from './wallets';
+import { AuthSession, createSignInMessage, formatSignInMessage } from './siws';
+
+// Client side of the sign-in flow; the session itself lives in an HTTP-only cookie set by /api/auth/verify
+
+const readError = async (response: Response): Promise<string> => {
+  const body = await response.json().catch(() => null) as { error?: string } | null;
+  return body?.error ?? `HTTP ${response.status}`;
+};
+
+export const fetchSession = async (): Promise<AuthSession | null> => {
+  const response = await fetch('/api/auth/session', { cache: 'no-store' });
+  if (response.status === 401) return null;
+  if (!response.ok) throw new Error(`Could not load session: ${await readError(response)}`);
+  return await response.json() as AuthSession;
+};
+
+/**
+ * Asks the wallet to sign a one-time sign-in message and exchanges the signature for a session.
+ * Wallet rejections surface as the wallet's own error, so `decodeError` reports them as cancelled.
+ */
+export const signInWithSolana = async (wallet: WalletAdapter): Promise<AuthSession> => {
+  if (!wallet.publicKey) throw new Error('Wallet is not connected');
+  if (!wallet.signMessage) throw new Error(`${wallet.name} does not support message signing.`);
+
+  const nonceResponse = await fetch('/api/auth/nonce', { cache: 'no-store' });
+  if (!nonceResponse.ok) throw new Error(`Could not start sign-in: ${await readError(nonceResponse)}`);
+  const { nonce } = await nonceResponse.json() as { nonce: string };
+
+  const message = formatSignInMessage(createSignInMessage(wallet.publicKey.toBase58(), nonce));
+  const signature = await wallet.signMessage(new TextEncoder().encode(message));
+
+  const verifyResponse = await fetch('/api/auth/verify', {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify({ message, signature: utils.bytes.bs58.encode(signature) }),
+  });
+  if (!verifyResponse.ok) throw new Error(`Sign-in failed: ${await readError(verifyResponse)}`);
+  return await verifyResponse.json() as AuthSession;
+};
+
+export const signOut = async (): Promise<void> => {
+  await fetch('/api/auth/session', { method: 'DELETE' });
+};
@@ -0,0 +1,468 @@
+import {
+  Commitment,
+  Connection,
+  GetProgramAccountsFilter,
+  PublicKey,
+  Transaction,
+  TransactionInstruction,
+  TransactionVersion,
+  VersionedTransaction,
+} from '@solana/web3.js';
+import { BN, BorshCoder, utils } from '@project-serum/anchor';
+import { campaignIdl, getIdlAccount, getIdlInstruction, IdlSeed, toAnchorIdl } from './idl';
+import { BatchSendOptions, sendAllWithLifecycle, sendWithLifecycle, SendOptions } from './transactions';
+import { buildTransaction, isComputeBudgetInstruction, pickTransactionVersion, PriorityFeeLevel, withComputeBudget } from './transaction-builder';
+
+export interface CampaignData {
+  admin: PublicKey;
+  name: string;
+  description: string;
+  amountDonated: BN;
+}
+
+export interface CampaignAccount {
+  publicKey: PublicKey;
+  account: CampaignData;
+}
+
+// A program account that carries the Campaign discriminator but could not be decoded
+export interface UndecodableAccount {
+  publicKey: PublicKey;
+  error: string;
+}
+
+export interface CampaignFetchResult {
+  campaigns: CampaignAccount[];
+  failures: UndecodableAccount[];
+}
+
+// JSON-safe form of a campaign, for route handlers and server-rendered props
+export interface SerializedCampaign {
+  publicKey: string;
+  admin: string;
+  name: string;
+  description: string;
+  // u64 as a decimal string
+  amountDonated: string;
+}
+
+// Changes pushed by account subscriptions
+export type CampaignUpdate =
+  | { type: 'upsert'; campaign: CampaignAccount }
+  | { type: 'remove'; publicKey: PublicKey }
+  | { type: 'invalid'; failure: UndecodableAccount };
+
+// Accounts and arguments of each instruction, keyed by their IDL names
+export interface CampaignInstructions {
+  create: {
+    accounts: { campaign: PublicKey; user: PublicKey };
+    args: { name: string; description: string };
+  };
+  donate: {
+    accounts: { campaign: PublicKey; user: PublicKey };
+    args: { amount: BN };
+  };
+  withdraw: {
+    accounts: { campaign: PublicKey; user: PublicKey };
+    args: { amount: BN };
+  };
+}
+
+export type CampaignInstructionName = keyof CampaignInstructions;
+
+// Anything that can sign a transaction: a wallet adapter, a Keypair wrapper, a test double
+export interface CampaignSigner {
+  publicKey: PublicKey;
+  signTransaction: <T extends Transaction | VersionedTransaction>(transaction: T) => Promise<T>;
+  // Legacy-only signers get legacy messages; omitted means v0 is fine
+  supportedTransactionVersions?: readonly TransactionVersion[] | null;
+}
+
+// Signs several transactions with one prompt, for batched donations
+export interface CampaignBatchSigner extends CampaignSigner {
+  signAllTransactions: <T extends Transaction | VersionedTransaction>(transactions: T[]) => Promise<T[]>;
+}
+
+export interface CampaignSendOptions extends SendOptions {
+  // Adds compute-budget instructions unless the instructions already carry them
+  priorityFee?: PriorityFeeLevel;
+}
+
+export const CAMPAIGN_ACCOUNT_NAME = 'Campaign';
+export const CAMPAIGN_PROGRAM_ID = new PublicKey(campaignIdl.address);
+
+// The TypeScript declarations above, restated so they can be compared with the IDL at runtime
+const EXPECTED_INSTRUCTIONS: Record<CampaignInstructionName, { accounts: string[]; args: [string, string][] }> = {
+  create: { accounts: ['campaign', 'user', 'system_program'], args: [['name', 'string'], ['description', 'string']] },
+  donate: { accounts: ['campaign', 'user', 'system_program'], args: [['amount', 'u64']] },
+  withdraw: { accounts: ['campaign', 'user'], args: [['amount', 'u64']] },
+};
+const EXPECTED_CAMPAIGN_FIELDS: [string, string][] = [
+  ['admin', 'publicKey'],
+  ['name', 'string'],
+  ['description', 'string'],
+  ['amount_donated', 'u64'],
+];
+
+const sameEntries = (actual: [string, unknown][], expected: [string, string][]) => {
+  return actual.length === expected.length
+    && expected.every(([name, type], i) => actual[i][0] === name && actual[i][1] === type);
+};
+
+// Throws if src/idl.js no longer matches the types this client was written against
+export const verifyCampaignIdl = () => {
+  const problems: string[] = [];
+  for (const [name, expected] of Object.entries(EXPECTED_INSTRUCTIONS)) {
+    try {
+      const instruction = getIdlInstruction(name);
+      const accounts = instruction.accounts.map((account) => account.name);
+      if (accounts.join(',') !== expected.accounts.join(',')) {
+        problems.push(`${name}: expected accounts [${expected.accounts}], IDL has [${accounts}]`);
+      }
+      if (!sameEntries(instruction.args.map((arg) => [arg.name, arg.type]), expected.args)) {
+        problems.push(`${name}: arguments do not match the IDL`);
+      }
+    } catch (e) {
+      problems.push((e as Error).message);
+    }
+  }
+  try {
+    const fields = getIdlAccount(CAMPAIGN_ACCOUNT_NAME).type?.fields
+      ?? campaignIdl.types.find((type) => type.name === CAMPAIGN_ACCOUNT_NAME)?.type.fields
+      ?? [];
+    if (!sameEntries(fields.map((field) => [field.name, field.type]), EXPECTED_CAMPAIGN_FIELDS)) {
+      problems.push(`${CAMPAIGN_ACCOUNT_NAME}: fields do not match the IDL`);
+    }
+  } catch (e) {
+    problems.push((e as Error).message);
+  }
+  if (problems.length > 0) {
+    throw new Error(`Campaign IDL mismatch:\n${problems.join('\n')}`);
+  }
+};
+
+verifyCampaignIdl();
+
+export const campaignCoder = new BorshCoder(toAnchorIdl(campaignIdl));
+
+export const CAMPAIGN_DISCRIMINATOR = Buffer.from(getIdlAccount(CAMPAIGN_ACCOUNT_NAME).discriminator);
+// Byte offset of `admin`, the first field after the discriminator
+export const CAMPAIGN_ADMIN_OFFSET = CAMPAIGN_DISCRIMINATOR.length;
+
+// getProgramAccounts filters that only match Campaign accounts, optionally of a single admin
+export const campaignFilters = (admin?: PublicKey): GetProgramAccountsFilter[] => {
+  const filters: GetProgramAccountsFilter[] = [
+    { memcmp: { offset: 0, bytes: utils.bytes.bs58.encode(CAMPAIGN_DISCRIMINATOR) } },
+  ];
+  if (admin) {
+    filters.push({ memcmp: { offset: CAMPAIGN_ADMIN_OFFSET, bytes: admin.toBase58() } });
+  }
+  return filters;
+};
+
+// Bytes a Campaign account needs: discriminator, admin, two length-prefixed strings and the u64 total
+export const campaignAccountSpace = (name: string, description: string): number => {
+  return CAMPAIGN_DISCRIMINATOR.length + 32 + 4 + Buffer.byteLength(name, 'utf8') + 4 + Buffer.byteLength(description, 'utf8') + 8;
+};
+
+export const decodeCampaign = (data: Buffer): CampaignData => {
+  return campaignCoder.accounts.decode(CAMPAIGN_ACCOUNT_NAME, data) as CampaignData;
+};
+
+export const serializeCampaign = ({ publicKey, account }: CampaignAccount): SerializedCampaign => ({
+  publicKey: publicKey.toBase58(),
+  admin: account.admin.toBase58(),
+  name: account.name,
+  description: account.description,
+  amountDonated: account.amountDonated.toString(),
+});
+
+export const deserializeCampaign = (campaign: SerializedCampaign): CampaignAccount => ({
+  publicKey: new PublicKey(campaign.publicKey),
+  account: {
+    admin: new PublicKey(campaign.admin),
+    name: campaign.name,
+    description: campaign.description,
+    amountDonated: new BN(campaign.amountDonated),
+  },
+});
+
+// Builds an instruction with the account metas and fixed addresses declared in the IDL
+export const buildCampaignInstruction = <K extends CampaignInstructionName>(
+  programId: PublicKey,
+  name: K,
+  accounts: CampaignInstructions[K]['accounts'],
+  args: CampaignInstructions[K]['args'],
+): TransactionInstruction => {
+  const idlInstruction = getIdlInstruction(name);
+  const provided = accounts as Record<string, PublicKey>;
+  const keys = idlInstruction.accounts.map((account) => {
+    const pubkey = account.address ? new PublicKey(account.address) : provided[account.name];
+    if (!pubkey) {
+      throw new Error(`Missing account "${account.name}" for instruction "${name}"`);
+    }
+    return {
+      pubkey,
+      isSigner: Boolean(account.signer),
+      isWritable: Boolean(account.writable),
+    };
+  });
+  return new TransactionInstruction({
+    programId,
+    keys,
+    data: campaignCoder.instruction.encode(name, args),
+  });
+};
+
+// Turns IDL seed definitions into seed buffers; account seeds are looked up by path
+export const resolveSeeds = (seeds: IdlSeed[], accounts: Record<string, PublicKey | undefined>): Buffer[] => {
+  return seeds.map((seed) => {
+    if (seed.kind === 'const') {
+      return Buffer.from(seed.value);
+    }
+    if (seed.kind === 'account') {
+      const account = accounts[seed.path];
+      if (!account) {
+        throw new Error(`Seed account "${seed.path}" was not provided`);
+      }
+      return account.toBuffer();
+    }
+    throw new Error(`Unsupported "${seed.kind}" seed "${seed.path}"`);
+  });
+};
+
+export const getCampaignSeeds = (): IdlSeed[] => {
+  const seeds = getIdlInstruction('create').accounts.find((account) => account.name === 'campaign')?.pda?.seeds;
+  if (!seeds) {
+    throw new Error('The IDL does not declare PDA seeds for the campaign account');
+  }
+  return seeds;
+};
+
+// Readable form of the seeds, e.g. `"CAMPAIGN_DEMO" + user`
+export const describeSeeds = (seeds: IdlSeed[]): string => {
+  return seeds
+    .map((seed) => seed.kind === 'const' ? JSON.stringify(Buffer.from(seed.value).toString('utf8')) : seed.path)
+    .join(' + ');
+};
+
+const toCampaignUpdate = (publicKey: PublicKey, info: { lamports: number; data: Buffer }): CampaignUpdate => {
+  // A closed account is reported with no lamports and no data
+  if (info.lamports === 0 || info.data.length === 0) {
+    return { type: 'remove', publicKey };
+  }
+  try {
+    return { type: 'upsert', campaign: { publicKey, account: decodeCampaign(info.data) } };
+  } catch (error) {
+    return { type: 'invalid', failure: { publicKey, error: (error as Error).message } };
+  }
+};
+
+export interface ProgramCheckResult {
+  ok: boolean;
+  problems: string[];
+}
+
+export interface CampaignClientOptions {
+  connection: Connection;
+  programId?: PublicKey;
+  commitment?: Commitment;
+}
+
+export const createCampaignClient = ({
+  connection,
+  programId = CAMPAIGN_PROGRAM_ID,
+  commitment = 'confirmed',
+}: CampaignClientOptions) => {
+  // Campaign PDAs use the seeds declared on the `create` instruction, with the admin as `user`
+  const deriveCampaignAddress = (admin: PublicKey): [PublicKey, number] => {
+    return PublicKey.findProgramAddressSync(resolveSeeds(getCampaignSeeds(), { user: admin }), programId);
+  };
+
+  // Whether `admin` already owns a campaign, checked before asking the wallet to sign a `create`
+  const findCampaignByAdmin = async (admin: PublicKey): Promise<CampaignAccount | null> => {
+    const [address] = deriveCampaignAddress(admin);
+    return fetchOne(address);
+  };
+
+  // Addresses of campaigns that are not where the IDL seeds say they should be
+  const findSeedMismatches = (campaigns: CampaignAccount[]): PublicKey[] => {
+    return campaigns
+      .filter(({ publicKey, account }) => !deriveCampaignAddress(account.admin)[0].equals(publicKey))
+      .map(({ publicKey }) => publicKey);
+  };
+
+  // Compares the IDL with the program the client is pointed at
+  const selfCheck = async (): Promise<ProgramCheckResult> => {
+    const problems: string[] = [];
+    if (!programId.equals(CAMPAIGN_PROGRAM_ID)) {
+      problems.push(`Program ID ${programId.toString()} differs from the IDL address ${CAMPAIGN_PROGRAM_ID.toString()}`);
+    }
+    try {
+      const seeds = getCampaignSeeds();
+      const accountNames = getIdlInstruction('create').accounts.map((account) => account.name);
+      for (const seed of seeds) {
+        if (seed.kind !== 'const' && !accountNames.includes(seed.path)) {
+          problems.push(`Campaign seed "${seed.path}" does not refer to an account of the create instruction`);
+        }
+      }
+      deriveCampaignAddress(PublicKey.default);
+    } catch (e) {
+      problems.push((e as Error).message);
+    }
+    try {
+      const programAccount = await connection.getAccountInfo(programId, commitment);
+      if (!programAccount) {
+        problems.push(`Program ${programId.toString()} is not deployed on this cluster`);
+      } else if (!programAccount.executable) {
+        problems.push(`Account ${programId.toString()} is not an executable program`);
+      }
+    } catch (e) {
+      problems.push(`Could not load the program account: ${(e as Error).message}`);
+    }
+    return { ok: problems.length === 0, problems };
+  };
+
+  const fetchOne = async (address: PublicKey): Promise<CampaignAccount | null> => {
+    const info = await connection.getAccountInfo(address, commitment);
+    if (!info || !info.owner.equals(programId)) return null;
+    return { publicKey: address, account: decodeCampaign(info.data) };
+  };
+
+  // One filtered query, decoded locally; accounts that fail to decode are returned, not dropped
+  const fetchAll = async (options: { admin?: PublicKey } = {}): Promise<CampaignFetchResult> => {
+    const accounts = await connection.getProgramAccounts(programId, {
+      commitment,
+      filters: campaignFilters(options.admin),
+    });
+    const result: CampaignFetchResult = { campaigns: [], failures: [] };
+    for (const { pubkey, account } of accounts) {
+      try {
+        result.campaigns.push({ publicKey: pubkey, account: decodeCampaign(account.data) });
+      } catch (error) {
+        result.failures.push({ publicKey: pubkey, error: (error as Error).message });
+      }
+    }
+    return result;
+  };
+
+  // Lamports the admin can take out while the account stays rent exempt; null when the account is gone
+  const fetchWithdrawable = async (address: PublicKey): Promise<number | null> => {
+    const info = await connection.getAccountInfo(address, commitment);
+    if (!info) return null;
+    const rentExemptMinimum = await connection.getMinimumBalanceForRentExemption(info.data.length, commitment);
+    return Math.max(info.lamports - rentExemptMinimum, 0);
+  };
+
+  // Addresses only: the data slice is empty, so the response stays small however many campaigns exist
+  const fetchAddresses = async (): Promise<PublicKey[]> => {
+    const accounts = await connection.getProgramAccounts(programId, {
+      commitment,
+      filters: campaignFilters(),
+      dataSlice: { offset: 0, length: 0 },
+    });
+    return accounts.map(({ pubkey }) => pubkey);
+  };
+
+  // Streams changes to any campaign over the RPC websocket; returns the unsubscribe function
+  const subscribe = (onUpdate: (update: CampaignUpdate) => void) => {
+    const id = connection.onProgramAccountChange(
+      programId,
+      ({ accountId, accountInfo }) => onUpdate(toCampaignUpdate(accountId, accountInfo)),
+      { commitment, filters: campaignFilters() }
+    );
+    return () => {
+      connection.removeProgramAccountChangeListener(id).catch((error) => {
+        console.warn('Error removing campaign subscription:', error);
+      });
+    };
+  };
+
+  const subscribeToCampaign = (address: PublicKey, onUpdate: (update: CampaignUpdate) => void) => {
+    const id = connection.onAccountChange(address, (accountInfo) => onUpdate(toCampaignUpdate(address, accountInfo)), { commitment });
+    return () => {
+      connection.removeAccountChangeListener(id).catch((error) => {
+        console.warn('Error removing campaign subscription:', error);
+      });
+    };
+  };
+
+  // Compute-unit limit and priority fee for these instructions, so previews and the sent transaction agree
+  const withBudget = (payer: PublicKey, instructions: TransactionInstruction[], level?: PriorityFeeLevel) => {
+    return withComputeBudget(connection, payer, instructions, level);
+  };
+
+  // Signs with the given signer, submits and waits for confirmation, retrying on blockhash expiry
+  const sendAndConfirm = async (
+    signer: CampaignSigner,
+    instructions: TransactionInstruction[],
+    { priorityFee, ...options }: CampaignSendOptions = {},
+  ) => {
+    const prepared = priorityFee && !instructions.some(isComputeBudgetInstruction)
+      ? (await withBudget(signer.publicKey, instructions, priorityFee)).instructions
+      : instructions;
+    const version = pickTransactionVersion(signer.supportedTransactionVersions);
+    return sendWithLifecycle(connection, signer, ({ blockhash }) => buildTransaction({
+      payer: signer.publicKey,
+      instructions: prepared,
+      recentBlockhash: blockhash,
+      version,
+    }), { commitment, ...options });
+  };
+
+  // Signs every transaction in one prompt and settles each separately; see sendAllWithLifecycle
+  const sendAllAndConfirm = (signer: CampaignBatchSigner, transactions: TransactionInstruction[][], options: BatchSendOptions = {}) => {
+    const version = pickTransactionVersion(signer.supportedTransactionVersions);
+    return sendAllWithLifecycle(connection, signer, ({ blockhash }) => transactions.map((instructions) => buildTransaction({
+      payer: signer.publicKey,
+      instructions,
+      recentBlockhash: blockhash,
+      version,
+    })), { commitment, ...options });
+  };
+
+  const createInstruction = (user: PublicKey, args: CampaignInstructions['create']['args']) => {
+    const [campaign] = deriveCampaignAddress(user);
+    return buildCampaignInstruction(programId, 'create', { campaign, user }, args);
+  };
+
+  const donateInstruction = (campaign: PublicKey, user: PublicKey, amount: BN) => {
+    return buildCampaignInstruction(programId, 'donate', { campaign, user }, { amount });
+  };
+
+  const withdrawInstruction = (campaign: PublicKey, user: PublicKey, amount: BN) => {
+    return buildCampaignInstruction(programId, 'withdraw', { campaign, user }, { amount });
+  };
+
+  return {
+    connection,
+    programId,
+    deriveCampaignAddress,
+    findCampaignByAdmin,
+    findSeedMismatches,
+    selfCheck,
+    fetchOne,
+    fetchWithdrawable,
+    fetchAll,
+    fetchAddresses,
+    subscribe,
+    subscribeToCampaign,
+    withBudget,
+    sendAndConfirm,
+    sendAllAndConfirm,
+    createInstruction,
+    donateInstruction,
+    withdrawInstruction,
+    create: (signer: CampaignSigner, args: CampaignInstructions['create']['args'], options?: CampaignSendOptions) => {
+      return sendAndConfirm(signer, [createInstruction(signer.publicKey, args)], options);
+    },
+    donate: (signer: CampaignSigner, campaign: PublicKey, amount: BN, options?: CampaignSendOptions) => {
+      return sendAndConfirm(signer, [donateInstruction(campaign, signer.publicKey, amount)], options);
+    },
+    withdraw: (signer: CampaignSigner, campaign: PublicKey, amount: BN, options?: CampaignSendOptions) => {
+      return sendAndConfirm(signer, [withdrawInstruction(campaign, signer.publicKey, amount)], options);
+    },
+  };
+};
+
+export type CampaignClient = ReturnType<typeof createCampaignClient>;
@@ -0,0 +1,44 @@
+import { unstable_cache } from 'next/cache';
+import { Connection } from '@solana/web3.js';
+import { ClusterId, CLUSTER_IDS, getCluster } from './clusters';
+import { createCampaignClient, serializeCampaign, SerializedCampaign } from './campaign-client';
+
+// Server-side campaign list: read with a wallet-less connection and cached across requests
+
+export const CAMPAIGN_SNAPSHOT_REVALIDATE_SECONDS = 30;
+export const CAMPAIGNS_CACHE_TAG = 'campaigns';
+
+export interface CampaignSnapshot {
+  cluster: ClusterId;
+  campaigns: SerializedCampaign[];
+  // Accounts with the Campaign discriminator that failed to decode
+  undecodable: number;
+  fetchedAt: number;
+}
+
+// A custom RPC URL only ever lives in the browser; the server must not be pointed at arbitrary hosts
+export const isSnapshotCluster = (value: string): value is Exclude<ClusterId, 'custom'> => (
+  value !== 'custom' && (CLUSTER_IDS as string[]).includes(value)
+);
+
+const fetchCampaignSnapshot = async (clusterId: ClusterId): Promise<CampaignSnapshot> => {
+  if (!isSnapshotCluster(clusterId)) {
+    throw new Error(`Campaign snapshots are not available for the ${clusterId} cluster`);
+  }
+  const cluster = getCluster(clusterId, null);
+  const connection = new Connection(cluster.endpoint, { commitment: cluster.commitment, disableRetryOnRateLimit: true });
+  const client = createCampaignClient({ connection, programId: cluster.programId });
+  const { campaigns, failures } = await client.fetchAll();
+  return {
+    cluster: clusterId,
+    campaigns: campaigns.map(serializeCampaign),
+    undecodable: failures.length,
+    fetchedAt: Date.now(),
+  };
+};
+
+export const getCampaignSnapshot = unstable_cache(
+  fetchCampaignSnapshot,
+  ['campaign-snapshot'],
+  { revalidate: CAMPAIGN_SNAPSHOT_REVALIDATE_SECONDS, tags: [CAMPAIGNS_CACHE_TAG] }
+);
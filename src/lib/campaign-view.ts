@@ -0,0 +1,121 @@
+import { CampaignAccount } from './campaign-client';
+import { describeCampaign } from './metadata';
+
+export const CAMPAIGN_SORTS = ['amount-desc', 'amount-asc', 'name-asc', 'name-desc'] as const;
+export const CAMPAIGN_FILTERS = ['all', 'mine', 'donated'] as const;
+
+export type CampaignSort = typeof CAMPAIGN_SORTS[number];
+export type CampaignFilter = typeof CAMPAIGN_FILTERS[number];
+
+// How the campaigns grid is searched, sorted, filtered and paged; mirrored in the URL query
+export interface CampaignView {
+  query: string;
+  sort: CampaignSort;
+  filter: CampaignFilter;
+  page: number;
+}
+
+export const DEFAULT_CAMPAIGN_VIEW: CampaignView = { query: '', sort: 'amount-desc', filter: 'all', page: 1 };
+export const CAMPAIGNS_PER_PAGE = 12;
+
+export const parseCampaignView = (params: URLSearchParams): CampaignView => {
+  const sort = params.get('sort');
+  const filter = params.get('filter');
+  const page = Number(params.get('page'));
+  return {
+    query: params.get('q') ?? DEFAULT_CAMPAIGN_VIEW.query,
+    sort: CAMPAIGN_SORTS.includes(sort as CampaignSort) ? sort as CampaignSort : DEFAULT_CAMPAIGN_VIEW.sort,
+    filter: CAMPAIGN_FILTERS.includes(filter as CampaignFilter) ? filter as CampaignFilter : DEFAULT_CAMPAIGN_VIEW.filter,
+    page: Number.isInteger(page) && page > 0 ? page : DEFAULT_CAMPAIGN_VIEW.page,
+  };
+};
+
+// Only non-default values are written, so the plain URL stays clean
+export const serializeCampaignView = (view: CampaignView, params = new URLSearchParams()): URLSearchParams => {
+  const next = new URLSearchParams(params);
+  const entries: [string, string, string][] = [
+    ['q', view.query.trim(), DEFAULT_CAMPAIGN_VIEW.query],
+    ['sort', view.sort, DEFAULT_CAMPAIGN_VIEW.sort],
+    ['filter', view.filter, DEFAULT_CAMPAIGN_VIEW.filter],
+    ['page', String(view.page), String(DEFAULT_CAMPAIGN_VIEW.page)],
+  ];
+  for (const [key, value, fallback] of entries) {
+    if (value === fallback) {
+      next.delete(key);
+    } else {
+      next.set(key, value);
+    }
+  }
+  return next;
+};
+
+export interface CampaignViewContext {
+  // Base58 key of the connected wallet
+  owner: string | null;
+  // Campaign addresses the wallet donated to; null while unknown
+  donated: Set<string> | null;
+}
+
+export interface CampaignViewResult {
+  items: CampaignAccount[];
+  // Position of the first item in the full sorted list
+  offset: number;
+  total: number;
+  page: number;
+  pageCount: number;
+}
+
+const matchesQuery = (campaign: CampaignAccount, query: string) => {
+  if (!query) return true;
+  const { name, description, admin } = campaign.account;
+  const needle = query.toLowerCase();
+  return name.toLowerCase().includes(needle)
+    || describeCampaign(description).toLowerCase().includes(needle)
+    || admin.toBase58().toLowerCase().includes(needle);
+};
+
+const compareCampaigns = (sort: CampaignSort) => (a: CampaignAccount, b: CampaignAccount) => {
+  switch (sort) {
+    case 'amount-desc':
+      return b.account.amountDonated.cmp(a.account.amountDonated);
+    case 'amount-asc':
+      return a.account.amountDonated.cmp(b.account.amountDonated);
+    case 'name-asc':
+      return a.account.name.localeCompare(b.account.name);
+    case 'name-desc':
+      return b.account.name.localeCompare(a.account.name);
+  }
+};
+
+export const applyCampaignView = (
+  campaigns: CampaignAccount[],
+  view: CampaignView,
+  { owner, donated }: CampaignViewContext,
+): CampaignViewResult => {
+  const query = view.query.trim();
+  const matching = campaigns
+    .filter((campaign) => {
+      switch (view.filter) {
+        case 'mine':
+          return campaign.account.admin.toBase58() === owner;
+        case 'donated':
+          return donated?.has(campaign.publicKey.toBase58()) ?? false;
+        default:
+          return true;
+      }
+    })
+    .filter((campaign) => matchesQuery(campaign, query))
+    // Address as tie-breaker keeps the order stable across refreshes
+    .sort((a, b) => compareCampaigns(view.sort)(a, b) || a.publicKey.toBase58().localeCompare(b.publicKey.toBase58()));
+
+  const pageCount = Math.max(Math.ceil(matching.length / CAMPAIGNS_PER_PAGE), 1);
+  const page = Math.min(view.page, pageCount);
+  const offset = (page - 1) * CAMPAIGNS_PER_PAGE;
+  return {
+    items: matching.slice(offset, offset + CAMPAIGNS_PER_PAGE),
+    offset,
+    total: matching.length,
+    page,
+    pageCount,
+  };
+};
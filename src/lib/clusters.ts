@@ -0,0 +1,132 @@
+import { Commitment, PublicKey } from '@solana/web3.js';
+import idl from '../idl.js';
+
+export type ClusterId = 'devnet' | 'testnet' | 'mainnet-beta' | 'localnet' | 'custom';
+
+export interface ClusterConfig {
+  id: ClusterId;
+  name: string;
+  endpoint: string;
+  programId: PublicKey;
+  commitment: Commitment;
+}
+
+export const CLUSTER_STORAGE_KEY = 'cluster';
+export const CUSTOM_RPC_STORAGE_KEY = 'customRpcUrl';
+export const DEFAULT_CLUSTER_ID: ClusterId = 'devnet';
+export const LOCALNET_ENDPOINT = 'http://127.0.0.1:8899';
+
+// Program IDs can be overridden per cluster; otherwise the address baked into the IDL is used.
+// Each variable is referenced literally so Next.js can inline it at build time.
+const programIdOverrides: Record<ClusterId, string | undefined> = {
+  'devnet': process.env.NEXT_PUBLIC_PROGRAM_ID_DEVNET,
+  'testnet': process.env.NEXT_PUBLIC_PROGRAM_ID_TESTNET,
+  'mainnet-beta': process.env.NEXT_PUBLIC_PROGRAM_ID_MAINNET,
+  'localnet': process.env.NEXT_PUBLIC_PROGRAM_ID_LOCALNET,
+  'custom': process.env.NEXT_PUBLIC_PROGRAM_ID_CUSTOM,
+};
+
+const endpointOverrides: Partial<Record<ClusterId, string | undefined>> = {
+  'devnet': process.env.NEXT_PUBLIC_RPC_DEVNET,
+  'testnet': process.env.NEXT_PUBLIC_RPC_TESTNET,
+  'mainnet-beta': process.env.NEXT_PUBLIC_RPC_MAINNET,
+  'localnet': process.env.NEXT_PUBLIC_RPC_LOCALNET,
+};
+
+const resolveProgramId = (id: ClusterId): PublicKey => {
+  const value = programIdOverrides[id] || idl.address;
+  try {
+    return new PublicKey(value);
+  } catch (e) {
+    console.warn(`Invalid program ID for ${id}, falling back to the IDL address:`, e);
+    return new PublicKey(idl.address);
+  }
+};
+
+const BASE_CLUSTERS: Record<Exclude<ClusterId, 'custom'>, Omit<ClusterConfig, 'programId'>> = {
+  'devnet': {
+    id: 'devnet',
+    name: 'Devnet',
+    endpoint: endpointOverrides['devnet'] || 'https://api.devnet.solana.com',
+    commitment: 'processed',
+  },
+  'testnet': {
+    id: 'testnet',
+    name: 'Testnet',
+    endpoint: endpointOverrides['testnet'] || 'https://api.testnet.solana.com',
+    commitment: 'confirmed',
+  },
+  'mainnet-beta': {
+    id: 'mainnet-beta',
+    name: 'Mainnet Beta',
+    endpoint: endpointOverrides['mainnet-beta'] || 'https://api.mainnet-beta.solana.com',
+    commitment: 'confirmed',
+  },
+  'localnet': {
+    id: 'localnet',
+    name: 'Localnet',
+    endpoint: endpointOverrides['localnet'] || LOCALNET_ENDPOINT,
+    commitment: 'confirmed',
+  },
+};
+
+export const CLUSTER_IDS: ClusterId[] = ['devnet', 'testnet', 'mainnet-beta', 'localnet', 'custom'];
+
+export const isClusterId = (value: unknown): value is ClusterId => {
+  return typeof value === 'string' && (CLUSTER_IDS as string[]).includes(value);
+};
+
+export const isValidRpcUrl = (value: string): boolean => {
+  try {
+    const url = new URL(value);
+    return url.protocol === 'http:' || url.protocol === 'https:';
+  } catch {
+    return false;
+  }
+};
+
+export const getCluster = (id: ClusterId, customEndpoint?: string | null): ClusterConfig => {
+  if (id === 'custom') {
+    return {
+      id,
+      name: 'Custom RPC',
+      endpoint: customEndpoint && isValidRpcUrl(customEndpoint) ? customEndpoint : LOCALNET_ENDPOINT,
+      programId: resolveProgramId(id),
+      commitment: 'confirmed',
+    };
+  }
+  return { ...BASE_CLUSTERS[id], programId: resolveProgramId(id) };
+};
+
+export type ExplorerPath = 'address' | 'tx' | 'block';
+
+// Explorer links carry the cluster, or the raw RPC URL for local and custom endpoints
+export const getExplorerUrl = (cluster: ClusterConfig, path: ExplorerPath, value: string): string => {
+  const url = new URL(`https://explorer.solana.com/${path}/${value}`);
+  if (cluster.id === 'devnet' || cluster.id === 'testnet') {
+    url.searchParams.set('cluster', cluster.id);
+  } else if (cluster.id === 'localnet' || cluster.id === 'custom') {
+    url.searchParams.set('cluster', 'custom');
+    url.searchParams.set('customUrl', cluster.endpoint);
+  }
+  return url.toString();
+};
+
+export const loadStoredCluster = (): { id: ClusterId; customEndpoint: string | null } => {
+  if (typeof window === 'undefined') {
+    return { id: DEFAULT_CLUSTER_ID, customEndpoint: null };
+  }
+  const stored = localStorage.getItem(CLUSTER_STORAGE_KEY);
+  return {
+    id: isClusterId(stored) ? stored : DEFAULT_CLUSTER_ID,
+    customEndpoint: localStorage.getItem(CUSTOM_RPC_STORAGE_KEY),
+  };
+};
+
+export const storeCluster = (id: ClusterId, customEndpoint: string | null) => {
+  localStorage.setItem(CLUSTER_STORAGE_KEY, id);
+  // The custom URL is kept while other clusters are selected so it can be switched back to
+  if (customEndpoint) {
+    localStorage.setItem(CUSTOM_RPC_STORAGE_KEY, customEndpoint);
+  }
+};
@@ -0,0 +1,168 @@
+import { SystemProgram, TransactionExpiredBlockheightExceededError } from '@solana/web3.js';
+import { LangErrorCode, LangErrorMessage } from '@project-serum/anchor';
+import { campaignIdl } from './idl';
+import { TransactionFailedError } from './transactions';
+import { translate, Translate } from './i18n';
+
+export type Severity = 'info' | 'success' | 'warning' | 'error';
+
+export interface StatusMessage {
+  message: string;
+  severity: Severity;
+}
+
+// Every failure the UI can surface, decoded from wallet errors, transaction errors and program logs
+export type AppError =
+  | { kind: 'wallet-rejected'; message: string }
+  | { kind: 'program'; code: number; name: string; message: string }
+  | { kind: 'anchor'; code: number; name: string; message: string; account?: string }
+  | { kind: 'system'; name: SystemErrorName; message: string }
+  | { kind: 'expired'; message: string }
+  | { kind: 'unknown'; message: string };
+
+export type SystemErrorName =
+  | 'AccountAlreadyInUse'
+  | 'InsufficientFunds'
+  | 'InsufficientFundsForFee'
+  | 'InsufficientFundsForRent'
+  | 'AccountNotFound';
+
+const systemError = (name: SystemErrorName, t: Translate): AppError => (
+  { kind: 'system', name, message: t(`error.system.${name}`) }
+);
+
+// System program custom error codes, see solana_program::system_instruction::SystemError
+const SYSTEM_PROGRAM_CODES: Record<number, SystemErrorName> = {
+  0: 'AccountAlreadyInUse',
+  1: 'InsufficientFunds',
+};
+
+// Runtime TransactionError variants reported as plain strings
+const TRANSACTION_ERROR_NAMES: Record<string, SystemErrorName> = {
+  InsufficientFundsForFee: 'InsufficientFundsForFee',
+  InsufficientFundsForRent: 'InsufficientFundsForRent',
+  AccountNotFound: 'AccountNotFound',
+};
+
+const ANCHOR_ERROR_NAMES = new Map<number, string>(
+  Object.entries(LangErrorCode).map(([name, code]) => [code as number, name])
+);
+
+const ANCHOR_LOG_RE = /AnchorError(?: caused by account: (\w+))?\. Error Code: (\w+)\. Error Number: (\d+)\. Error Message: (.*?)\.?$/;
+const PROGRAM_FAILED_RE = /^Program (\w+) failed: custom program error: 0x([0-9a-fA-F]+)/;
+const WALLET_REJECTED_RE = /user rejected|rejected the request|request rejected|transaction cancelled|user denied|approval denied/i;
+
+const decodeCustomCode = (code: number, t: Translate, account?: string): AppError => {
+  const idlError = campaignIdl.errors?.find((candidate) => candidate.code === code);
+  if (idlError) {
+    return { kind: 'program', code, name: idlError.name, message: idlError.msg ?? idlError.name };
+  }
+  const anchorName = ANCHOR_ERROR_NAMES.get(code);
+  if (anchorName) {
+    return { kind: 'anchor', code, name: anchorName, message: LangErrorMessage.get(code) ?? anchorName, account };
+  }
+  return { kind: 'unknown', message: t('error.customProgram', { code: String(code) }) };
+};
+
+const decodeLogs = (logs: string[], t: Translate): AppError | null => {
+  for (const line of logs) {
+    const anchor = line.match(ANCHOR_LOG_RE);
+    if (anchor) {
+      const [, account, , code] = anchor;
+      return decodeCustomCode(Number(code), t, account);
+    }
+  }
+  // The first failing program is the innermost one, e.g. the system program under a CPI
+  for (const line of logs) {
+    const failed = line.match(PROGRAM_FAILED_RE);
+    if (!failed) continue;
+    const [, programId, hexCode] = failed;
+    const code = parseInt(hexCode, 16);
+    if (programId === SystemProgram.programId.toBase58()) {
+      const name = SYSTEM_PROGRAM_CODES[code];
+      if (name) return systemError(name, t);
+    }
+    return decodeCustomCode(code, t);
+  }
+  const joined = logs.join('\n');
+  if (/insufficient lamports/i.test(joined)) return systemError('InsufficientFunds', t);
+  if (/already in use/i.test(joined)) return systemError('AccountAlreadyInUse', t);
+  return null;
+};
+
+// Decodes a raw TransactionError, e.g. { InstructionError: [0, { Custom: 2006 }] } or "InsufficientFundsForFee"
+const decodeTransactionError = (transactionError: unknown, t: Translate): AppError | null => {
+  if (typeof transactionError === 'string') {
+    const name = TRANSACTION_ERROR_NAMES[transactionError];
+    return name ? systemError(name, t) : null;
+  }
+  const instructionError = (transactionError as { InstructionError?: [number, unknown] } | null)?.InstructionError;
+  if (!instructionError) return null;
+  const [, detail] = instructionError;
+  if (detail && typeof detail === 'object' && 'Custom' in detail) {
+    return decodeCustomCode((detail as { Custom: number }).Custom, t);
+  }
+  if (detail === 'InsufficientFunds') return systemError('InsufficientFunds', t);
+  return null;
+};
+
+// Messages written here are in the language of `t`; program and unrecognised errors keep their own text
+export const decodeError = (error: unknown, t: Translate = translate): AppError => {
+  if (error instanceof TransactionExpiredBlockheightExceededError) {
+    return { kind: 'expired', message: t('error.expired') };
+  }
+
+  const err = error as { code?: number; name?: string; message?: string; logs?: string[] } | null;
+  const message = err?.message ?? String(error);
+
+  if (err?.code === 4001 || err?.name === 'WalletSignTransactionError' || WALLET_REJECTED_RE.test(message)) {
+    return { kind: 'wallet-rejected', message: t('error.rejected') };
+  }
+
+  const fromLogs = err?.logs ? decodeLogs(err.logs, t) : null;
+  if (fromLogs) return fromLogs;
+
+  if (error instanceof TransactionFailedError) {
+    const fromTransaction = decodeTransactionError(error.transactionError, t);
+    if (fromTransaction) return fromTransaction;
+  }
+
+  if (/insufficient funds|insufficient lamports|no record of a prior credit/i.test(message)) {
+    return systemError('InsufficientFunds', t);
+  }
+
+  return { kind: 'unknown', message };
+};
+
+export const severityOf = (error: AppError): Severity => {
+  switch (error.kind) {
+    case 'wallet-rejected':
+      return 'info';
+    case 'expired':
+      return 'warning';
+    default:
+      return 'error';
+  }
+};
+
+// One-line description for the status banner, e.g. "Error donating: Insufficient funds for this transaction".
+// `action` is a sentence-case phrase such as "Donating to campaign", already in the language of `t`.
+export const describeError = (error: AppError, action: string, t: Translate = translate): StatusMessage => {
+  const severity = severityOf(error);
+  const inSentence = action.toLowerCase();
+  switch (error.kind) {
+    case 'wallet-rejected':
+      return { severity, message: t('error.cancelled', { action }) };
+    case 'program':
+      return { severity, message: t('error.program', { action: inSentence, message: error.message, name: error.name, code: String(error.code) }) };
+    case 'anchor':
+      return {
+        severity,
+        message: error.account
+          ? t('error.anchorAccount', { action: inSentence, message: error.message, account: error.account, name: error.name })
+          : t('error.anchor', { action: inSentence, message: error.message, name: error.name }),
+      };
+    default:
+      return { severity, message: t('error.failed', { action: inSentence, message: error.message }) };
+  }
+};
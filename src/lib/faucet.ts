@@ -0,0 +1,55 @@
+import { Connection, LAMPORTS_PER_SOL, PublicKey } from '@solana/web3.js';
+import { ClusterConfig } from './clusters';
+import { translate, Translate } from './i18n';
+
+// Preset airdrop sizes offered by the faucet panel, in SOL
+export const AIRDROP_AMOUNTS = [0.5, 1, 2];
+
+// Public devnet refuses single airdrops above this; localnet validators accept more but there is no need
+export const MAX_AIRDROP_LAMPORTS = 2 * LAMPORTS_PER_SOL;
+
+// After a rate-limit response the panel waits this long before allowing another request
+export const AIRDROP_COOLDOWN_MS = 30_000;
+
+const RATE_LIMIT_RE = /429|too many requests|rate limit|airdrop limit|faucet has run dry/i;
+
+export class AirdropError extends Error {
+  rateLimited: boolean;
+
+  constructor(message: string, rateLimited: boolean) {
+    super(message);
+    this.name = 'AirdropError';
+    this.rateLimited = rateLimited;
+  }
+}
+
+// Airdrops only exist on the development clusters; mainnet and unknown custom RPCs never show the faucet
+export const isFaucetAvailable = (cluster: ClusterConfig) => cluster.id === 'devnet' || cluster.id === 'localnet';
+
+/**
+ * Requests an airdrop and waits until it is confirmed.
+ * Throws an `AirdropError`, flagged `rateLimited` when the faucet refused because of its limits.
+ */
+export const requestAirdrop = async (
+  connection: Connection,
+  owner: PublicKey,
+  lamports: number,
+  t: Translate = translate,
+): Promise<string> => {
+  const amount = Math.min(Math.ceil(lamports), MAX_AIRDROP_LAMPORTS);
+  try {
+    const latestBlockhash = await connection.getLatestBlockhash('confirmed');
+    const signature = await connection.requestAirdrop(owner, amount);
+    const { value } = await connection.confirmTransaction({ signature, ...latestBlockhash }, 'confirmed');
+    if (value.err) {
+      throw new Error(`Airdrop ${signature} failed: ${JSON.stringify(value.err)}`);
+    }
+    return signature;
+  } catch (error) {
+    const message = (error as Error)?.message ?? String(error);
+    if (RATE_LIMIT_RE.test(message)) {
+      throw new AirdropError(t('faucet.rateLimitedError'), true);
+    }
+    throw new AirdropError(t('faucet.failed', { error: message }), false);
+  }
+};
@@ -0,0 +1,100 @@
+import { LAMPORTS_PER_SOL } from '@solana/web3.js';
+import { BN } from '@project-serum/anchor';
+
+export type Denomination = 'SOL' | 'lamports';
+
+export type LamportAmount = BN | number | string;
+
+export interface AmountFormatOptions {
+  denomination?: Denomination;
+  // BCP 47 tag for digit grouping and the decimal separator; the runtime default when omitted
+  locale?: string;
+  // SOL only: digits kept after rounding; trailing zeros beyond `minDecimals` are trimmed
+  maxDecimals?: number;
+  minDecimals?: number;
+}
+
+export const SOL_DECIMALS = 9;
+const LAMPORTS = new BN(LAMPORTS_PER_SOL);
+
+const toBN = (value: LamportAmount): BN => {
+  if (BN.isBN(value)) return value as BN;
+  if (typeof value === 'number') {
+    if (!Number.isSafeInteger(value)) {
+      throw new Error(`Lamport amount ${value} is not a safe integer`);
+    }
+    return new BN(value);
+  }
+  return new BN(value, 10);
+};
+
+const separatorsFor = (locale?: string) => {
+  // Seven digits: some locales, e.g. es, leave four-digit numbers ungrouped
+  const parts = new Intl.NumberFormat(locale).formatToParts(1000000.5);
+  return {
+    group: parts.find((part) => part.type === 'group')?.value ?? ',',
+    decimal: parts.find((part) => part.type === 'decimal')?.value ?? '.',
+  };
+};
+
+// Groups a string of digits in threes; works for any length, unlike Number#toLocaleString
+const groupDigits = (digits: string, separator: string) => digits.replace(/\B(?=(\d{3})+(?!\d))/g, separator);
+
+/**
+ * Exact decimal SOL string for any u64 lamport amount, rounded half up to `maxDecimals`.
+ * No grouping and always `.` as separator, so the result can be parsed back.
+ */
+export const lamportsToSolString = (lamports: LamportAmount, maxDecimals = SOL_DECIMALS, minDecimals = 0): string => {
+  const value = toBN(lamports);
+  const negative = value.isNeg();
+  let abs = value.abs();
+
+  const dropped = SOL_DECIMALS - Math.min(Math.max(maxDecimals, 0), SOL_DECIMALS);
+  if (dropped > 0) {
+    const unit = new BN(10).pow(new BN(dropped));
+    abs = abs.add(unit.divn(2)).div(unit).mul(unit);
+  }
+
+  const whole = abs.div(LAMPORTS).toString();
+  let fraction = abs.mod(LAMPORTS).toString().padStart(SOL_DECIMALS, '0').slice(0, SOL_DECIMALS - dropped);
+  while (fraction.length > minDecimals && fraction.endsWith('0')) {
+    fraction = fraction.slice(0, -1);
+  }
+  const sign = negative && (whole !== '0' || /[1-9]/.test(fraction)) ? '-' : '';
+  return `${sign}${whole}${fraction ? `.${fraction}` : ''}`;
+};
+
+// Locale-formatted amount without a unit, e.g. "1,234.5" or "1.234.500.000" lamports in de-DE
+export const formatAmountValue = (
+  lamports: LamportAmount,
+  { denomination = 'SOL', locale, maxDecimals = 4, minDecimals = 0 }: AmountFormatOptions = {},
+): string => {
+  const { group, decimal } = separatorsFor(locale);
+  const plain = denomination === 'SOL'
+    ? lamportsToSolString(lamports, maxDecimals, minDecimals)
+    : toBN(lamports).toString();
+  const [whole, fraction] = plain.split('.');
+  const sign = whole.startsWith('-') ? '-' : '';
+  const grouped = groupDigits(whole.replace('-', ''), group);
+  return `${sign}${grouped}${fraction ? `${decimal}${fraction}` : ''}`;
+};
+
+// Amount with its unit, e.g. "0.1 SOL" or "100,000,000 lamports"
+export const formatAmount = (lamports: LamportAmount, options: AmountFormatOptions = {}): string => {
+  const denomination = options.denomination ?? 'SOL';
+  return `${formatAmountValue(lamports, options)} ${denomination}`;
+};
+
+export const formatSol = (lamports: LamportAmount, options: Omit<AmountFormatOptions, 'denomination'> = {}): string => {
+  return formatAmountValue(lamports, { ...options, denomination: 'SOL' });
+};
+
+// Fiat estimate; precision loss is irrelevant here, the figure is approximate anyway
+export const formatFiat = (lamports: LamportAmount, pricePerSol: number, currency: string, locale?: string): string => {
+  const sol = Number(lamportsToSolString(lamports));
+  return new Intl.NumberFormat(locale, { style: 'currency', currency, maximumFractionDigits: 2 }).format(sol * pricePerSol);
+};
+
+export const truncatePublicKey = (publicKey: string): string => {
+  return `${publicKey.slice(0, 4)}...${publicKey.slice(-4)}`;
+};
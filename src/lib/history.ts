@@ -0,0 +1,162 @@
+import { Connection, PublicKey, VersionedTransactionResponse } from '@solana/web3.js';
+import { BN, utils } from '@project-serum/anchor';
+import { campaignCoder } from './campaign-client';
+import { findIdlInstructionByDiscriminator } from './idl';
+
+export type CampaignActivityType = 'create' | 'donate' | 'withdraw';
+
+// One campaign program instruction found in a transaction
+export interface CampaignActivity {
+  signature: string;
+  slot: number;
+  blockTime: number | null;
+  success: boolean;
+  type: CampaignActivityType;
+  campaign: PublicKey;
+  user: PublicKey;
+  amount: BN | null;
+  name?: string;
+}
+
+export interface ActivityPage {
+  activities: CampaignActivity[];
+  // Pass as `before` to load the next (older) page; null when there is nothing older
+  nextBefore: string | null;
+}
+
+export interface ActivityQuery {
+  limit?: number;
+  before?: string;
+}
+
+const ACTIVITY_TYPES: CampaignActivityType[] = ['create', 'donate', 'withdraw'];
+
+interface RawInstruction {
+  programIdIndex: number;
+  accounts: number[];
+  data: Uint8Array;
+}
+
+// Decodes every campaign program instruction in a transaction, including ones invoked through CPI
+export const decodeCampaignActivities = (
+  signature: string,
+  transaction: VersionedTransactionResponse,
+  programId: PublicKey,
+): CampaignActivity[] => {
+  const { message } = transaction.transaction;
+  const accountKeys = message.getAccountKeys({
+    accountKeysFromLookups: transaction.meta?.loadedAddresses,
+  });
+
+  const instructions: RawInstruction[] = [
+    ...message.compiledInstructions.map((instruction) => ({
+      programIdIndex: instruction.programIdIndex,
+      accounts: instruction.accountKeyIndexes,
+      data: instruction.data,
+    })),
+    ...(transaction.meta?.innerInstructions ?? []).flatMap(({ instructions: inner }) => inner.map((instruction) => ({
+      programIdIndex: instruction.programIdIndex,
+      accounts: instruction.accounts,
+      data: utils.bytes.bs58.decode(instruction.data),
+    }))),
+  ];
+
+  const activities: CampaignActivity[] = [];
+  for (const instruction of instructions) {
+    if (!accountKeys.get(instruction.programIdIndex)?.equals(programId)) continue;
+
+    const idlInstruction = findIdlInstructionByDiscriminator(instruction.data);
+    if (!idlInstruction || !ACTIVITY_TYPES.includes(idlInstruction.name as CampaignActivityType)) continue;
+
+    const decoded = campaignCoder.instruction.decode(Buffer.from(instruction.data));
+    if (!decoded) continue;
+
+    // Accounts are positional, in the order the IDL lists them
+    const accountAt = (name: string) => {
+      const index = idlInstruction.accounts.findIndex((account) => account.name === name);
+      return index === -1 ? undefined : accountKeys.get(instruction.accounts[index]);
+    };
+    const campaign = accountAt('campaign');
+    const user = accountAt('user');
+    if (!campaign || !user) continue;
+
+    const args = decoded.data as { amount?: BN; name?: string };
+    activities.push({
+      signature,
+      slot: transaction.slot,
+      blockTime: transaction.blockTime ?? null,
+      success: !transaction.meta?.err,
+      type: idlInstruction.name as CampaignActivityType,
+      campaign,
+      user,
+      amount: args.amount ?? null,
+      name: args.name,
+    });
+  }
+  return activities;
+};
+
+// Campaign program activity in the transactions that touched `address`, newest first
+export const fetchProgramActivity = async (
+  connection: Connection,
+  programId: PublicKey,
+  address: PublicKey,
+  { limit = 25, before }: ActivityQuery = {},
+): Promise<ActivityPage> => {
+  const signatures = await connection.getSignaturesForAddress(address, { limit, before }, 'confirmed');
+  if (signatures.length === 0) {
+    return { activities: [], nextBefore: null };
+  }
+
+  const transactions = await connection.getTransactions(
+    signatures.map(({ signature }) => signature),
+    { commitment: 'confirmed', maxSupportedTransactionVersion: 0 }
+  );
+
+  const activities = transactions.flatMap((transaction, i) => (
+    transaction ? decodeCampaignActivities(signatures[i].signature, transaction, programId) : []
+  ));
+
+  return {
+    activities,
+    nextBefore: signatures.length < limit ? null : signatures[signatures.length - 1].signature,
+  };
+};
+
+// Donations and withdrawals recorded against one campaign account
+export const fetchCampaignHistory = async (
+  connection: Connection,
+  programId: PublicKey,
+  campaign: PublicKey,
+  query?: ActivityQuery,
+): Promise<ActivityPage> => {
+  const page = await fetchProgramActivity(connection, programId, campaign, query);
+  return {
+    ...page,
+    activities: page.activities.filter((activity) => activity.campaign.equals(campaign)),
+  };
+};
+
+export interface FullHistory {
+  activities: CampaignActivity[];
+  // True when `maxSignatures` was reached before the oldest transaction
+  truncated: boolean;
+}
+
+// Every page of a campaign's history, up to `maxSignatures` transactions, newest first
+export const fetchFullCampaignHistory = async (
+  connection: Connection,
+  programId: PublicKey,
+  campaign: PublicKey,
+  { pageSize = 100, maxSignatures = 1000 }: { pageSize?: number; maxSignatures?: number } = {},
+): Promise<FullHistory> => {
+  const activities: CampaignActivity[] = [];
+  let before: string | undefined;
+  for (let fetched = 0; fetched < maxSignatures; fetched += pageSize) {
+    const page = await fetchCampaignHistory(connection, programId, campaign, { limit: pageSize, before });
+    activities.push(...page.activities);
+    if (!page.nextBefore) return { activities, truncated: false };
+    before = page.nextBefore;
+  }
+  return { activities, truncated: true };
+};
@@ -0,0 +1,61 @@
+import { en, Message, MessageKey, Messages } from './messages/en';
+import { es } from './messages/es';
+
+export type { MessageKey } from './messages/en';
+
+export const LOCALES = ['en', 'es'] as const;
+export type Locale = typeof LOCALES[number];
+export const DEFAULT_LOCALE: Locale = 'en';
+
+// Set by the language picker and read back on load
+export const LOCALE_COOKIE = 'locale';
+
+// Each locale's name in its own language, for the language picker
+export const LOCALE_NAMES: Record<Locale, string> = {
+  en: 'English',
+  es: 'Español',
+};
+
+const CATALOGS: Record<Locale, Messages> = { en, es };
+
+export type MessageParams = Record<string, string | number>;
+export type Translate = (key: MessageKey, params?: MessageParams) => string;
+
+export const isLocale = (value: string | null | undefined): value is Locale => (
+  LOCALES.includes(value as Locale)
+);
+
+/**
+ * Picks the first supported language from an Accept-Language header or navigator.languages,
+ * matching on the primary subtag so "es-MX" selects "es".
+ */
+export const negotiateLocale = (preferred: string | readonly string[] | null | undefined): Locale => {
+  const tags = typeof preferred === 'string'
+    ? preferred.split(',').map((entry) => entry.split(';')[0].trim())
+    : preferred ?? [];
+  for (const tag of tags) {
+    const language = tag.toLowerCase().split('-')[0];
+    if (isLocale(language)) return language;
+  }
+  return DEFAULT_LOCALE;
+};
+
+const pick = (message: Message, locale: Locale, params: MessageParams): string => {
+  if (typeof message === 'string') return message;
+  const count = Number(params.count ?? 0);
+  return new Intl.PluralRules(locale).select(count) === 'one' ? message.one : message.other;
+};
+
+// Numbers in `{placeholders}` are formatted for the locale; strings are inserted as they are
+export const createTranslator = (locale: Locale): Translate => {
+  const catalog = CATALOGS[locale];
+  const numbers = new Intl.NumberFormat(locale);
+  return (key, params = {}) => pick(catalog[key] ?? en[key], locale, params).replace(/\{(\w+)\}/g, (placeholder, name) => {
+    const value = params[name];
+    if (value === undefined) return placeholder;
+    return typeof value === 'number' ? numbers.format(value) : value;
+  });
+};
+
+// English, for code that runs outside the provider, e.g. tests and server logs
+export const translate = createTranslator(DEFAULT_LOCALE);
@@ -0,0 +1,108 @@
+import { Idl } from '@project-serum/anchor';
+import rawIdl from '../idl.js';
+
+// Shapes of the Anchor 0.30 IDL format used by src/idl.js
+export type IdlSeed =
+  | { kind: 'const'; value: number[] }
+  | { kind: 'account'; path: string }
+  | { kind: 'arg'; path: string };
+
+export interface IdlInstructionAccount {
+  name: string;
+  writable?: boolean;
+  signer?: boolean;
+  address?: string;
+  pda?: { seeds: IdlSeed[] };
+}
+
+export interface IdlField {
+  name: string;
+  type: string | Record<string, unknown>;
+}
+
+export interface IdlInstruction {
+  name: string;
+  discriminator: number[];
+  accounts: IdlInstructionAccount[];
+  args: IdlField[];
+}
+
+export interface IdlAccount {
+  name: string;
+  discriminator: number[];
+  type?: { kind: 'struct'; fields: IdlField[] };
+}
+
+export interface IdlErrorCode {
+  code: number;
+  name: string;
+  msg?: string;
+}
+
+export interface CampaignProgramIdl {
+  address: string;
+  metadata: {
+    name: string;
+    version: string;
+    spec: string;
+    description: string;
+  };
+  instructions: IdlInstruction[];
+  accounts: IdlAccount[];
+  types: { name: string; type: { kind: 'struct'; fields: IdlField[] } }[];
+  events?: unknown[];
+  errors?: IdlErrorCode[];
+  constants?: unknown[];
+}
+
+export const campaignIdl = rawIdl as unknown as CampaignProgramIdl;
+
+// Anchor 0.26 expects the legacy format: isMut/isSigner flags and account layouts inline
+export const toAnchorIdl = (idl: CampaignProgramIdl): Idl => {
+  const typeFor = (name: string) => idl.types.find((type) => type.name === name)?.type;
+  return {
+    version: idl.metadata?.version || '0.1.0',
+    name: idl.metadata?.name || 'campaign_program',
+    instructions: (idl.instructions || []).map((instruction) => ({
+      name: instruction.name,
+      accounts: instruction.accounts.map((account) => ({
+        name: account.name,
+        isMut: Boolean(account.writable),
+        isSigner: Boolean(account.signer),
+      })),
+      args: instruction.args,
+    })),
+    accounts: (idl.accounts || []).map((account) => ({
+      name: account.name,
+      type: account.type ?? typeFor(account.name),
+    })),
+    types: idl.types || [],
+    events: idl.events || [],
+    errors: idl.errors || [],
+    constants: idl.constants || [],
+  } as Idl;
+};
+
+export const getIdlInstruction = (name: string): IdlInstruction => {
+  const instruction = campaignIdl.instructions.find((candidate) => candidate.name === name);
+  if (!instruction) {
+    throw new Error(`Instruction "${name}" is missing from the IDL`);
+  }
+  return instruction;
+};
+
+export const getIdlAccount = (name: string): IdlAccount => {
+  const account = campaignIdl.accounts.find((candidate) => candidate.name === name);
+  if (!account) {
+    throw new Error(`Account "${name}" is missing from the IDL`);
+  }
+  return account;
+};
+
+// Matches the first 8 bytes of instruction data against the discriminators declared in the IDL
+export const findIdlInstructionByDiscriminator = (data: Uint8Array): IdlInstruction | null => {
+  return campaignIdl.instructions.find((instruction) => (
+    instruction.discriminator.length <= data.length
+    && instruction.discriminator.every((byte, i) => data[i] === byte)
+  )) ?? null;
+};
@@ -0,0 +1,343 @@
+// Plural messages pick `one` or `other` with Intl.PluralRules from the `count` parameter
+export type Message = string | { one: string; other: string };
+
+// The source catalog: every key the UI uses, and the fallback for keys a translation lacks
+export const en = {
+  'app.title': 'Solana Campaign Platform',
+  'app.tagline': 'Create and support amazing projects on the Solana blockchain',
+  'app.description': 'Create, browse and fund campaigns on Solana',
+  'app.footer': 'Check the browser console for debug logs. Built with Next.js, Solana, and Anchor.',
+  'app.programCheckFailed': 'Program self-check found problems on {cluster}:',
+  'app.language': 'Language',
+  'app.dataSource': 'Showing data from {cluster} ({endpoint}).',
+
+  'common.loading': 'Loading...',
+  'common.loadingIndicator': 'Loading',
+  'common.refresh': 'Refresh',
+  'common.dismiss': 'Dismiss',
+  'common.remove': 'Remove',
+  'common.cancel': 'Cancel',
+  'common.error': 'Error',
+  'common.unknownTime': 'Unknown time',
+  'common.loadOlder': 'Load older transactions',
+  'common.amount': 'Amount',
+  'common.time': 'Time',
+  'common.transaction': 'Transaction',
+  'common.campaign': 'Campaign',
+  'common.amountDonated': 'Amount Donated',
+  'common.admin': 'Admin',
+  'common.showDenomination': 'Show {denomination}',
+
+  'wallet.connected': 'Connected',
+  'wallet.connectedVia': 'Connected via {wallet}',
+  'wallet.publicKey': 'Connected Public Key:',
+  'wallet.signedInUntil': 'Signed in until {time}',
+  'wallet.signOut': 'Signed in · Sign out',
+  'wallet.signIn': 'Sign in',
+  'wallet.signingIn': 'Signing in...',
+  'wallet.disconnect': 'Disconnect',
+  'wallet.pickerTitle': 'Connect Your Wallet to Get Started',
+  'wallet.pickerSubtitle': 'Choose a Solana wallet to create campaigns and support creators on Solana',
+  'wallet.connect': 'Connect {wallet}',
+  'wallet.install': 'Install {wallet}',
+
+  'status.walletsFound': '{wallets} found but not connected.',
+  'status.noWallet': 'No Solana wallet found. Please install Phantom, Solflare or Backpack.',
+  'status.walletNotFound': '{wallet} wallet not found. Please install {wallet}.',
+  'status.walletRestored': '{wallet} wallet found and connected!',
+  'status.walletConnected': '{wallet} wallet connected successfully!',
+  'status.walletDisconnected': 'Wallet disconnected.',
+  'status.namedWalletDisconnected': '{wallet} wallet disconnected.',
+  'status.accountSwitched': 'Switched to account {account}',
+  'status.signedIn': 'Signed in as {account}.',
+  'status.notConnected': 'Wallet is not connected',
+  'status.fetchCampaignsFailed': 'Error fetching campaigns: {error}',
+  'status.undecodable': {
+    one: '{count} campaign account could not be decoded.',
+    other: '{count} campaign accounts could not be decoded.',
+  },
+  'status.clusterSwitched': 'Switched to {cluster}',
+  'status.clusterSwitchFailed': 'Error switching cluster: {error}',
+  'status.customRpcHint': 'Enter a custom RPC URL and press "Use Custom RPC".',
+  'status.airdropped': 'Airdropped {amount} to your wallet.',
+  'status.enterCampaignName': 'Please enter a campaign name',
+  'status.campaignExists': 'You already have a campaign ("{name}"). Each wallet can only create one.',
+  'status.createCancelled': 'Campaign creation cancelled.',
+  'status.campaignCreated': 'Campaign created successfully!',
+  'status.seedsHint': 'The client derives the campaign address from {seeds}.',
+  'status.donationCancelled': 'Donation cancelled.',
+  'status.donated': 'Successfully donated {amount} SOL to campaign!',
+  'status.donationsCancelled': 'Donations cancelled.',
+  'status.donatedToAll': {
+    one: 'Successfully donated to {count} campaign!',
+    other: 'Successfully donated to {count} campaigns!',
+  },
+  'status.donatedToSome': 'Donated to {succeeded} of {count} campaigns; see the cart for what failed.',
+  'status.adminOnly': 'Only the campaign admin can withdraw funds',
+  'status.adminOnlyError': 'Error: Only the campaign admin can withdraw funds.',
+  'status.invalidWithdrawal': 'Please enter a valid withdrawal amount',
+  'status.withdrawExceedsDonated': 'Cannot withdraw {amount} SOL, only {donated} has been donated',
+  'status.campaignNotFound': 'Campaign account not found',
+  'status.amountTooLarge': '{amount} is more than can be previewed exactly; send at most {max} per transaction',
+  'status.withdrawExceedsRent': 'Cannot withdraw {amount} SOL, at most {available} can be withdrawn while keeping the account rent exempt',
+  'status.withdrawCancelled': 'Withdrawal cancelled.',
+  'status.withdrew': 'Successfully withdrew {amount} SOL from campaign!',
+  'status.noWalletSelected': 'No wallet selected. Please connect a wallet first.',
+
+  'action.connectWallet': 'Connecting wallet',
+  'action.signIn': 'Signing in',
+  'action.createCampaign': 'Creating campaign',
+  'action.donate': 'Donating to campaign',
+  'action.donateMany': 'Donating to campaigns',
+  'action.withdraw': 'Withdrawing from campaign',
+
+  'error.cancelled': '{action} cancelled in the wallet.',
+  'error.failed': 'Error {action}: {message}',
+  'error.program': 'Error {action}: {message} ({name}, code {code})',
+  'error.anchor': 'Error {action}: {message} ({name})',
+  'error.anchorAccount': 'Error {action}: {message} on account "{account}" ({name})',
+  'error.rejected': 'Request rejected in the wallet',
+  'error.expired': 'The transaction expired before it was confirmed. Please try again.',
+  'error.customProgram': 'Custom program error {code}',
+  'error.system.AccountAlreadyInUse': 'The account already exists',
+  'error.system.InsufficientFunds': 'Insufficient funds for this transaction',
+  'error.system.InsufficientFundsForFee': 'Insufficient funds to pay the network fee',
+  'error.system.InsufficientFundsForRent': 'Insufficient funds to keep the account rent exempt',
+  'error.system.AccountNotFound': 'The fee payer account has no SOL yet',
+  'error.insufficientBalance': 'Insufficient funds to cover the amount, network fee and rent',
+
+  'transaction.createCampaign': 'Create campaign "{name}"',
+  'transaction.donate': 'Donate {amount} SOL',
+  'transaction.donateTo': 'Donate {amount} SOL to {campaign}',
+  'transaction.donateMany': 'Donate {amount} to {count} campaigns',
+  'transaction.donateBatch': {
+    one: 'Donate to {count} campaign',
+    other: 'Donate to {count} campaigns',
+  },
+  'transaction.batchPart': '{label} ({part} of {parts})',
+  'transaction.withdraw': 'Withdraw {amount} SOL',
+  'transaction.withdrawFrom': 'Withdraw {amount} SOL from "{name}"',
+
+  'cluster.label': 'Cluster:',
+  'cluster.customRpc': 'Custom RPC URL',
+  'cluster.useCustomRpc': 'Use Custom RPC',
+  'cluster.priorityFee': 'Priority fee:',
+  'cluster.priorityFeeHint': 'Bid for faster inclusion during congestion, based on recent fees for the same accounts',
+  'cluster.priorityFee.none': 'None',
+  'cluster.priorityFee.low': 'Low',
+  'cluster.priorityFee.medium': 'Medium',
+  'cluster.priorityFee.high': 'High',
+  'cluster.invalidRpc': 'Please enter a valid http(s) RPC URL',
+
+  'faucet.balance': 'Balance:',
+  'faucet.label': '{cluster} faucet:',
+  'faucet.requesting': 'Requesting...',
+  'faucet.airdrop': 'Airdrop {amount} SOL',
+  'faucet.rateLimited': 'Rate limited, retry in {seconds}s',
+  'faucet.rateLimitedError': 'The faucet is rate limited right now. Wait a little or use https://faucet.solana.com',
+  'faucet.failed': 'Airdrop failed: {error}',
+
+  'form.title': 'Create New Campaign',
+  'form.existing': 'You already have a campaign: {name}. Each wallet can only create one.',
+  'form.name': 'Campaign Name',
+  'form.namePlaceholder': 'Enter unique campaign name',
+  'form.description': 'Description',
+  'form.descriptionPlaceholder': 'Enter campaign description',
+  'form.details': 'Goal, deadline, image and links',
+  'form.displayTitle': 'Display title',
+  'form.displayTitlePlaceholder': 'Defaults to the campaign name',
+  'form.goal': 'Funding goal (SOL)',
+  'form.goalPlaceholder': 'e.g. 25',
+  'form.deadline': 'Deadline',
+  'form.image': 'Image URL',
+  'form.links': 'Links',
+  'form.linksPlaceholder': 'One per line, e.g.\nWebsite https://example.org',
+  'form.uri': 'Metadata document URI',
+  'form.uriPlaceholder': 'Optional JSON with title, description, image, goal, deadline and links',
+  'form.invalidGoal': 'Enter the goal as a positive SOL amount',
+  'form.pastDeadline': 'The deadline must be in the future',
+  'form.bytesUsed': '{used} of {max} bytes of on-chain space used.',
+  'form.create': 'Create Campaign',
+  'form.creating': 'Creating Campaign...',
+  'form.defaultDescription': 'No description provided',
+
+  'campaigns.refresh': 'Refresh Campaigns',
+  'campaigns.heading': 'Campaigns ({count})',
+  'campaigns.headingFiltered': 'Campaigns ({visible} of {count})',
+  'campaigns.live': 'Live',
+  'campaigns.polling': 'Polling every {seconds}s',
+  'campaigns.search': 'Search campaigns',
+  'campaigns.searchPlaceholder': 'Search name, description or admin',
+  'campaigns.sortLabel': 'Sort campaigns',
+  'campaigns.filterLabel': 'Filter campaigns',
+  'campaigns.sort.amount-desc': 'Most donated',
+  'campaigns.sort.amount-asc': 'Least donated',
+  'campaigns.sort.name-asc': 'Name A-Z',
+  'campaigns.sort.name-desc': 'Name Z-A',
+  'campaigns.filter.all': 'All campaigns',
+  'campaigns.filter.mine': 'My campaigns',
+  'campaigns.filter.donated': 'Campaigns I donated to',
+  'campaigns.export': 'Export campaigns',
+  'campaigns.loading': 'Loading campaigns...',
+  'campaigns.empty': 'No campaigns found. Create your first campaign!',
+  'campaigns.lookingUpDonations': 'Looking up your donations...',
+  'campaigns.noMatches': 'No campaigns match the current search and filter.',
+  'campaigns.pages': 'Campaign pages',
+  'campaigns.previous': 'Previous',
+  'campaigns.next': 'Next',
+  'campaigns.page': 'Page {page} of {pages}',
+  'campaigns.undecodable': {
+    one: '{count} account with the Campaign discriminator could not be decoded',
+    other: '{count} accounts with the Campaign discriminator could not be decoded',
+  },
+
+  'card.deadline': 'Deadline',
+  'card.addToCart': 'Add to donation cart',
+  'card.inCart': 'In donation cart (remove)',
+  'card.connectToDonate': 'Connect a wallet to donate.',
+  'card.withdrawTitle': 'Withdraw Funds (Admin)',
+  'card.withdrawAmount': 'Amount to withdraw',
+  'card.withdraw': 'Withdraw',
+  'card.withdrawing': 'Withdrawing...',
+
+  'donation.preset': '{amount} SOL',
+  'donation.amount': 'Donation amount',
+  'donation.donate': 'Donate {amount} SOL',
+  'donation.donating': 'Donating...',
+  'donation.enterAmount': 'Enter an amount',
+  'donation.invalid': 'Enter a valid amount, e.g. 0.5',
+  'donation.tooManyDecimals': 'Enter a number with at most {decimals} decimals',
+  'donation.tooLarge': 'Amount is too large',
+  'donation.belowMinimum': 'Minimum donation is {amount} SOL',
+  'donation.aboveMaximum': 'Maximum donation is {amount} SOL',
+  'donation.exceedsBalance': 'Amount plus network fee exceeds your balance',
+  'donation.airdrop': 'Airdrop {amount} to cover it',
+  'donation.airdropping': 'Requesting airdrop...',
+
+  'cart.title': 'Donation Cart',
+  'cart.empty': 'Empty cart',
+  'cart.amountFor': 'Amount for {name}',
+  'cart.removeItem': 'Remove {name} from the cart',
+  'cart.lastAttemptFailed': 'Last attempt failed: {error}',
+  'cart.total': {
+    one: 'Total for {count} campaign',
+    other: 'Total for {count} campaigns',
+  },
+  'cart.overBalance': 'The total plus network fees exceeds your balance.',
+  'cart.donate': {
+    one: 'Donate to {count} campaign',
+    other: 'Donate to {count} campaigns',
+  },
+  'cart.donated': 'Donated',
+
+  'preview.currentBalance': 'Current balance',
+  'preview.amount': 'Amount',
+  'preview.amountReceived': 'Amount received',
+  'preview.networkFee': 'Network fee',
+  'preview.networkFees': 'Network fees ({count} transactions)',
+  'preview.rent': 'Rent deposit for the new account',
+  'preview.balanceAfter': 'Balance after',
+  'preview.computeUnits': 'Compute units (simulated)',
+  'preview.simulationFailed': 'Simulation failed: {error}',
+  'preview.requestingAirdrop': 'Requesting airdrop...',
+  'preview.airdrop': 'Airdrop {amount} and simulate again',
+  'preview.logs': 'Simulation logs ({count})',
+  'preview.confirm': 'Confirm in Wallet',
+  'preview.blocked': 'Blocked',
+
+  'activity.title': 'Recent Activity',
+  'activity.clear': 'Clear finished',
+  'activity.dismiss': 'Dismiss {label}',
+  'activity.attempt': 'attempt {attempt}',
+  'activity.toggle': 'Activity ({count})',
+  'activity.announcement': '{label}: {status}',
+  'activity.status.signing': 'signing',
+  'activity.status.sent': 'sent',
+  'activity.status.processed': 'processed',
+  'activity.status.confirmed': 'confirmed',
+  'activity.status.finalized': 'finalized',
+  'activity.status.failed': 'failed',
+  'activity.interrupted': 'Interrupted before it was sent',
+
+  'dashboard.title': 'My Dashboard',
+  'dashboard.balance': 'Wallet balance',
+  'dashboard.donated': 'Donated',
+  'dashboard.donatedLoaded': 'Donated (loaded history)',
+  'dashboard.campaignsSupported': 'Campaigns supported',
+  'dashboard.withdrawn': 'Withdrawn',
+  'dashboard.myCampaign': 'My Campaign',
+  'dashboard.raised': 'Raised',
+  'dashboard.withdrawable': 'Withdrawable',
+  'dashboard.noCampaign': 'You have not created a campaign on this cluster yet.',
+  'dashboard.myDonations': 'My Donations',
+  'dashboard.noDonations': 'No donations found in your recent transactions.',
+  'dashboard.fetchFailed': 'Error fetching your activity: {error}',
+
+  'metadata.goalReached': 'Goal reached',
+  'metadata.funded': '{percent}% funded',
+  'metadata.goal': 'Goal',
+  'metadata.progress': 'Funding progress',
+  'metadata.ended': 'Ended',
+  'metadata.daysLeft': '{days}d {hours}h left',
+  'metadata.hoursLeft': '{hours}h {minutes}m left',
+  'metadata.minutesLeft': '{minutes}m {seconds}s left',
+  'metadata.error.string': 'must be a string',
+  'metadata.error.tooLong': 'must be at most {max} characters',
+  'metadata.error.protocol': 'uses the unsupported protocol {protocol}',
+  'metadata.error.url': 'must be a valid URL',
+  'metadata.error.goal': 'must be a whole number of lamports',
+  'metadata.error.zero': 'must be greater than zero',
+  'metadata.error.tooLarge': 'is larger than the largest possible amount',
+  'metadata.error.deadline': 'must be a unix timestamp or ISO date',
+  'metadata.error.list': 'must be a list',
+  'metadata.error.tooManyLinks': 'must have at most {max} entries',
+  'metadata.error.link': 'link {index} {error}',
+  'metadata.error.linkLabel': 'link {index} label {error}',
+  'metadata.error.field': '"{field}" {error}',
+  'metadata.error.notObject': 'Metadata must be a JSON object',
+  'metadata.error.uri': 'Metadata URI {error}',
+  'metadata.error.tooBig': 'Campaign details take {size} bytes but only {max} fit on-chain. Shorten the description or move it into the metadata document.',
+  'metadata.error.http': 'Metadata request failed with HTTP {status}',
+  'metadata.error.invalid': 'Invalid metadata: {errors}',
+  'metadata.error.timeout': 'Metadata request timed out',
+  'metadata.error.load': 'Could not load metadata: {error}',
+
+  'campaign.back': '← All campaigns',
+  'campaign.invalidAddress': '"{address}" is not a valid campaign address.',
+  'campaign.loading': 'Loading campaign...',
+  'campaign.notFound': 'No campaign found at this address on {cluster}.',
+  'campaign.fetchFailed': 'Error fetching campaign: {error}',
+  'campaign.historyFailed': 'Error fetching donation history: {error}',
+  'campaign.copyLink': 'Copy share link',
+  'campaign.linkCopied': 'Link copied!',
+  'campaign.loadingDetails': 'Loading campaign details...',
+  'campaign.detailsUnavailable': 'Campaign details unavailable: {error}',
+  'campaign.ends': 'Ends {date}',
+  'campaign.history': 'History',
+  'campaign.noHistory': 'No donations or withdrawals yet.',
+  'campaign.type': 'Type',
+  'campaign.fromTo': 'From / To',
+  'campaign.failed': 'failed',
+  'campaign.type.create': 'create',
+  'campaign.type.donate': 'donate',
+  'campaign.type.withdraw': 'withdraw',
+
+  'analytics.title': 'Analytics',
+  'analytics.export': 'Export donations',
+  'analytics.exportFormat': 'Export {format}',
+  'analytics.truncated': 'Based on the most recent {count} transactions; older donations are not included.',
+  'analytics.loading': 'Loading donation history...',
+  'analytics.unavailable': 'Analytics unavailable: {error}',
+  'analytics.empty': 'No donations to chart yet.',
+  'analytics.cumulative': 'Cumulative donations',
+  'analytics.donors': 'Donors',
+  'analytics.chartSummary': '{title}: from {from} on {start} to {to} on {end}',
+  'analytics.topDonors': 'Top donors',
+  'analytics.donationCount': {
+    one: '{count} donation',
+    other: '{count} donations',
+  },
+} satisfies Record<string, Message>;
+
+export type MessageKey = keyof typeof en;
+export type Messages = Record<MessageKey, Message>;
@@ -0,0 +1,338 @@
+import { Messages } from './en';
+
+export const es: Messages = {
+  'app.title': 'Plataforma de Campañas en Solana',
+  'app.tagline': 'Crea y apoya proyectos increíbles en la blockchain de Solana',
+  'app.description': 'Crea, explora y financia campañas en Solana',
+  'app.footer': 'Consulta la consola del navegador para ver los registros de depuración. Hecho con Next.js, Solana y Anchor.',
+  'app.programCheckFailed': 'La autocomprobación del programa encontró problemas en {cluster}:',
+  'app.language': 'Idioma',
+  'app.dataSource': 'Mostrando datos de {cluster} ({endpoint}).',
+
+  'common.loading': 'Cargando...',
+  'common.loadingIndicator': 'Cargando',
+  'common.refresh': 'Actualizar',
+  'common.dismiss': 'Descartar',
+  'common.remove': 'Quitar',
+  'common.cancel': 'Cancelar',
+  'common.error': 'Error',
+  'common.unknownTime': 'Hora desconocida',
+  'common.loadOlder': 'Cargar transacciones anteriores',
+  'common.amount': 'Importe',
+  'common.time': 'Hora',
+  'common.transaction': 'Transacción',
+  'common.campaign': 'Campaña',
+  'common.amountDonated': 'Importe donado',
+  'common.admin': 'Administrador',
+  'common.showDenomination': 'Mostrar en {denomination}',
+
+  'wallet.connected': 'Conectada',
+  'wallet.connectedVia': 'Conectada con {wallet}',
+  'wallet.publicKey': 'Clave pública conectada:',
+  'wallet.signedInUntil': 'Sesión iniciada hasta {time}',
+  'wallet.signOut': 'Sesión iniciada · Cerrar sesión',
+  'wallet.signIn': 'Iniciar sesión',
+  'wallet.signingIn': 'Iniciando sesión...',
+  'wallet.disconnect': 'Desconectar',
+  'wallet.pickerTitle': 'Conecta tu billetera para empezar',
+  'wallet.pickerSubtitle': 'Elige una billetera de Solana para crear campañas y apoyar a creadores en Solana',
+  'wallet.connect': 'Conectar {wallet}',
+  'wallet.install': 'Instalar {wallet}',
+
+  'status.walletsFound': 'Se encontró {wallets}, pero no está conectada.',
+  'status.noWallet': 'No se encontró ninguna billetera de Solana. Instala Phantom, Solflare o Backpack.',
+  'status.walletNotFound': 'No se encontró la billetera {wallet}. Instala {wallet}.',
+  'status.walletRestored': '¡Billetera {wallet} encontrada y conectada!',
+  'status.walletConnected': '¡Billetera {wallet} conectada correctamente!',
+  'status.walletDisconnected': 'Billetera desconectada.',
+  'status.namedWalletDisconnected': 'Billetera {wallet} desconectada.',
+  'status.accountSwitched': 'Cambiado a la cuenta {account}',
+  'status.signedIn': 'Sesión iniciada como {account}.',
+  'status.notConnected': 'La billetera no está conectada',
+  'status.fetchCampaignsFailed': 'Error al obtener las campañas: {error}',
+  'status.undecodable': {
+    one: 'No se pudo decodificar {count} cuenta de campaña.',
+    other: 'No se pudieron decodificar {count} cuentas de campaña.',
+  },
+  'status.clusterSwitched': 'Cambiado a {cluster}',
+  'status.clusterSwitchFailed': 'Error al cambiar de clúster: {error}',
+  'status.customRpcHint': 'Introduce una URL de RPC personalizada y pulsa "Usar RPC personalizado".',
+  'status.airdropped': 'Se enviaron {amount} a tu billetera.',
+  'status.enterCampaignName': 'Introduce un nombre para la campaña',
+  'status.campaignExists': 'Ya tienes una campaña ("{name}"). Cada billetera solo puede crear una.',
+  'status.createCancelled': 'Creación de la campaña cancelada.',
+  'status.campaignCreated': '¡Campaña creada correctamente!',
+  'status.seedsHint': 'El cliente deriva la dirección de la campaña a partir de {seeds}.',
+  'status.donationCancelled': 'Donación cancelada.',
+  'status.donated': '¡Has donado {amount} SOL a la campaña!',
+  'status.donationsCancelled': 'Donaciones canceladas.',
+  'status.donatedToAll': {
+    one: '¡Has donado a {count} campaña!',
+    other: '¡Has donado a {count} campañas!',
+  },
+  'status.donatedToSome': 'Has donado a {succeeded} de {count} campañas; consulta el carrito para ver cuáles fallaron.',
+  'status.adminOnly': 'Solo el administrador de la campaña puede retirar fondos',
+  'status.adminOnlyError': 'Error: solo el administrador de la campaña puede retirar fondos.',
+  'status.invalidWithdrawal': 'Introduce un importe de retiro válido',
+  'status.withdrawExceedsDonated': 'No se pueden retirar {amount} SOL, solo se han donado {donated}',
+  'status.amountTooLarge': '{amount} supera lo que se puede previsualizar con exactitud; envía como máximo {max} por transacción',
+  'status.campaignNotFound': 'No se encontró la cuenta de la campaña',
+  'status.withdrawExceedsRent': 'No se pueden retirar {amount} SOL; como máximo se pueden retirar {available} para que la cuenta siga exenta de renta',
+  'status.withdrawCancelled': 'Retiro cancelado.',
+  'status.withdrew': '¡Has retirado {amount} SOL de la campaña!',
+  'status.noWalletSelected': 'No hay ninguna billetera seleccionada. Conecta una billetera primero.',
+
+  'action.connectWallet': 'Conectar la billetera',
+  'action.signIn': 'Iniciar sesión',
+  'action.createCampaign': 'Crear la campaña',
+  'action.donate': 'Donar a la campaña',
+  'action.donateMany': 'Donar a las campañas',
+  'action.withdraw': 'Retirar de la campaña',
+
+  'error.cancelled': '{action}: cancelado en la billetera.',
+  'error.failed': 'Error al {action}: {message}',
+  'error.program': 'Error al {action}: {message} ({name}, código {code})',
+  'error.anchor': 'Error al {action}: {message} ({name})',
+  'error.anchorAccount': 'Error al {action}: {message} en la cuenta "{account}" ({name})',
+  'error.rejected': 'Solicitud rechazada en la billetera',
+  'error.expired': 'La transacción caducó antes de confirmarse. Inténtalo de nuevo.',
+  'error.customProgram': 'Error personalizado del programa {code}',
+  'error.system.AccountAlreadyInUse': 'La cuenta ya existe',
+  'error.system.InsufficientFunds': 'Fondos insuficientes para esta transacción',
+  'error.system.InsufficientFundsForFee': 'Fondos insuficientes para pagar la comisión de red',
+  'error.system.InsufficientFundsForRent': 'Fondos insuficientes para mantener la cuenta exenta de renta',
+  'error.system.AccountNotFound': 'La cuenta que paga la comisión aún no tiene SOL',
+  'error.insufficientBalance': 'Fondos insuficientes para cubrir el importe, la comisión de red y la renta',
+
+  'transaction.createCampaign': 'Crear la campaña "{name}"',
+  'transaction.donate': 'Donar {amount} SOL',
+  'transaction.donateTo': 'Donar {amount} SOL a {campaign}',
+  'transaction.donateMany': 'Donar {amount} a {count} campañas',
+  'transaction.donateBatch': {
+    one: 'Donar a {count} campaña',
+    other: 'Donar a {count} campañas',
+  },
+  'transaction.batchPart': '{label} ({part} de {parts})',
+  'transaction.withdraw': 'Retirar {amount} SOL',
+  'transaction.withdrawFrom': 'Retirar {amount} SOL de "{name}"',
+
+  'cluster.label': 'Clúster:',
+  'cluster.customRpc': 'URL de RPC personalizada',
+  'cluster.useCustomRpc': 'Usar RPC personalizado',
+  'cluster.priorityFee': 'Comisión de prioridad:',
+  'cluster.priorityFeeHint': 'Puja por una inclusión más rápida en momentos de congestión, según las comisiones recientes de las mismas cuentas',
+  'cluster.priorityFee.none': 'Ninguna',
+  'cluster.priorityFee.low': 'Baja',
+  'cluster.priorityFee.medium': 'Media',
+  'cluster.priorityFee.high': 'Alta',
+  'cluster.invalidRpc': 'Introduce una URL de RPC http(s) válida',
+
+  'faucet.balance': 'Saldo:',
+  'faucet.label': 'Faucet de {cluster}:',
+  'faucet.requesting': 'Solicitando...',
+  'faucet.airdrop': 'Solicitar {amount} SOL',
+  'faucet.rateLimited': 'Límite de solicitudes alcanzado; reintenta en {seconds} s',
+  'faucet.rateLimitedError': 'El faucet ha alcanzado su límite de solicitudes. Espera un poco o usa https://faucet.solana.com',
+  'faucet.failed': 'Error en la solicitud al faucet: {error}',
+
+  'form.title': 'Crear nueva campaña',
+  'form.existing': 'Ya tienes una campaña: {name}. Cada billetera solo puede crear una.',
+  'form.name': 'Nombre de la campaña',
+  'form.namePlaceholder': 'Introduce un nombre único para la campaña',
+  'form.description': 'Descripción',
+  'form.descriptionPlaceholder': 'Introduce la descripción de la campaña',
+  'form.details': 'Objetivo, fecha límite, imagen y enlaces',
+  'form.displayTitle': 'Título visible',
+  'form.displayTitlePlaceholder': 'Por defecto, el nombre de la campaña',
+  'form.goal': 'Objetivo de financiación (SOL)',
+  'form.goalPlaceholder': 'p. ej. 25',
+  'form.deadline': 'Fecha límite',
+  'form.image': 'URL de la imagen',
+  'form.links': 'Enlaces',
+  'form.linksPlaceholder': 'Uno por línea, p. ej.\nSitio web https://example.org',
+  'form.uri': 'URI del documento de metadatos',
+  'form.uriPlaceholder': 'JSON opcional con título, descripción, imagen, objetivo, fecha límite y enlaces',
+  'form.invalidGoal': 'Introduce el objetivo como un importe positivo en SOL',
+  'form.pastDeadline': 'La fecha límite debe estar en el futuro',
+  'form.bytesUsed': '{used} de {max} bytes de espacio en cadena usados.',
+  'form.create': 'Crear campaña',
+  'form.creating': 'Creando campaña...',
+  'form.defaultDescription': 'Sin descripción',
+
+  'campaigns.refresh': 'Actualizar campañas',
+  'campaigns.heading': 'Campañas ({count})',
+  'campaigns.headingFiltered': 'Campañas ({visible} de {count})',
+  'campaigns.live': 'En vivo',
+  'campaigns.polling': 'Consultando cada {seconds} s',
+  'campaigns.search': 'Buscar campañas',
+  'campaigns.searchPlaceholder': 'Buscar por nombre, descripción o administrador',
+  'campaigns.sortLabel': 'Ordenar campañas',
+  'campaigns.filterLabel': 'Filtrar campañas',
+  'campaigns.sort.amount-desc': 'Más donadas',
+  'campaigns.sort.amount-asc': 'Menos donadas',
+  'campaigns.sort.name-asc': 'Nombre A-Z',
+  'campaigns.sort.name-desc': 'Nombre Z-A',
+  'campaigns.filter.all': 'Todas las campañas',
+  'campaigns.filter.mine': 'Mis campañas',
+  'campaigns.filter.donated': 'Campañas a las que doné',
+  'campaigns.export': 'Exportar campañas',
+  'campaigns.loading': 'Cargando campañas...',
+  'campaigns.empty': 'No se encontraron campañas. ¡Crea la primera!',
+  'campaigns.lookingUpDonations': 'Buscando tus donaciones...',
+  'campaigns.noMatches': 'Ninguna campaña coincide con la búsqueda y el filtro actuales.',
+  'campaigns.pages': 'Páginas de campañas',
+  'campaigns.previous': 'Anterior',
+  'campaigns.next': 'Siguiente',
+  'campaigns.page': 'Página {page} de {pages}',
+  'campaigns.undecodable': {
+    one: 'No se pudo decodificar {count} cuenta con el discriminador de Campaign',
+    other: 'No se pudieron decodificar {count} cuentas con el discriminador de Campaign',
+  },
+
+  'card.deadline': 'Fecha límite',
+  'card.addToCart': 'Añadir al carrito de donaciones',
+  'card.inCart': 'En el carrito de donaciones (quitar)',
+  'card.connectToDonate': 'Conecta una billetera para donar.',
+  'card.withdrawTitle': 'Retirar fondos (administrador)',
+  'card.withdrawAmount': 'Importe a retirar',
+  'card.withdraw': 'Retirar',
+  'card.withdrawing': 'Retirando...',
+
+  'donation.preset': '{amount} SOL',
+  'donation.amount': 'Importe de la donación',
+  'donation.donate': 'Donar {amount} SOL',
+  'donation.donating': 'Donando...',
+  'donation.enterAmount': 'Introduce un importe',
+  'donation.invalid': 'Introduce un importe válido, p. ej. 0.5',
+  'donation.tooManyDecimals': 'Introduce un número con {decimals} decimales como máximo',
+  'donation.tooLarge': 'El importe es demasiado grande',
+  'donation.belowMinimum': 'La donación mínima es de {amount} SOL',
+  'donation.aboveMaximum': 'La donación máxima es de {amount} SOL',
+  'donation.exceedsBalance': 'El importe más la comisión de red supera tu saldo',
+  'donation.airdrop': 'Solicitar {amount} al faucet para cubrirlo',
+  'donation.airdropping': 'Solicitando al faucet...',
+
+  'cart.title': 'Carrito de donaciones',
+  'cart.empty': 'Vaciar carrito',
+  'cart.amountFor': 'Importe para {name}',
+  'cart.removeItem': 'Quitar {name} del carrito',
+  'cart.lastAttemptFailed': 'El último intento falló: {error}',
+  'cart.total': {
+    one: 'Total para {count} campaña',
+    other: 'Total para {count} campañas',
+  },
+  'cart.overBalance': 'El total más las comisiones de red supera tu saldo.',
+  'cart.donate': {
+    one: 'Donar a {count} campaña',
+    other: 'Donar a {count} campañas',
+  },
+  'cart.donated': 'Donado',
+
+  'preview.currentBalance': 'Saldo actual',
+  'preview.amount': 'Importe',
+  'preview.amountReceived': 'Importe recibido',
+  'preview.networkFee': 'Comisión de red',
+  'preview.networkFees': 'Comisiones de red ({count} transacciones)',
+  'preview.rent': 'Depósito de renta para la nueva cuenta',
+  'preview.balanceAfter': 'Saldo después',
+  'preview.computeUnits': 'Unidades de cómputo (simuladas)',
+  'preview.simulationFailed': 'La simulación falló: {error}',
+  'preview.requestingAirdrop': 'Solicitando airdrop...',
+  'preview.airdrop': 'Solicitar {amount} y volver a simular',
+  'preview.logs': 'Registros de la simulación ({count})',
+  'preview.confirm': 'Confirmar en la billetera',
+  'preview.blocked': 'Bloqueada',
+
+  'activity.title': 'Actividad reciente',
+  'activity.clear': 'Borrar finalizadas',
+  'activity.dismiss': 'Descartar {label}',
+  'activity.attempt': 'intento {attempt}',
+  'activity.toggle': 'Actividad ({count})',
+  'activity.announcement': '{label}: {status}',
+  'activity.status.signing': 'firmando',
+  'activity.status.sent': 'enviada',
+  'activity.status.processed': 'procesada',
+  'activity.status.confirmed': 'confirmada',
+  'activity.status.finalized': 'finalizada',
+  'activity.status.failed': 'fallida',
+  'activity.interrupted': 'Interrumpida antes de enviarse',
+
+  'dashboard.title': 'Mi panel',
+  'dashboard.balance': 'Saldo de la billetera',
+  'dashboard.donated': 'Donado',
+  'dashboard.donatedLoaded': 'Donado (historial cargado)',
+  'dashboard.campaignsSupported': 'Campañas apoyadas',
+  'dashboard.withdrawn': 'Retirado',
+  'dashboard.myCampaign': 'Mi campaña',
+  'dashboard.raised': 'Recaudado',
+  'dashboard.withdrawable': 'Disponible para retirar',
+  'dashboard.noCampaign': 'Todavía no has creado una campaña en este clúster.',
+  'dashboard.myDonations': 'Mis donaciones',
+  'dashboard.noDonations': 'No se encontraron donaciones en tus transacciones recientes.',
+  'dashboard.fetchFailed': 'Error al obtener tu actividad: {error}',
+
+  'metadata.goalReached': 'Objetivo alcanzado',
+  'metadata.funded': '{percent} % financiado',
+  'metadata.goal': 'Objetivo',
+  'metadata.progress': 'Progreso de la financiación',
+  'metadata.ended': 'Finalizada',
+  'metadata.daysLeft': 'Quedan {days} d {hours} h',
+  'metadata.hoursLeft': 'Quedan {hours} h {minutes} min',
+  'metadata.minutesLeft': 'Quedan {minutes} min {seconds} s',
+  'metadata.error.string': 'debe ser un texto',
+  'metadata.error.tooLong': 'debe tener como máximo {max} caracteres',
+  'metadata.error.protocol': 'usa el protocolo no admitido {protocol}',
+  'metadata.error.url': 'debe ser una URL válida',
+  'metadata.error.goal': 'debe ser un número entero de lamports',
+  'metadata.error.zero': 'debe ser mayor que cero',
+  'metadata.error.tooLarge': 'supera el mayor importe posible',
+  'metadata.error.deadline': 'debe ser una marca de tiempo unix o una fecha ISO',
+  'metadata.error.list': 'debe ser una lista',
+  'metadata.error.tooManyLinks': 'debe tener como máximo {max} entradas',
+  'metadata.error.link': 'el enlace {index} {error}',
+  'metadata.error.linkLabel': 'la etiqueta del enlace {index} {error}',
+  'metadata.error.field': '"{field}" {error}',
+  'metadata.error.notObject': 'Los metadatos deben ser un objeto JSON',
+  'metadata.error.uri': 'La URI de metadatos {error}',
+  'metadata.error.tooBig': 'Los detalles de la campaña ocupan {size} bytes, pero solo caben {max} en la cadena. Acorta la descripción o muévela al documento de metadatos.',
+  'metadata.error.http': 'La solicitud de metadatos falló con HTTP {status}',
+  'metadata.error.invalid': 'Metadatos no válidos: {errors}',
+  'metadata.error.timeout': 'La solicitud de metadatos agotó el tiempo de espera',
+  'metadata.error.load': 'No se pudieron cargar los metadatos: {error}',
+
+  'campaign.back': '← Todas las campañas',
+  'campaign.invalidAddress': '"{address}" no es una dirección de campaña válida.',
+  'campaign.loading': 'Cargando campaña...',
+  'campaign.notFound': 'No hay ninguna campaña en esta dirección en {cluster}.',
+  'campaign.fetchFailed': 'Error al obtener la campaña: {error}',
+  'campaign.historyFailed': 'Error al obtener el historial de donaciones: {error}',
+  'campaign.copyLink': 'Copiar enlace para compartir',
+  'campaign.linkCopied': '¡Enlace copiado!',
+  'campaign.loadingDetails': 'Cargando detalles de la campaña...',
+  'campaign.detailsUnavailable': 'Detalles de la campaña no disponibles: {error}',
+  'campaign.ends': 'Termina el {date}',
+  'campaign.history': 'Historial',
+  'campaign.noHistory': 'Todavía no hay donaciones ni retiros.',
+  'campaign.type': 'Tipo',
+  'campaign.fromTo': 'De / Para',
+  'campaign.failed': 'fallida',
+  'campaign.type.create': 'creación',
+  'campaign.type.donate': 'donación',
+  'campaign.type.withdraw': 'retiro',
+
+  'analytics.title': 'Estadísticas',
+  'analytics.export': 'Exportar donaciones',
+  'analytics.exportFormat': 'Exportar {format}',
+  'analytics.truncated': 'Basado en las {count} transacciones más recientes; no incluye donaciones anteriores.',
+  'analytics.loading': 'Cargando historial de donaciones...',
+  'analytics.unavailable': 'Estadísticas no disponibles: {error}',
+  'analytics.empty': 'Todavía no hay donaciones que mostrar.',
+  'analytics.cumulative': 'Donaciones acumuladas',
+  'analytics.donors': 'Donantes',
+  'analytics.chartSummary': '{title}: de {from} el {start} a {to} el {end}',
+  'analytics.topDonors': 'Principales donantes',
+  'analytics.donationCount': {
+    one: '{count} donación',
+    other: '{count} donaciones',
+  },
+};
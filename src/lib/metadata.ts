@@ -0,0 +1,291 @@
+import { BN } from '@project-serum/anchor';
+import { U64_MAX } from './amounts';
+import { translate, Translate } from './i18n';
+
+/**
+ * Campaign metadata beyond the on-chain name. The description field holds one of:
+ * - plain text, for campaigns created before metadata existed
+ * - a bare URI to an off-chain metadata document, e.g. "ipfs://bafy.../campaign.json"
+ * - a compact JSON envelope, e.g. {"v":1,"u":"https://...","t":"Summary","g":"5000000000","d":1767225600}
+ */
+export const METADATA_VERSION = 1;
+export const METADATA_FETCH_TIMEOUT_MS = 8_000;
+export const MAX_METADATA_LINKS = 5;
+export const MAX_TITLE_LENGTH = 80;
+export const MAX_SUMMARY_LENGTH = 1_000;
+// The description travels in the create instruction, which has to fit a 1232-byte transaction
+export const MAX_DESCRIPTION_BYTES = 600;
+
+const URI_PROTOCOLS = ['https:', 'http:', 'ipfs:', 'ar:'];
+const BARE_URI_RE = /^(?:https?|ipfs|ar):\/\/\S+$/;
+const IPFS_GATEWAY = process.env.NEXT_PUBLIC_IPFS_GATEWAY || 'https://ipfs.io/ipfs/';
+const ARWEAVE_GATEWAY = 'https://arweave.net/';
+
+export interface CampaignLink {
+  label: string;
+  url: string;
+}
+
+export interface CampaignMetadata {
+  title?: string;
+  summary?: string;
+  image?: string;
+  // Funding goal in lamports
+  goal?: BN;
+  // Unix timestamp in seconds
+  deadline?: number;
+  links?: CampaignLink[];
+}
+
+export type CampaignDescription =
+  | { kind: 'text'; text: string }
+  | { kind: 'metadata'; uri: string | null; metadata: CampaignMetadata };
+
+export type MetadataValidation =
+  | { ok: true; metadata: CampaignMetadata }
+  | { ok: false; errors: string[] };
+
+export class MetadataError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'MetadataError';
+  }
+}
+
+// Field names in the off-chain document and in the compact on-chain envelope
+type MetadataKeys = Record<keyof CampaignMetadata, string>;
+
+const DOCUMENT_KEYS: MetadataKeys = {
+  title: 'title',
+  summary: 'description',
+  image: 'image',
+  goal: 'goal',
+  deadline: 'deadline',
+  links: 'links',
+};
+
+const ENVELOPE_KEYS: MetadataKeys = {
+  title: 'n',
+  summary: 't',
+  image: 'i',
+  goal: 'g',
+  deadline: 'd',
+  links: 'l',
+};
+
+// Each field validator returns the parsed value or an error message in the language of `t`
+type FieldResult<T> = { value: T } | { error: string };
+
+const readText = (maxLength: number) => (value: unknown, t: Translate): FieldResult<string> => {
+  if (typeof value !== 'string') return { error: t('metadata.error.string') };
+  const text = value.trim();
+  if (text.length > maxLength) return { error: t('metadata.error.tooLong', { max: maxLength }) };
+  return { value: text };
+};
+
+const readUri = (value: unknown, t: Translate): FieldResult<string> => {
+  if (typeof value !== 'string') return { error: t('metadata.error.string') };
+  try {
+    const url = new URL(value.trim());
+    if (!URI_PROTOCOLS.includes(url.protocol)) return { error: t('metadata.error.protocol', { protocol: url.protocol }) };
+    return { value: url.toString() };
+  } catch {
+    return { error: t('metadata.error.url') };
+  }
+};
+
+// Lamports as a decimal string, or a number when it is a safe integer
+const readGoal = (value: unknown, t: Translate): FieldResult<BN> => {
+  const digits = typeof value === 'number' && Number.isSafeInteger(value) ? String(value) : value;
+  if (typeof digits !== 'string' || !/^\d+$/.test(digits)) return { error: t('metadata.error.goal') };
+  const goal = new BN(digits);
+  if (goal.isZero()) return { error: t('metadata.error.zero') };
+  if (goal.gt(U64_MAX)) return { error: t('metadata.error.tooLarge') };
+  return { value: goal };
+};
+
+// Unix seconds, or an ISO 8601 date in the off-chain document
+const readDeadline = (value: unknown, t: Translate): FieldResult<number> => {
+  const seconds = typeof value === 'string' ? Math.floor(Date.parse(value) / 1000) : value;
+  if (typeof seconds !== 'number' || !Number.isSafeInteger(seconds) || seconds <= 0) {
+    return { error: t('metadata.error.deadline') };
+  }
+  return { value: seconds };
+};
+
+// Accepts {label, url} objects and the envelope's [label, url] pairs or bare [url] entries
+const readLinks = (value: unknown, t: Translate): FieldResult<CampaignLink[]> => {
+  if (!Array.isArray(value)) return { error: t('metadata.error.list') };
+  if (value.length > MAX_METADATA_LINKS) return { error: t('metadata.error.tooManyLinks', { max: MAX_METADATA_LINKS }) };
+  const links: CampaignLink[] = [];
+  for (const entry of value) {
+    const [label, url] = !Array.isArray(entry) ? [entry?.label, entry?.url] : entry.length === 1 ? [undefined, entry[0]] : entry;
+    const parsedUrl = readUri(url, t);
+    if ('error' in parsedUrl) return { error: t('metadata.error.link', { index: links.length + 1, error: parsedUrl.error }) };
+    const parsedLabel = label === undefined ? { value: '' } : readText(MAX_TITLE_LENGTH)(label, t);
+    if ('error' in parsedLabel) return { error: t('metadata.error.linkLabel', { index: links.length + 1, error: parsedLabel.error }) };
+    links.push({ label: parsedLabel.value || parsedUrl.value, url: parsedUrl.value });
+  }
+  return { value: links };
+};
+
+const METADATA_SCHEMA: { [K in keyof CampaignMetadata]-?: (value: unknown, t: Translate) => FieldResult<NonNullable<CampaignMetadata[K]>> } = {
+  title: readText(MAX_TITLE_LENGTH),
+  summary: readText(MAX_SUMMARY_LENGTH),
+  image: readUri,
+  goal: readGoal,
+  deadline: readDeadline,
+  links: readLinks,
+};
+
+const validateWith = (value: unknown, keys: MetadataKeys, t: Translate): MetadataValidation => {
+  if (!value || typeof value !== 'object' || Array.isArray(value)) {
+    return { ok: false, errors: [t('metadata.error.notObject')] };
+  }
+  const source = value as Record<string, unknown>;
+  const metadata: Record<string, unknown> = {};
+  const errors: string[] = [];
+  for (const field of Object.keys(METADATA_SCHEMA) as (keyof CampaignMetadata)[]) {
+    const raw = source[keys[field]];
+    if (raw === undefined || raw === null || raw === '') continue;
+    const result = METADATA_SCHEMA[field](raw, t);
+    if ('error' in result) {
+      errors.push(t('metadata.error.field', { field: keys[field], error: result.error }));
+    } else {
+      metadata[field] = result.value;
+    }
+  }
+  return errors.length > 0 ? { ok: false, errors } : { ok: true, metadata: metadata as CampaignMetadata };
+};
+
+// Validates an off-chain metadata document
+export const validateMetadataDocument = (value: unknown, t: Translate = translate): MetadataValidation => (
+  validateWith(value, DOCUMENT_KEYS, t)
+);
+
+// Anything that is not a valid envelope or bare URI is shown as plain text, so legacy campaigns keep working
+export const parseCampaignDescription = (description: string): CampaignDescription => {
+  const trimmed = description.trim();
+  if (BARE_URI_RE.test(trimmed)) {
+    const uri = readUri(trimmed, translate);
+    if ('value' in uri) return { kind: 'metadata', uri: uri.value, metadata: {} };
+  }
+  if (trimmed.startsWith('{')) {
+    try {
+      const envelope = JSON.parse(trimmed) as Record<string, unknown>;
+      if (envelope?.v === METADATA_VERSION) {
+        const uri = envelope.u === undefined ? null : readUri(envelope.u, translate);
+        const validation = validateWith(envelope, ENVELOPE_KEYS, translate);
+        if (validation.ok && !(uri && 'error' in uri)) {
+          return { kind: 'metadata', uri: uri ? uri.value : null, metadata: validation.metadata };
+        }
+      }
+    } catch {
+      // Not JSON after all
+    }
+  }
+  return { kind: 'text', text: description };
+};
+
+// Text to show and search for a campaign's description, without any envelope syntax
+export const describeCampaign = (description: string): string => {
+  const parsed = parseCampaignDescription(description);
+  if (parsed.kind === 'text') return parsed.text;
+  return [parsed.metadata.title, parsed.metadata.summary].filter(Boolean).join(' ');
+};
+
+// The description as stored, or a `MetadataError` when it does not fit the account
+const checkDescriptionSize = (description: string, t: Translate): string => {
+  const size = new TextEncoder().encode(description).length;
+  if (size > MAX_DESCRIPTION_BYTES) {
+    throw new MetadataError(t('metadata.error.tooBig', { size, max: MAX_DESCRIPTION_BYTES }));
+  }
+  return description;
+};
+
+export interface MetadataFields extends CampaignMetadata {
+  uri?: string;
+}
+
+/**
+ * Builds the on-chain description for the create form: plain text when there is no metadata,
+ * otherwise the compact envelope. Throws a `MetadataError` when a field is invalid or the result is too large.
+ */
+export const encodeCampaignDescription = ({ uri, ...fields }: MetadataFields, t: Translate = translate): string => {
+  const hasMetadata = Boolean(uri || fields.title || fields.image || fields.goal || fields.deadline || fields.links?.length);
+  if (!hasMetadata) return checkDescriptionSize(fields.summary?.trim() ?? '', t);
+
+  const envelope: Record<string, unknown> = { v: METADATA_VERSION };
+  if (uri) envelope.u = uri;
+  if (fields.title) envelope[ENVELOPE_KEYS.title] = fields.title;
+  if (fields.summary) envelope[ENVELOPE_KEYS.summary] = fields.summary;
+  if (fields.image) envelope[ENVELOPE_KEYS.image] = fields.image;
+  if (fields.goal) envelope[ENVELOPE_KEYS.goal] = fields.goal.toString();
+  if (fields.deadline) envelope[ENVELOPE_KEYS.deadline] = fields.deadline;
+  if (fields.links?.length) {
+    envelope[ENVELOPE_KEYS.links] = fields.links.map(({ label, url }) => (label && label !== url ? [label, url] : [url]));
+  }
+
+  // Round-trip through the same schema the cards use, so nothing is stored that would render as plain text
+  const uriCheck = uri ? readUri(uri, t) : null;
+  if (uriCheck && 'error' in uriCheck) throw new MetadataError(t('metadata.error.uri', { error: uriCheck.error }));
+  const validation = validateWith(envelope, ENVELOPE_KEYS, t);
+  if (!validation.ok) throw new MetadataError(validation.errors.join('; '));
+
+  return checkDescriptionSize(JSON.stringify(envelope), t);
+};
+
+// Rewrites ipfs:// and ar:// URIs to HTTP gateways so they can be fetched and used as image sources
+export const resolveMetadataUri = (uri: string): string => {
+  if (uri.startsWith('ipfs://')) return IPFS_GATEWAY + uri.slice('ipfs://'.length).replace(/^ipfs\//, '');
+  if (uri.startsWith('ar://')) return ARWEAVE_GATEWAY + uri.slice('ar://'.length);
+  return uri;
+};
+
+const metadataCache = new Map<string, Promise<CampaignMetadata>>();
+
+/**
+ * Fetches and validates an off-chain metadata document. Results are cached per URI for the session;
+ * failures are not, so a later render can retry. Throws a `MetadataError` on timeouts and invalid documents.
+ */
+export const fetchCampaignMetadata = (uri: string, t: Translate = translate): Promise<CampaignMetadata> => {
+  const cached = metadataCache.get(uri);
+  if (cached) return cached;
+
+  const request = (async () => {
+    const controller = new AbortController();
+    const timeout = setTimeout(() => controller.abort(), METADATA_FETCH_TIMEOUT_MS);
+    try {
+      const response = await fetch(resolveMetadataUri(uri), { signal: controller.signal, headers: { Accept: 'application/json' } });
+      if (!response.ok) throw new MetadataError(t('metadata.error.http', { status: String(response.status) }));
+      const validation = validateMetadataDocument(await response.json(), t);
+      if (!validation.ok) throw new MetadataError(t('metadata.error.invalid', { errors: validation.errors.join('; ') }));
+      return validation.metadata;
+    } catch (error) {
+      if (error instanceof MetadataError) throw error;
+      if ((error as Error).name === 'AbortError') throw new MetadataError(t('metadata.error.timeout'));
+      throw new MetadataError(t('metadata.error.load', { error: (error as Error).message }));
+    } finally {
+      clearTimeout(timeout);
+    }
+  })();
+
+  metadataCache.set(uri, request);
+  request.catch(() => metadataCache.delete(uri));
+  return request;
+};
+
+// Fields stored on-chain take precedence over the off-chain document
+export const mergeMetadata = (onChain: CampaignMetadata, offChain: CampaignMetadata | null): CampaignMetadata => {
+  const merged: CampaignMetadata = { ...offChain };
+  for (const [field, value] of Object.entries(onChain) as [keyof CampaignMetadata, unknown][]) {
+    if (value !== undefined) (merged as Record<string, unknown>)[field] = value;
+  }
+  return merged;
+};
+
+// Progress towards the goal in basis points, capped at 100x the goal
+export const goalProgress = (raised: BN, goal: BN): number => {
+  if (goal.isZero()) return 0;
+  return BN.min(raised.muln(10_000).div(goal), new BN(1_000_000)).toNumber();
+};
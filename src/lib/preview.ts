@@ -0,0 +1,92 @@
+import { Connection, PublicKey, TransactionInstruction, TransactionMessage, VersionedTransaction } from '@solana/web3.js';
+import { AppError, decodeError } from './errors';
+import { translate, Translate } from './i18n';
+import { TransactionFailedError } from './transactions';
+
+// What a transaction will cost and do, worked out before the wallet is asked to sign
+export interface TransactionPreview {
+  fee: number;
+  rent: number;
+  // Lamports leaving (positive) or reaching (negative) the payer besides fee and rent
+  transfer: number;
+  balance: number;
+  balanceAfter: number;
+  // How many transactions the fee covers; batched donations may need several
+  transactionCount: number;
+  logs: string[];
+  unitsConsumed?: number;
+  error: AppError | null;
+}
+
+export interface PreviewOptions {
+  rent?: number;
+  transfer?: number;
+}
+
+const simulate = async (connection: Connection, payer: PublicKey, recentBlockhash: string, instructions: TransactionInstruction[]) => {
+  const message = new TransactionMessage({
+    payerKey: payer,
+    recentBlockhash,
+    instructions,
+  }).compileToV0Message();
+
+  const [feeResponse, simulation] = await Promise.all([
+    connection.getFeeForMessage(message, 'confirmed'),
+    connection.simulateTransaction(new VersionedTransaction(message), {
+      sigVerify: false,
+      replaceRecentBlockhash: true,
+      commitment: 'confirmed',
+    }),
+  ]);
+  return { fee: feeResponse.value ?? 5000, simulation: simulation.value };
+};
+
+// Previews several transactions as one: fees and compute units add up, the first failure is reported
+export const previewTransactions = async (
+  connection: Connection,
+  payer: PublicKey,
+  transactions: TransactionInstruction[][],
+  { rent = 0, transfer = 0 }: PreviewOptions = {},
+  t: Translate = translate,
+): Promise<TransactionPreview> => {
+  const { blockhash } = await connection.getLatestBlockhash('confirmed');
+  const [balance, ...results] = await Promise.all([
+    connection.getBalance(payer, 'confirmed'),
+    ...transactions.map((instructions) => simulate(connection, payer, blockhash, instructions)),
+  ]);
+
+  const fee = results.reduce((sum, result) => sum + result.fee, 0);
+  const logs = results.flatMap((result) => result.simulation.logs ?? []);
+  const balanceAfter = balance - fee - rent - transfer;
+  const failed = results.find((result) => result.simulation.err);
+  const unitsConsumed = results.every((result) => result.simulation.unitsConsumed !== undefined)
+    ? results.reduce((sum, result) => sum + (result.simulation.unitsConsumed ?? 0), 0)
+    : undefined;
+
+  let error: AppError | null = null;
+  if (failed) {
+    error = decodeError(new TransactionFailedError('Simulation failed', undefined, failed.simulation.logs ?? [], failed.simulation.err), t);
+  } else if (balanceAfter < 0) {
+    error = { kind: 'system', name: 'InsufficientFunds', message: t('error.insufficientBalance') };
+  }
+
+  return {
+    fee,
+    rent,
+    transfer,
+    balance,
+    balanceAfter,
+    transactionCount: transactions.length,
+    logs,
+    unitsConsumed,
+    error,
+  };
+};
+
+export const previewTransaction = (
+  connection: Connection,
+  payer: PublicKey,
+  instructions: TransactionInstruction[],
+  options: PreviewOptions = {},
+  t: Translate = translate,
+): Promise<TransactionPreview> => previewTransactions(connection, payer, [instructions], options, t);
@@ -0,0 +1,40 @@
+// Where the fiat estimate next to SOL amounts comes from. Swap the source to mock prices in development.
+export interface PriceSource {
+  currency: string;
+  // Price of one SOL in `currency`, or null when unavailable
+  getSolPrice: () => Promise<number | null>;
+}
+
+export const PRICE_CACHE_MS = 60_000;
+
+export const createFixedPriceSource = (price: number, currency = 'USD'): PriceSource => ({
+  currency,
+  getSolPrice: async () => price,
+});
+
+export const createCoinGeckoPriceSource = (currency = 'USD'): PriceSource => ({
+  currency,
+  getSolPrice: async () => {
+    try {
+      const vs = currency.toLowerCase();
+      const response = await fetch(`https://api.coingecko.com/api/v3/simple/price?ids=solana&vs_currencies=${vs}`);
+      if (!response.ok) return null;
+      const body = await response.json() as { solana?: Record<string, number> };
+      return body.solana?.[vs] ?? null;
+    } catch (error) {
+      console.warn('Could not fetch SOL price:', error);
+      return null;
+    }
+  },
+});
+
+/**
+ * Fiat estimates are off unless NEXT_PUBLIC_FIAT_CURRENCY is set.
+ * NEXT_PUBLIC_SOL_PRICE pins a fixed price instead of querying CoinGecko, e.g. for local development.
+ */
+export const getDefaultPriceSource = (): PriceSource | null => {
+  const currency = process.env.NEXT_PUBLIC_FIAT_CURRENCY;
+  if (!currency) return null;
+  const fixed = Number(process.env.NEXT_PUBLIC_SOL_PRICE);
+  return fixed > 0 ? createFixedPriceSource(fixed, currency) : createCoinGeckoPriceSource(currency);
+};
@@ -0,0 +1,64 @@
+import { CampaignAccount, serializeCampaign } from './campaign-client';
+import { DonationRecord } from './analytics';
+
+export type ReportFormat = 'csv' | 'json';
+
+const MIME_TYPES: Record<ReportFormat, string> = {
+  csv: 'text/csv;charset=utf-8',
+  json: 'application/json',
+};
+
+// Spreadsheets run cells starting with these as formulas; campaign names and descriptions are anyone's input
+const FORMULA_PREFIX_RE = /^[=+\-@\t\r]/;
+
+// RFC 4180: quote fields holding a comma, quote or line break, doubling inner quotes.
+// Would-be formulas get a leading apostrophe so they open as text.
+const csvField = (value: string): string => {
+  if (FORMULA_PREFIX_RE.test(value)) return `"'${value.replace(/"/g, '""')}"`;
+  return /[",\r\n]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value;
+};
+
+export const toCsv = (header: string[], rows: string[][]): string => (
+  [header, ...rows].map((row) => row.map(csvField).join(',')).join('\r\n') + '\r\n'
+);
+
+const isoTime = (blockTime: number | null): string | null => (
+  blockTime === null ? null : new Date(blockTime * 1000).toISOString()
+);
+
+// Lamports stay decimal strings so u64 amounts survive spreadsheets and JSON.parse
+export const formatDonationReport = (donations: DonationRecord[], format: ReportFormat): string => {
+  const rows = donations.map((donation) => ({
+    signature: donation.signature,
+    donor: donation.donor.toBase58(),
+    lamports: donation.lamports.toString(),
+    blockTime: donation.blockTime,
+    time: isoTime(donation.blockTime),
+  }));
+  if (format === 'json') return JSON.stringify(rows, null, 2);
+  return toCsv(
+    ['signature', 'donor', 'lamports', 'block_time', 'time'],
+    rows.map((row) => [row.signature, row.donor, row.lamports, row.blockTime?.toString() ?? '', row.time ?? ''])
+  );
+};
+
+export const formatCampaignReport = (campaigns: CampaignAccount[], format: ReportFormat): string => {
+  const rows = campaigns.map(serializeCampaign);
+  if (format === 'json') return JSON.stringify(rows, null, 2);
+  return toCsv(
+    ['address', 'admin', 'name', 'description', 'amount_donated_lamports'],
+    rows.map((row) => [row.publicKey, row.admin, row.name, row.description, row.amountDonated])
+  );
+};
+
+// Hands the report to the browser as a file download
+export const downloadReport = (content: string, filename: string, format: ReportFormat) => {
+  const url = URL.createObjectURL(new Blob([content], { type: MIME_TYPES[format] }));
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = `${filename}.${format}`;
+  document.body.appendChild(link);
+  link.click();
+  link.remove();
+  URL.revokeObjectURL(url);
+};
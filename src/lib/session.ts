@@ -0,0 +1,154 @@
+import { createHmac, createPublicKey, randomBytes, timingSafeEqual, verify } from 'node:crypto';
+import { PublicKey } from '@solana/web3.js';
+import { utils } from '@project-serum/anchor';
+import { AuthSession, parseSignInMessage, SIGN_IN_MESSAGE_TTL_MS, SIGN_IN_STATEMENT, SIGN_IN_VERSION } from './siws';
+
+// Server-only: signs nonces and session cookies, and verifies wallet signatures
+
+export const NONCE_COOKIE = 'siws_nonce';
+export const SESSION_COOKIE = 'siws_session';
+export const SESSION_TTL_MS = 24 * 60 * 60_000;
+
+// Allowance for clocks that run slightly ahead of the server
+const CLOCK_SKEW_MS = 60_000;
+
+export class SignInError extends Error {
+  status: number;
+
+  constructor(message: string, status = 401) {
+    super(message);
+    this.name = 'SignInError';
+    this.status = status;
+  }
+}
+
+let developmentSecret: Buffer | null = null;
+
+/**
+ * SESSION_SECRET signs nonces and session cookies. Production refuses to run without it;
+ * development falls back to a per-process secret, so sessions end when the server restarts.
+ */
+const getSecret = (): Buffer => {
+  const configured = process.env.SESSION_SECRET;
+  if (configured) return Buffer.from(configured, 'utf8');
+  if (process.env.NODE_ENV === 'production') {
+    throw new SignInError('SESSION_SECRET is not configured', 500);
+  }
+  if (!developmentSecret) {
+    console.warn('SESSION_SECRET is not set; using a temporary secret for this process.');
+    developmentSecret = randomBytes(32);
+  }
+  return developmentSecret;
+};
+
+const sign = (payload: string): string => createHmac('sha256', getSecret()).update(payload).digest('base64url');
+
+// Both tokens share the secret, so each names its type and a reader accepts only its own
+type TokenType = 'nonce' | 'session';
+
+// "<payload>.<hmac>" with the payload base64url-encoded JSON
+const encodeSigned = (typ: TokenType, value: object): string => {
+  const payload = Buffer.from(JSON.stringify({ ...value, typ }), 'utf8').toString('base64url');
+  return `${payload}.${sign(payload)}`;
+};
+
+const decodeSigned = <T>(typ: TokenType, token: string | undefined): T | null => {
+  if (!token) return null;
+  const [payload, mac] = token.split('.');
+  if (!payload || !mac) return null;
+  const expected = Buffer.from(sign(payload));
+  const actual = Buffer.from(mac);
+  if (expected.length !== actual.length || !timingSafeEqual(expected, actual)) return null;
+  try {
+    const value = JSON.parse(Buffer.from(payload, 'base64url').toString('utf8')) as (T & { typ?: unknown }) | null;
+    if (value?.typ !== typ) return null;
+    const { typ: _typ, ...rest } = value;
+    return rest as T;
+  } catch {
+    return null;
+  }
+};
+
+interface NonceToken {
+  nonce: string;
+  expiresAt: number;
+}
+
+// Returns the nonce for the message and the cookie value that vouches for it
+export const issueNonce = (now = Date.now()): { nonce: string; cookie: string; expiresAt: number } => {
+  const nonce = randomBytes(16).toString('hex');
+  const expiresAt = now + SIGN_IN_MESSAGE_TTL_MS;
+  return { nonce, cookie: encodeSigned('nonce', { nonce, expiresAt } satisfies NonceToken), expiresAt };
+};
+
+export const createSessionCookie = (session: AuthSession): string => encodeSigned('session', session);
+
+// The session in a cookie, or null when it is missing, tampered with or expired
+export const readSession = (cookie: string | undefined, now = Date.now()): AuthSession | null => {
+  const session = decodeSigned<AuthSession>('session', cookie);
+  return session && typeof session.address === 'string' && session.expiresAt > now ? session : null;
+};
+
+const verifyEd25519 = (message: Uint8Array, signature: Uint8Array, address: PublicKey): boolean => {
+  const key = createPublicKey({
+    key: { kty: 'OKP', crv: 'Ed25519', x: Buffer.from(address.toBytes()).toString('base64url') },
+    format: 'jwk',
+  });
+  return verify(null, message, key, signature);
+};
+
+export interface SignInAttempt {
+  message: string;
+  // base58, as wallets and explorers show signatures
+  signature: string;
+}
+
+/**
+ * Checks a signed sign-in message against the nonce cookie and the host it was sent to.
+ * Returns the new session, or throws a `SignInError` describing why the attempt was refused.
+ */
+export const verifySignIn = (
+  { message, signature }: SignInAttempt,
+  nonceCookie: string | undefined,
+  host: string | null,
+  now = Date.now(),
+): AuthSession => {
+  const fields = parseSignInMessage(message);
+  if (!fields) throw new SignInError('Malformed sign-in message', 400);
+  if (fields.statement !== SIGN_IN_STATEMENT || fields.version !== SIGN_IN_VERSION) {
+    throw new SignInError('Unsupported sign-in message', 400);
+  }
+  if (!host || fields.domain !== host) throw new SignInError('Sign-in message is for another site');
+
+  const nonce = decodeSigned<NonceToken>('nonce', nonceCookie);
+  if (!nonce || nonce.expiresAt <= now) throw new SignInError('Sign-in request expired, please try again');
+  if (fields.nonce !== nonce.nonce) throw new SignInError('Sign-in nonce does not match');
+
+  const issuedAt = Date.parse(fields.issuedAt);
+  const expiresAt = Date.parse(fields.expirationTime);
+  if (!(issuedAt <= now + CLOCK_SKEW_MS) || !(expiresAt > now)) {
+    throw new SignInError('Sign-in message is not valid at this time');
+  }
+
+  let address: PublicKey;
+  let signatureBytes: Uint8Array;
+  try {
+    address = new PublicKey(fields.address);
+    signatureBytes = utils.bytes.bs58.decode(signature);
+  } catch {
+    throw new SignInError('Malformed address or signature', 400);
+  }
+  if (signatureBytes.length !== 64 || !verifyEd25519(Buffer.from(message, 'utf8'), signatureBytes, address)) {
+    throw new SignInError('Signature does not match the wallet');
+  }
+
+  return { address: address.toBase58(), expiresAt: now + SESSION_TTL_MS };
+};
+
+export const sessionCookieOptions = (maxAgeMs: number) => ({
+  httpOnly: true,
+  secure: process.env.NODE_ENV === 'production',
+  sameSite: 'strict' as const,
+  path: '/',
+  maxAge: Math.floor(maxAgeMs / 1000),
+});
@@ -0,0 +1,68 @@
+/**
+ * Sign-In With Solana messages, shared by the wallet (which signs them) and the verify route (which checks them).
+ * The layout follows the Solana wallet standard's sign-in message, itself modelled on EIP-4361.
+ */
+export const SIGN_IN_STATEMENT = 'Sign in to Solana Crowdfunding. This request does not trigger a transaction or cost any fees.';
+export const SIGN_IN_VERSION = '1';
+// How long a signed message stays acceptable; the nonce cookie expires with it
+export const SIGN_IN_MESSAGE_TTL_MS = 5 * 60_000;
+
+export interface SignInMessageFields {
+  domain: string;
+  address: string;
+  statement: string;
+  uri: string;
+  version: string;
+  nonce: string;
+  issuedAt: string;
+  expirationTime: string;
+}
+
+export interface AuthSession {
+  address: string;
+  // Unix milliseconds
+  expiresAt: number;
+}
+
+export const formatSignInMessage = (fields: SignInMessageFields): string => [
+  `${fields.domain} wants you to sign in with your Solana account:`,
+  fields.address,
+  '',
+  fields.statement,
+  '',
+  `URI: ${fields.uri}`,
+  `Version: ${fields.version}`,
+  `Nonce: ${fields.nonce}`,
+  `Issued At: ${fields.issuedAt}`,
+  `Expiration Time: ${fields.expirationTime}`,
+].join('\n');
+
+const SIGN_IN_MESSAGE_RE = new RegExp([
+  '^(?<domain>[^\\s]+) wants you to sign in with your Solana account:',
+  '(?<address>[1-9A-HJ-NP-Za-km-z]{32,44})',
+  '',
+  '(?<statement>[^\\n]*)',
+  '',
+  'URI: (?<uri>[^\\n]+)',
+  'Version: (?<version>[^\\n]+)',
+  'Nonce: (?<nonce>[A-Za-z0-9]+)',
+  'Issued At: (?<issuedAt>[^\\n]+)',
+  'Expiration Time: (?<expirationTime>[^\\n]+)$',
+].join('\\n'));
+
+// Returns null when the text is not exactly a message produced by formatSignInMessage
+export const parseSignInMessage = (message: string): SignInMessageFields | null => {
+  const groups = message.match(SIGN_IN_MESSAGE_RE)?.groups;
+  return groups ? (groups as unknown as SignInMessageFields) : null;
+};
+
+export const createSignInMessage = (address: string, nonce: string, now = Date.now()): SignInMessageFields => ({
+  domain: window.location.host,
+  address,
+  statement: SIGN_IN_STATEMENT,
+  uri: window.location.origin,
+  version: SIGN_IN_VERSION,
+  nonce,
+  issuedAt: new Date(now).toISOString(),
+  expirationTime: new Date(now + SIGN_IN_MESSAGE_TTL_MS).toISOString(),
+});
@@ -0,0 +1,196 @@
+import {
+  AddressLookupTableAccount,
+  Blockhash,
+  ComputeBudgetProgram,
+  Connection,
+  PACKET_DATA_SIZE,
+  PublicKey,
+  Transaction,
+  TransactionInstruction,
+  TransactionMessage,
+  TransactionVersion,
+  VersionedTransaction,
+} from '@solana/web3.js';
+
+// How much to bid for priority during congestion; levels map to percentiles of recent fees
+export type PriorityFeeLevel = 'none' | 'low' | 'medium' | 'high';
+
+export const PRIORITY_FEE_LEVELS: PriorityFeeLevel[] = ['none', 'low', 'medium', 'high'];
+export const DEFAULT_PRIORITY_FEE_LEVEL: PriorityFeeLevel = 'medium';
+
+const PRIORITY_FEE_PERCENTILES: Record<Exclude<PriorityFeeLevel, 'none'>, number> = {
+  low: 25,
+  medium: 50,
+  high: 75,
+};
+
+// Caps the bid at one lamport per compute unit, whatever recent fees look like
+export const MAX_PRIORITY_FEE_MICRO_LAMPORTS = 1_000_000;
+export const MAX_COMPUTE_UNIT_LIMIT = 1_400_000;
+// Head room over the simulated units, plus what the two compute-budget instructions consume themselves
+const COMPUTE_UNIT_MARGIN = 1.2;
+const COMPUTE_BUDGET_UNITS = 300;
+
+export interface ComputeBudget {
+  // Omitted when the simulation failed; the cluster default then applies
+  unitLimit?: number;
+  // Price per compute unit; 0 means no priority fee instruction
+  microLamports: number;
+}
+
+export interface BuildTransactionOptions {
+  payer: PublicKey;
+  instructions: TransactionInstruction[];
+  recentBlockhash: Blockhash;
+  // 0 unless the wallet can only sign legacy transactions
+  version?: TransactionVersion;
+  lookupTables?: AddressLookupTableAccount[];
+}
+
+// Prefers v0 messages; signers that list their versions without 0 get legacy ones
+export const pickTransactionVersion = (supported?: readonly TransactionVersion[] | null): TransactionVersion => {
+  return !supported || supported.includes(0) ? 0 : 'legacy';
+};
+
+export const buildTransaction = ({
+  payer,
+  instructions,
+  recentBlockhash,
+  version = 0,
+  lookupTables = [],
+}: BuildTransactionOptions): Transaction | VersionedTransaction => {
+  if (version === 'legacy') {
+    return new Transaction({ feePayer: payer, recentBlockhash }).add(...instructions);
+  }
+  const message = new TransactionMessage({ payerKey: payer, recentBlockhash, instructions }).compileToV0Message(lookupTables);
+  return new VersionedTransaction(message);
+};
+
+export const isComputeBudgetInstruction = (instruction: TransactionInstruction) => {
+  return instruction.programId.equals(ComputeBudgetProgram.programId);
+};
+
+export const computeBudgetInstructions = ({ unitLimit, microLamports }: ComputeBudget): TransactionInstruction[] => {
+  const instructions: TransactionInstruction[] = [];
+  if (unitLimit) instructions.push(ComputeBudgetProgram.setComputeUnitLimit({ units: unitLimit }));
+  if (microLamports > 0) instructions.push(ComputeBudgetProgram.setComputeUnitPrice({ microLamports }));
+  return instructions;
+};
+
+const percentile = (values: number[], p: number): number => {
+  if (values.length === 0) return 0;
+  const sorted = [...values].sort((a, b) => a - b);
+  return sorted[Math.min(sorted.length - 1, Math.floor((p / 100) * sorted.length))];
+};
+
+/**
+ * Estimates a priority fee from what recent slots charged for the accounts this transaction writes to.
+ * Returns 0 for the 'none' level and when the RPC does not report fees, e.g. on localnet.
+ */
+export const estimatePriorityFee = async (
+  connection: Connection,
+  writableAccounts: PublicKey[],
+  level: PriorityFeeLevel = DEFAULT_PRIORITY_FEE_LEVEL,
+): Promise<number> => {
+  if (level === 'none') return 0;
+  try {
+    const recent = await connection.getRecentPrioritizationFees({ lockedWritableAccounts: writableAccounts });
+    const fee = percentile(recent.map(({ prioritizationFee }) => prioritizationFee), PRIORITY_FEE_PERCENTILES[level]);
+    return Math.min(Math.ceil(fee), MAX_PRIORITY_FEE_MICRO_LAMPORTS);
+  } catch (error) {
+    console.warn('Could not estimate priority fee:', error);
+    return 0;
+  }
+};
+
+// Simulates with the maximum limit and returns the units to request, or undefined when simulation fails
+export const estimateComputeUnits = async (
+  connection: Connection,
+  payer: PublicKey,
+  instructions: TransactionInstruction[],
+): Promise<number | undefined> => {
+  const { blockhash } = await connection.getLatestBlockhash('confirmed');
+  const transaction = buildTransaction({
+    payer,
+    recentBlockhash: blockhash,
+    instructions: [ComputeBudgetProgram.setComputeUnitLimit({ units: MAX_COMPUTE_UNIT_LIMIT }), ...instructions],
+  }) as VersionedTransaction;
+  const simulation = await connection.simulateTransaction(transaction, {
+    sigVerify: false,
+    replaceRecentBlockhash: true,
+    commitment: 'confirmed',
+  });
+  if (simulation.value.err || !simulation.value.unitsConsumed) return undefined;
+  return Math.min(Math.ceil(simulation.value.unitsConsumed * COMPUTE_UNIT_MARGIN) + COMPUTE_BUDGET_UNITS, MAX_COMPUTE_UNIT_LIMIT);
+};
+
+/**
+ * Prepends compute-unit limit and price instructions to `instructions`, replacing any already there.
+ * The limit comes from a simulation and the price from `getRecentPrioritizationFees`; both lookups run in parallel.
+ */
+export const withComputeBudget = async (
+  connection: Connection,
+  payer: PublicKey,
+  instructions: TransactionInstruction[],
+  level: PriorityFeeLevel = DEFAULT_PRIORITY_FEE_LEVEL,
+): Promise<{ instructions: TransactionInstruction[]; budget: ComputeBudget }> => {
+  const program = instructions.filter((instruction) => !isComputeBudgetInstruction(instruction));
+  const writable = [...new Map(
+    program.flatMap((instruction) => instruction.keys)
+      .filter((key) => key.isWritable)
+      .map((key) => [key.pubkey.toBase58(), key.pubkey] as const)
+  ).values()];
+
+  const [unitLimit, microLamports] = await Promise.all([
+    estimateComputeUnits(connection, payer, program).catch((error) => {
+      console.warn('Could not estimate compute units:', error);
+      return undefined;
+    }),
+    estimatePriorityFee(connection, writable, level),
+  ]);
+  const budget = { unitLimit, microLamports };
+  return { instructions: [...computeBudgetInstructions(budget), ...program], budget };
+};
+
+// Stand-ins with the same encoded size as the real compute-budget instructions
+const BUDGET_PLACEHOLDERS = computeBudgetInstructions({ unitLimit: MAX_COMPUTE_UNIT_LIMIT, microLamports: 1 });
+const SIZE_PROBE_BLOCKHASH = PublicKey.default.toBase58();
+
+// Serialized size with one signature, or Infinity when the message cannot be encoded at all
+export const transactionSize = (payer: PublicKey, instructions: TransactionInstruction[], version: TransactionVersion = 0): number => {
+  try {
+    const transaction = buildTransaction({ payer, instructions, recentBlockhash: SIZE_PROBE_BLOCKHASH, version });
+    return transaction instanceof VersionedTransaction
+      ? transaction.serialize().length
+      : transaction.serialize({ requireAllSignatures: false, verifySignatures: false }).length;
+  } catch {
+    return Infinity;
+  }
+};
+
+/**
+ * Splits instructions, in order, into as few transactions as fit the packet size limit,
+ * leaving room for the compute-budget instructions `withComputeBudget` adds later.
+ * Throws if a single instruction does not fit on its own.
+ */
+export const packInstructions = (
+  payer: PublicKey,
+  instructions: TransactionInstruction[],
+  version: TransactionVersion = 0,
+): TransactionInstruction[][] => {
+  const fits = (group: TransactionInstruction[]) => transactionSize(payer, [...BUDGET_PLACEHOLDERS, ...group], version) <= PACKET_DATA_SIZE;
+  const groups: TransactionInstruction[][] = [];
+  let current: TransactionInstruction[] = [];
+  for (const instruction of instructions) {
+    if (fits([...current, instruction])) {
+      current.push(instruction);
+      continue;
+    }
+    if (current.length === 0) throw new Error('Instruction is too large for a single transaction');
+    groups.push(current);
+    current = [instruction];
+    if (!fits(current)) throw new Error('Instruction is too large for a single transaction');
+  }
+  if (current.length > 0) groups.push(current);
+  return groups;
+};
@@ -0,0 +1,219 @@
+import {
+  BlockhashWithExpiryBlockHeight,
+  Commitment,
+  Connection,
+  PublicKey,
+  Transaction,
+  TransactionExpiredBlockheightExceededError,
+  TransactionVersion,
+  VersionedTransaction,
+} from '@solana/web3.js';
+
+export type TransactionStatus = 'signing' | 'sent' | 'processed' | 'confirmed' | 'finalized' | 'failed';
+
+export interface TrackedTransaction {
+  id: string;
+  label: string;
+  status: TransactionStatus;
+  signature?: string;
+  explorerUrl?: string;
+  error?: string;
+  logs?: string[];
+  attempts: number;
+  createdAt: number;
+  updatedAt: number;
+}
+
+export type TransactionUpdate = Partial<Pick<TrackedTransaction, 'status' | 'signature' | 'error' | 'logs' | 'attempts'>>;
+
+export interface TransactionSigner {
+  publicKey: PublicKey;
+  signTransaction: <T extends Transaction | VersionedTransaction>(transaction: T) => Promise<T>;
+  // Message versions the signer accepts; omitted means v0 and legacy
+  supportedTransactionVersions?: readonly TransactionVersion[] | null;
+}
+
+export interface SendOptions {
+  commitment?: Commitment;
+  // Total attempts, counting the first; only blockhash expiry triggers another one
+  maxAttempts?: number;
+  onUpdate?: (update: TransactionUpdate) => void;
+}
+
+export class TransactionFailedError extends Error {
+  signature?: string;
+  logs?: string[];
+  // The raw error returned by the cluster, e.g. { InstructionError: [0, { Custom: 6000 }] }
+  transactionError?: unknown;
+
+  constructor(message: string, signature?: string, logs?: string[], transactionError?: unknown) {
+    super(message);
+    this.name = 'TransactionFailedError';
+    this.signature = signature;
+    this.logs = logs;
+    this.transactionError = transactionError;
+  }
+}
+
+export const TERMINAL_STATUSES: TransactionStatus[] = ['finalized', 'failed'];
+
+const fetchLogs = async (connection: Connection, signature: string): Promise<string[] | undefined> => {
+  try {
+    const details = await connection.getTransaction(signature, { commitment: 'confirmed', maxSupportedTransactionVersion: 0 });
+    return details?.meta?.logMessages ?? undefined;
+  } catch {
+    return undefined;
+  }
+};
+
+type SignableTransaction = Transaction | VersionedTransaction;
+
+// Versioned messages are compiled with their blockhash and payer; legacy ones are filled in here
+const stampLegacy = (transaction: SignableTransaction, payer: PublicKey, latestBlockhash: BlockhashWithExpiryBlockHeight) => {
+  if (transaction instanceof Transaction) {
+    transaction.recentBlockhash = latestBlockhash.blockhash;
+    transaction.lastValidBlockHeight = latestBlockhash.lastValidBlockHeight;
+    transaction.feePayer = payer;
+  }
+};
+
+// Sends a signed transaction and waits for `commitment`, reporting each step; finalization is reported in the background
+const submitAndConfirm = async (
+  connection: Connection,
+  signed: SignableTransaction,
+  latestBlockhash: BlockhashWithExpiryBlockHeight,
+  commitment: Commitment,
+  onUpdate?: (update: TransactionUpdate) => void,
+): Promise<string> => {
+  const signature = await connection.sendRawTransaction(signed.serialize(), { skipPreflight: true });
+  onUpdate?.({ status: 'sent', signature });
+
+  const strategy = { signature, ...latestBlockhash };
+  const processed = await connection.confirmTransaction(strategy, 'processed');
+  if (processed.value.err) {
+    throw new TransactionFailedError(
+      `Transaction ${signature} failed: ${JSON.stringify(processed.value.err)}`,
+      signature,
+      await fetchLogs(connection, signature),
+      processed.value.err
+    );
+  }
+  onUpdate?.({ status: 'processed' });
+
+  if (commitment !== 'processed') {
+    const confirmed = await connection.confirmTransaction(strategy, 'confirmed');
+    if (confirmed.value.err) {
+      throw new TransactionFailedError(
+        `Transaction ${signature} failed: ${JSON.stringify(confirmed.value.err)}`,
+        signature,
+        await fetchLogs(connection, signature),
+        confirmed.value.err
+      );
+    }
+    onUpdate?.({ status: 'confirmed' });
+  }
+
+  connection.confirmTransaction(strategy, 'finalized')
+    .then(() => onUpdate?.({ status: 'finalized' }))
+    .catch((error) => console.warn('Could not confirm finalization of', signature, error));
+
+  return signature;
+};
+
+const reportFailure = (error: unknown, onUpdate?: (update: TransactionUpdate) => void) => {
+  const err = error as Error & { logs?: string[] };
+  onUpdate?.({ status: 'failed', error: err.message, logs: err.logs });
+};
+
+/**
+ * Signs, sends and confirms a transaction, reporting each lifecycle step through `onUpdate`.
+ * Resolves once the requested commitment is reached and keeps reporting until finalized.
+ */
+export const sendWithLifecycle = async (
+  connection: Connection,
+  signer: TransactionSigner,
+  buildTransaction: (latestBlockhash: BlockhashWithExpiryBlockHeight) => SignableTransaction | Promise<SignableTransaction>,
+  { commitment = 'confirmed', maxAttempts = 3, onUpdate }: SendOptions = {},
+): Promise<string> => {
+  for (let attempt = 1; ; attempt++) {
+    onUpdate?.({ status: 'signing', attempts: attempt, signature: undefined, error: undefined });
+
+    const latestBlockhash = await connection.getLatestBlockhash(commitment);
+    const transaction = await buildTransaction(latestBlockhash);
+    stampLegacy(transaction, signer.publicKey, latestBlockhash);
+
+    try {
+      const signed = await signer.signTransaction(transaction);
+      return await submitAndConfirm(connection, signed, latestBlockhash, commitment, onUpdate);
+    } catch (error) {
+      if (error instanceof TransactionExpiredBlockheightExceededError && attempt < maxAttempts) {
+        console.warn(`Blockhash expired, retrying (attempt ${attempt + 1} of ${maxAttempts})`);
+        continue;
+      }
+      reportFailure(error, onUpdate);
+      throw error;
+    }
+  }
+};
+
+export interface BatchSigner extends TransactionSigner {
+  signAllTransactions: <T extends SignableTransaction>(transactions: T[]) => Promise<T[]>;
+}
+
+export interface BatchSendOptions {
+  commitment?: Commitment;
+  // One callback per transaction, in the same order
+  onUpdates?: ((update: TransactionUpdate) => void)[];
+}
+
+/**
+ * Signs several transactions with a single wallet prompt, then sends them all and settles each one separately.
+ * Rejects only when signing fails; a transaction that fails on-chain rejects its own entry in the result.
+ * Expired blockhashes are not retried, since that would need another prompt.
+ */
+export const sendAllWithLifecycle = async (
+  connection: Connection,
+  signer: BatchSigner,
+  buildTransactions: (latestBlockhash: BlockhashWithExpiryBlockHeight) => SignableTransaction[] | Promise<SignableTransaction[]>,
+  { commitment = 'confirmed', onUpdates = [] }: BatchSendOptions = {},
+): Promise<PromiseSettledResult<string>[]> => {
+  onUpdates.forEach((onUpdate) => onUpdate({ status: 'signing', attempts: 1, signature: undefined, error: undefined }));
+
+  let signed: SignableTransaction[];
+  let latestBlockhash: BlockhashWithExpiryBlockHeight;
+  try {
+    latestBlockhash = await connection.getLatestBlockhash(commitment);
+    const transactions = await buildTransactions(latestBlockhash);
+    transactions.forEach((transaction) => stampLegacy(transaction, signer.publicKey, latestBlockhash));
+    signed = await signer.signAllTransactions(transactions);
+  } catch (error) {
+    onUpdates.forEach((onUpdate) => reportFailure(error, onUpdate));
+    throw error;
+  }
+
+  return Promise.allSettled(signed.map(async (transaction, i) => {
+    try {
+      return await submitAndConfirm(connection, transaction, latestBlockhash, commitment, onUpdates[i]);
+    } catch (error) {
+      reportFailure(error, onUpdates[i]);
+      throw error;
+    }
+  }));
+};
+
+export const TRANSACTION_STORAGE_KEY = 'transactionHistory';
+export const MAX_STORED_TRANSACTIONS = 20;
+
+export const loadTransactionHistory = (): TrackedTransaction[] => {
+  if (typeof window === 'undefined') return [];
+  try {
+    const stored = JSON.parse(localStorage.getItem(TRANSACTION_STORAGE_KEY) ?? '[]');
+    return Array.isArray(stored) ? stored : [];
+  } catch {
+    return [];
+  }
+};
+
+export const storeTransactionHistory = (transactions: TrackedTransaction[]) => {
+  localStorage.setItem(TRANSACTION_STORAGE_KEY, JSON.stringify(transactions.slice(0, MAX_STORED_TRANSACTIONS)));
+};
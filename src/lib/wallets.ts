@@ -0,0 +1,280 @@
+import { PublicKey, Transaction, TransactionVersion, VersionedTransaction } from '@solana/web3.js';
+
+export type SignableTransaction = Transaction | VersionedTransaction;
+
+export type WalletEvent = 'connect' | 'disconnect' | 'accountChanged';
+
+type WalletListener = (publicKey: PublicKey | null) => void;
+
+// Common surface every wallet in the picker implements
+export interface WalletAdapter {
+  id: string;
+  name: string;
+  url: string;
+  readonly publicKey: PublicKey | null;
+  readonly connected: boolean;
+  // Message versions the wallet can sign; null when unknown
+  readonly supportedTransactionVersions: readonly TransactionVersion[] | null;
+  isInstalled: () => boolean;
+  connect: (options?: { onlyIfTrusted?: boolean }) => Promise<PublicKey>;
+  disconnect: () => Promise<void>;
+  signTransaction: <T extends SignableTransaction>(transaction: T) => Promise<T>;
+  signAllTransactions: <T extends SignableTransaction>(transactions: T[]) => Promise<T[]>;
+  signMessage?: (message: Uint8Array) => Promise<Uint8Array>;
+  on: (event: WalletEvent, listener: WalletListener) => () => void;
+}
+
+// Shape shared by the browser-extension wallets (Phantom, Solflare, Backpack)
+export interface InjectedProvider {
+  isPhantom?: boolean;
+  isSolflare?: boolean;
+  isBackpack?: boolean;
+  isConnected?: boolean;
+  publicKey?: { toString: () => string; toBytes?: () => Uint8Array } | null;
+  connect?: (options?: { onlyIfTrusted?: boolean }) => Promise<unknown>;
+  disconnect?: () => Promise<void>;
+  signTransaction?: <T extends SignableTransaction>(transaction: T) => Promise<T>;
+  signAllTransactions?: <T extends SignableTransaction>(transactions: T[]) => Promise<T[]>;
+  signMessage?: (message: Uint8Array, display?: string) => Promise<{ signature: Uint8Array } | Uint8Array>;
+  on?: (event: string, listener: (...args: any[]) => void) => void;
+  off?: (event: string, listener: (...args: any[]) => void) => void;
+  removeListener?: (event: string, listener: (...args: any[]) => void) => void;
+}
+
+export interface SolanaWindow extends Window {
+  solana?: InjectedProvider;
+  phantom?: { solana?: InjectedProvider };
+  solflare?: InjectedProvider;
+  backpack?: InjectedProvider;
+}
+
+const getWindow = (): SolanaWindow | null => {
+  return typeof window === 'undefined' ? null : (window as SolanaWindow);
+};
+
+const toPublicKey = (value: InjectedProvider['publicKey'] | undefined): PublicKey | null => {
+  if (!value) return null;
+  try {
+    return new PublicKey(value.toString());
+  } catch {
+    return null;
+  }
+};
+
+const createEmitter = () => {
+  const listeners = new Map<WalletEvent, Set<WalletListener>>();
+  return {
+    on(event: WalletEvent, listener: WalletListener) {
+      if (!listeners.has(event)) listeners.set(event, new Set());
+      listeners.get(event)!.add(listener);
+      return () => {
+        listeners.get(event)?.delete(listener);
+      };
+    },
+    emit(event: WalletEvent, publicKey: PublicKey | null) {
+      listeners.get(event)?.forEach((listener) => listener(publicKey));
+    },
+  };
+};
+
+interface InjectedWalletConfig {
+  id: string;
+  name: string;
+  url: string;
+  getProvider: () => InjectedProvider | undefined;
+}
+
+// Wraps an extension wallet that injects itself on `window`
+const createInjectedAdapter = ({ id, name, url, getProvider }: InjectedWalletConfig): WalletAdapter => {
+  const emitter = createEmitter();
+  let attachedTo: InjectedProvider | null = null;
+
+  const requireProvider = (): InjectedProvider => {
+    const provider = getProvider();
+    if (!provider) {
+      throw new Error(`${name} wallet not found. Please install ${name}.`);
+    }
+    return provider;
+  };
+
+  const onConnect = () => emitter.emit('connect', toPublicKey(getProvider()?.publicKey));
+  const onDisconnect = () => emitter.emit('disconnect', null);
+  const onAccountChanged = (next?: InjectedProvider['publicKey']) => {
+    // Phantom passes null when the user switches to an account that has not approved this site
+    emitter.emit('accountChanged', toPublicKey(next ?? getProvider()?.publicKey));
+  };
+
+  const attach = (provider: InjectedProvider) => {
+    if (attachedTo === provider) return;
+    detach();
+    provider.on?.('connect', onConnect);
+    provider.on?.('disconnect', onDisconnect);
+    provider.on?.('accountChanged', onAccountChanged);
+    attachedTo = provider;
+  };
+
+  const detach = () => {
+    if (!attachedTo) return;
+    const remove = attachedTo.off ?? attachedTo.removeListener;
+    remove?.call(attachedTo, 'connect', onConnect);
+    remove?.call(attachedTo, 'disconnect', onDisconnect);
+    remove?.call(attachedTo, 'accountChanged', onAccountChanged);
+    attachedTo = null;
+  };
+
+  return {
+    id,
+    name,
+    url,
+    get publicKey() {
+      return toPublicKey(getProvider()?.publicKey);
+    },
+    get connected() {
+      const provider = getProvider();
+      return Boolean(provider?.isConnected && provider.publicKey);
+    },
+    // Phantom, Solflare and Backpack all sign v0 messages
+    supportedTransactionVersions: ['legacy', 0],
+    isInstalled: () => Boolean(getProvider()),
+    async connect(options) {
+      const provider = requireProvider();
+      attach(provider);
+      if (!provider.isConnected || !provider.publicKey) {
+        await provider.connect?.(options);
+      }
+      const publicKey = toPublicKey(provider.publicKey);
+      if (!publicKey) {
+        throw new Error(`${name} did not return a public key.`);
+      }
+      return publicKey;
+    },
+    async disconnect() {
+      const provider = getProvider();
+      await provider?.disconnect?.();
+      detach();
+    },
+    async signTransaction(transaction) {
+      const provider = requireProvider();
+      if (!provider.signTransaction) throw new Error(`${name} does not support transaction signing.`);
+      return provider.signTransaction(transaction);
+    },
+    async signAllTransactions(transactions) {
+      const provider = requireProvider();
+      if (provider.signAllTransactions) return provider.signAllTransactions(transactions);
+      if (!provider.signTransaction) throw new Error(`${name} does not support transaction signing.`);
+      const signed = [];
+      for (const transaction of transactions) {
+        signed.push(await provider.signTransaction(transaction));
+      }
+      return signed;
+    },
+    async signMessage(message) {
+      const provider = requireProvider();
+      if (!provider.signMessage) throw new Error(`${name} does not support message signing.`);
+      const result = await provider.signMessage(message, 'utf8');
+      return result instanceof Uint8Array ? result : result.signature;
+    },
+    on: emitter.on,
+  };
+};
+
+// Ledger talks to the device over WebHID, so the transport is only loaded on demand
+const createLedgerAdapter = (): WalletAdapter => {
+  const emitter = createEmitter();
+  let ledger: import('@solana/wallet-adapter-ledger').LedgerWalletAdapter | null = null;
+
+  const requireLedger = () => {
+    if (!ledger?.connected) {
+      throw new Error('Ledger is not connected. Please connect the device first.');
+    }
+    return ledger;
+  };
+
+  return {
+    id: 'ledger',
+    name: 'Ledger',
+    url: 'https://www.ledger.com/ledger-live',
+    get publicKey() {
+      return ledger?.publicKey ?? null;
+    },
+    get connected() {
+      return Boolean(ledger?.connected);
+    },
+    get supportedTransactionVersions() {
+      return ledger?.supportedTransactionVersions ? [...ledger.supportedTransactionVersions] : null;
+    },
+    isInstalled: () => typeof navigator !== 'undefined' && 'hid' in navigator,
+    async connect(options) {
+      // A hardware wallet always needs a user gesture, so there is nothing to restore silently
+      if (options?.onlyIfTrusted) {
+        throw new Error('Ledger requires an explicit connection.');
+      }
+      if (!ledger) {
+        const { LedgerWalletAdapter } = await import('@solana/wallet-adapter-ledger');
+        ledger = new LedgerWalletAdapter();
+        ledger.on('connect', (publicKey) => emitter.emit('connect', publicKey));
+        ledger.on('disconnect', () => emitter.emit('disconnect', null));
+      }
+      await ledger.connect();
+      if (!ledger.publicKey) {
+        throw new Error('Ledger did not return a public key.');
+      }
+      return ledger.publicKey;
+    },
+    async disconnect() {
+      await ledger?.disconnect();
+    },
+    signTransaction: (transaction) => requireLedger().signTransaction(transaction),
+    signAllTransactions: (transactions) => requireLedger().signAllTransactions(transactions),
+    on: emitter.on,
+  };
+};
+
+// Registered wallets, in the order they are offered in the picker
+export const createWalletAdapters = (): WalletAdapter[] => [
+  createInjectedAdapter({
+    id: 'phantom',
+    name: 'Phantom',
+    url: 'https://phantom.app',
+    getProvider: () => {
+      const win = getWindow();
+      const provider = win?.phantom?.solana ?? win?.solana;
+      return provider?.isPhantom ? provider : undefined;
+    },
+  }),
+  createInjectedAdapter({
+    id: 'solflare',
+    name: 'Solflare',
+    url: 'https://solflare.com',
+    getProvider: () => {
+      const win = getWindow();
+      const provider = win?.solflare ?? win?.solana;
+      return provider?.isSolflare ? provider : undefined;
+    },
+  }),
+  createInjectedAdapter({
+    id: 'backpack',
+    name: 'Backpack',
+    url: 'https://backpack.app',
+    getProvider: () => {
+      const win = getWindow();
+      const provider = win?.backpack ?? win?.solana;
+      return provider?.isBackpack ? provider : undefined;
+    },
+  }),
+  createLedgerAdapter(),
+];
+
+// Narrows a connected wallet to the signer interface transaction code expects
+export const toWalletSigner = (adapter: WalletAdapter) => {
+  const publicKey = adapter.publicKey;
+  if (!adapter.connected || !publicKey) {
+    throw new Error('Wallet is not connected. Please connect the wallet first.');
+  }
+  return {
+    publicKey,
+    signTransaction: adapter.signTransaction,
+    signAllTransactions: adapter.signAllTransactions,
+    supportedTransactionVersions: adapter.supportedTransactionVersions,
+  };
+};
@@ -0,0 +1,35 @@
+// Same convention as @solana/web3.js: ws(s) on the next port when the HTTP endpoint names one
+export const getWebSocketUrl = (endpoint: string): string => {
+  const url = new URL(endpoint);
+  url.protocol = url.protocol === 'https:' ? 'wss:' : 'ws:';
+  if (url.port) {
+    url.port = String(Number(url.port) + 1);
+  }
+  return url.toString();
+};
+
+// Resolves true once a websocket to the RPC node opens, false on error or after the timeout
+export const probeWebSocket = (endpoint: string, timeoutMs = 5000): Promise<boolean> => {
+  if (typeof WebSocket === 'undefined') {
+    return Promise.resolve(false);
+  }
+  return new Promise((resolve) => {
+    let socket: WebSocket;
+    try {
+      socket = new WebSocket(getWebSocketUrl(endpoint));
+    } catch {
+      resolve(false);
+      return;
+    }
+    const finish = (supported: boolean) => {
+      clearTimeout(timer);
+      socket.onopen = null;
+      socket.onerror = null;
+      socket.close();
+      resolve(supported);
+    };
+    const timer = setTimeout(() => finish(false), timeoutMs);
+    socket.onopen = () => finish(true);
+    socket.onerror = () => finish(false);
+  });
+};
@@ -0,0 +1,80 @@
+import { describe, expect, it, vi } from 'vitest';
+import { render, screen } from '@testing-library/react';
+import userEvent from '@testing-library/user-event';
+import { LAMPORTS_PER_SOL } from '@solana/web3.js';
+import { DonationForm } from '../../src/components/donation-form';
+
+describe('DonationForm', () => {
+  it('donates the default amount and resets after a successful donation', async () => {
+    const user = userEvent.setup();
+    const onDonate = vi.fn().mockResolvedValue(true);
+    render(<DonationForm balance={LAMPORTS_PER_SOL} donating={false} onDonate={onDonate} />);
+
+    const input = screen.getByRole('textbox');
+    await user.clear(input);
+    await user.type(input, '0.25');
+    await user.click(screen.getByRole('button', { name: 'Donate 0.25 SOL' }));
+
+    expect(onDonate).toHaveBeenCalledOnce();
+    const [lamports, amount] = onDonate.mock.calls[0];
+    expect(lamports.toNumber()).toBe(LAMPORTS_PER_SOL / 4);
+    expect(amount).toBe('0.25');
+    expect(input).toHaveProperty('value', '0.1');
+  });
+
+  it('keeps the amount when the donation fails', async () => {
+    const user = userEvent.setup();
+    render(<DonationForm balance={LAMPORTS_PER_SOL} donating={false} onDonate={vi.fn().mockResolvedValue(false)} />);
+
+    await user.click(screen.getByRole('button', { name: '0.5 SOL' }));
+    await user.click(screen.getByRole('button', { name: 'Donate 0.5 SOL' }));
+
+    expect(screen.getByRole('textbox')).toHaveProperty('value', '0.5');
+  });
+
+  it('blocks amounts above the balance', async () => {
+    const user = userEvent.setup();
+    const onDonate = vi.fn();
+    render(<DonationForm balance={LAMPORTS_PER_SOL / 20} donating={false} onDonate={onDonate} />);
+
+    await user.click(screen.getByRole('button', { name: '1 SOL' }));
+
+    expect(screen.getByText('Amount plus network fee exceeds your balance')).toBeTruthy();
+    expect(screen.getByRole('button', { name: 'Donate 1 SOL' })).toHaveProperty('disabled', true);
+    expect(screen.getByRole('textbox').getAttribute('aria-invalid')).toBe('true');
+    expect(onDonate).not.toHaveBeenCalled();
+  });
+
+  it('offers an airdrop covering the shortfall when a faucet is available', async () => {
+    const user = userEvent.setup();
+    const onAirdrop = vi.fn().mockResolvedValue(undefined);
+    render(<DonationForm balance={LAMPORTS_PER_SOL / 20} donating={false} onDonate={vi.fn()} onAirdrop={onAirdrop} />);
+
+    await user.click(screen.getByRole('button', { name: '1 SOL' }));
+    await user.click(screen.getByRole('button', { name: /^Airdrop .* to cover it$/ }));
+
+    expect(onAirdrop).toHaveBeenCalledWith(LAMPORTS_PER_SOL - LAMPORTS_PER_SOL / 20 + 10_000);
+  });
+
+  it('rejects malformed amounts', async () => {
+    const user = userEvent.setup();
+    render(<DonationForm balance={null} donating={false} onDonate={vi.fn()} />);
+
+    const input = screen.getByRole('textbox');
+    await user.clear(input);
+    await user.type(input, '0.0000000001');
+
+    expect(screen.getByText('Enter a number with at most 9 decimals')).toBeTruthy();
+
+    await user.clear(input);
+    await user.type(input, '1.2.3');
+
+    expect(screen.getByText('Enter a valid amount, e.g. 0.5')).toBeTruthy();
+  });
+
+  it('shows progress while donating', () => {
+    render(<DonationForm balance={LAMPORTS_PER_SOL} donating onDonate={vi.fn()} />);
+
+    expect(screen.getByRole('button', { name: 'Donating...' })).toHaveProperty('disabled', true);
+  });
+});
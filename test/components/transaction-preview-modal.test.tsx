@@ -0,0 +1,92 @@
+import { describe, expect, it, vi } from 'vitest';
+import { render, screen } from '@testing-library/react';
+import userEvent from '@testing-library/user-event';
+import { Keypair, LAMPORTS_PER_SOL } from '@solana/web3.js';
+import { TransactionPreviewModal } from '../../src/components/transaction-preview-modal';
+import { PendingConfirmation } from '../../src/hooks/use-confirmation';
+import { TransactionPreview } from '../../src/lib/preview';
+
+const pending = (preview: Partial<TransactionPreview> = {}): PendingConfirmation => ({
+  title: 'Donate 0.5 SOL',
+  payer: Keypair.generate().publicKey,
+  transactions: [[]],
+  preview: {
+    fee: 5000,
+    rent: 0,
+    transfer: LAMPORTS_PER_SOL / 2,
+    balance: LAMPORTS_PER_SOL,
+    balanceAfter: LAMPORTS_PER_SOL / 2 - 5000,
+    transactionCount: 1,
+    logs: ['Program log: Instruction: Donate'],
+    unitsConsumed: 6150,
+    error: null,
+    ...preview,
+  },
+});
+
+describe('TransactionPreviewModal', () => {
+  it('shows the cost breakdown and confirms', async () => {
+    const user = userEvent.setup();
+    const onConfirm = vi.fn();
+    render(<TransactionPreviewModal request={pending()} onConfirm={onConfirm} onCancel={vi.fn()} />);
+
+    expect(screen.getByRole('heading', { name: 'Donate 0.5 SOL' })).toBeTruthy();
+    expect(screen.getByText('Amount')).toBeTruthy();
+    expect(screen.getByText('Network fee')).toBeTruthy();
+    expect(screen.getByText('Simulation logs (1)')).toBeTruthy();
+
+    await user.click(screen.getByRole('button', { name: 'Confirm in Wallet' }));
+    expect(onConfirm).toHaveBeenCalledOnce();
+  });
+
+  it('sums fees of batched transactions', () => {
+    render(<TransactionPreviewModal request={pending({ transactionCount: 3, fee: 15000 })} onConfirm={vi.fn()} onCancel={vi.fn()} />);
+
+    expect(screen.getByText('Network fees (3 transactions)')).toBeTruthy();
+  });
+
+  it('blocks a transaction whose simulation failed', async () => {
+    const user = userEvent.setup();
+    const onConfirm = vi.fn();
+    const onCancel = vi.fn();
+    const request = pending({
+      error: { kind: 'system', name: 'InsufficientFunds', message: 'Insufficient funds for this transaction' },
+    });
+    render(<TransactionPreviewModal request={request} onConfirm={onConfirm} onCancel={onCancel} />);
+
+    expect(screen.getByText(/Simulation failed: Insufficient funds for this transaction/)).toBeTruthy();
+    expect(screen.getByRole('button', { name: 'Blocked' })).toHaveProperty('disabled', true);
+    // No faucet was passed, so no airdrop is offered
+    expect(screen.queryByRole('button', { name: /Airdrop/ })).toBeNull();
+
+    await user.click(screen.getByRole('button', { name: 'Cancel' }));
+    expect(onCancel).toHaveBeenCalledOnce();
+    expect(onConfirm).not.toHaveBeenCalled();
+  });
+
+  it('offers an airdrop covering the shortfall', async () => {
+    const user = userEvent.setup();
+    const onAirdrop = vi.fn().mockResolvedValue(undefined);
+    const request = pending({
+      balance: LAMPORTS_PER_SOL / 4,
+      balanceAfter: -LAMPORTS_PER_SOL / 4 - 5000,
+      error: { kind: 'system', name: 'InsufficientFunds', message: 'Insufficient funds to cover the amount, network fee and rent' },
+    });
+    render(<TransactionPreviewModal request={request} onConfirm={vi.fn()} onCancel={vi.fn()} onAirdrop={onAirdrop} />);
+
+    await user.click(screen.getByRole('button', { name: /Airdrop .* and simulate again/ }));
+    expect(onAirdrop).toHaveBeenCalledWith(LAMPORTS_PER_SOL / 4 + 5000 + LAMPORTS_PER_SOL / 100);
+  });
+
+  it('is a labelled dialog that takes focus and cancels on Escape', async () => {
+    const user = userEvent.setup();
+    const onCancel = vi.fn();
+    render(<TransactionPreviewModal request={pending()} onConfirm={vi.fn()} onCancel={onCancel} />);
+
+    const dialog = screen.getByRole('dialog', { name: 'Donate 0.5 SOL' });
+    expect(dialog.contains(document.activeElement)).toBe(true);
+
+    await user.keyboard('{Escape}');
+    expect(onCancel).toHaveBeenCalledOnce();
+  });
+});
@@ -0,0 +1,83 @@
+// @vitest-environment node
+import { afterAll, beforeAll, describe, expect, it } from 'vitest';
+import { Connection, Keypair, LAMPORTS_PER_SOL } from '@solana/web3.js';
+import { BN } from '@project-serum/anchor';
+import { CampaignClient, createCampaignClient } from '../../src/lib/campaign-client';
+import { buildDonationSeries, donationsFromActivity, topDonors } from '../../src/lib/analytics';
+import { fetchFullCampaignHistory } from '../../src/lib/history';
+import { formatCampaignReport, formatDonationReport } from '../../src/lib/reports';
+import { TestCluster, startTestCluster } from '../harness/cluster';
+import { keypairSigner } from '../harness/mock-wallet';
+
+describe('campaign analytics', () => {
+  let cluster: TestCluster;
+  let client: CampaignClient;
+
+  beforeAll(async () => {
+    cluster = await startTestCluster();
+    client = createCampaignClient({ connection: new Connection(cluster.url, 'confirmed') });
+  }, 90_000);
+
+  afterAll(() => cluster?.close());
+
+  const fundedSigner = async (sol = 2) => {
+    const keypair = Keypair.generate();
+    await cluster.airdrop(keypair.publicKey, sol * LAMPORTS_PER_SOL);
+    return keypairSigner(keypair);
+  };
+
+  it('charts and exports the successful donations across history pages', async () => {
+    const admin = await fundedSigner();
+    const [generous, regular, broke] = await Promise.all([fundedSigner(), fundedSigner(), fundedSigner(0.01)]);
+    await client.create(admin, { name: 'Reports, "quarterly"', description: 'Line one\nline two' });
+    const [address] = client.deriveCampaignAddress(admin.publicKey);
+
+    await client.donate(regular, address, new BN(LAMPORTS_PER_SOL / 10));
+    await client.donate(generous, address, new BN(LAMPORTS_PER_SOL / 2));
+    await client.donate(regular, address, new BN(LAMPORTS_PER_SOL / 10));
+    await expect(client.donate(broke, address, new BN(LAMPORTS_PER_SOL))).rejects.toThrow();
+
+    const history = await fetchFullCampaignHistory(client.connection, client.programId, address, { pageSize: 2 });
+    expect(history.truncated).toBe(false);
+    const donations = donationsFromActivity(history.activities);
+    expect(donations).toHaveLength(3);
+
+    const series = buildDonationSeries(donations);
+    expect(series.map((point) => point.cumulative.toNumber())).toEqual([0.1, 0.6, 0.7].map((sol) => Math.round(sol * LAMPORTS_PER_SOL)));
+    expect(series.map((point) => point.donors)).toEqual([1, 2, 2]);
+
+    const [top, second] = topDonors(donations);
+    expect(top.donor.equals(generous.publicKey)).toBe(true);
+    expect(second).toMatchObject({ donations: 2 });
+    expect(second.total.toNumber()).toBe(LAMPORTS_PER_SOL / 5);
+
+    const csv = formatDonationReport(donations, 'csv').trimEnd().split('\r\n');
+    expect(csv[0]).toBe('signature,donor,lamports,block_time,time');
+    expect(csv).toHaveLength(4);
+    expect(JSON.parse(formatDonationReport(donations, 'json'))[0]).toMatchObject({
+      signature: donations[0].signature,
+      donor: donations[0].donor.toBase58(),
+      lamports: donations[0].lamports.toString(),
+    });
+
+    const campaign = await client.fetchOne(address);
+    expect(formatCampaignReport([campaign!], 'csv')).toBe(
+      'address,admin,name,description,amount_donated_lamports\r\n'
+      + `${address.toBase58()},${admin.publicKey.toBase58()},"Reports, ""quarterly""","Line one\nline two",700000000\r\n`
+    );
+  });
+
+  it('stops at the signature limit and reports the history as truncated', async () => {
+    const admin = await fundedSigner();
+    const donor = await fundedSigner();
+    await client.create(admin, { name: 'Busy', description: '' });
+    const [address] = client.deriveCampaignAddress(admin.publicKey);
+    for (let i = 0; i < 3; i++) {
+      await client.donate(donor, address, new BN(1_000_000));
+    }
+
+    const history = await fetchFullCampaignHistory(client.connection, client.programId, address, { pageSize: 2, maxSignatures: 2 });
+    expect(history.truncated).toBe(true);
+    expect(donationsFromActivity(history.activities)).toHaveLength(2);
+  });
+});
@@ -0,0 +1,114 @@
+// @vitest-environment node
+import { afterAll, beforeAll, describe, expect, it } from 'vitest';
+import { Connection, Keypair, LAMPORTS_PER_SOL } from '@solana/web3.js';
+import { BN } from '@project-serum/anchor';
+import { CampaignClient, createCampaignClient } from '../../src/lib/campaign-client';
+import { decodeError } from '../../src/lib/errors';
+import { TestCluster, startTestCluster } from '../harness/cluster';
+import { keypairSigner, WalletRejectedError } from '../harness/mock-wallet';
+
+// Runs against solana-test-validator when CAMPAIGN_PROGRAM_SO points at the built program, the fake RPC otherwise
+describe('campaign client', () => {
+  let cluster: TestCluster;
+  let connection: Connection;
+  let client: CampaignClient;
+
+  beforeAll(async () => {
+    cluster = await startTestCluster();
+    connection = new Connection(cluster.url, 'confirmed');
+    client = createCampaignClient({ connection });
+  }, 90_000);
+
+  afterAll(() => cluster?.close());
+
+  const fundedSigner = async (sol = 2) => {
+    const keypair = Keypair.generate();
+    await cluster.airdrop(keypair.publicKey, sol * LAMPORTS_PER_SOL);
+    return keypairSigner(keypair);
+  };
+
+  it('passes the program self-check', async () => {
+    await expect(client.selfCheck()).resolves.toEqual({ ok: true, problems: [] });
+  });
+
+  it('creates, lists, donates to and withdraws from a campaign', async () => {
+    const admin = await fundedSigner();
+    const donor = await fundedSigner();
+
+    await client.create(admin, { name: 'Community garden', description: 'Seeds and tools' });
+    const [address] = client.deriveCampaignAddress(admin.publicKey);
+    const created = await client.fetchOne(address);
+    expect(created?.account).toMatchObject({ name: 'Community garden', description: 'Seeds and tools' });
+    expect(created?.account.admin.equals(admin.publicKey)).toBe(true);
+
+    const { campaigns } = await client.fetchAll();
+    expect(campaigns.map((campaign) => campaign.publicKey.toBase58())).toContain(address.toBase58());
+
+    await client.donate(donor, address, new BN(LAMPORTS_PER_SOL / 2));
+    expect((await client.fetchOne(address))?.account.amountDonated.toNumber()).toBe(LAMPORTS_PER_SOL / 2);
+    expect(await client.fetchWithdrawable(address)).toBe(LAMPORTS_PER_SOL / 2);
+
+    const before = await connection.getBalance(admin.publicKey);
+    await client.withdraw(admin, address, new BN(LAMPORTS_PER_SOL / 4));
+    expect(await client.fetchWithdrawable(address)).toBe(LAMPORTS_PER_SOL / 4);
+    expect(await connection.getBalance(admin.publicKey)).toBeGreaterThan(before);
+  });
+
+  it('batches donations to several campaigns', async () => {
+    const admins = await Promise.all([fundedSigner(), fundedSigner(), fundedSigner()]);
+    for (const [i, admin] of admins.entries()) {
+      await client.create(admin, { name: `Batch ${i}`, description: '' });
+    }
+    const donor = await fundedSigner();
+    const addresses = admins.map((admin) => client.deriveCampaignAddress(admin.publicKey)[0]);
+
+    const settled = await client.sendAllAndConfirm(donor, [
+      addresses.slice(0, 2).map((address) => client.donateInstruction(address, donor.publicKey, new BN(1_000_000))),
+      [client.donateInstruction(addresses[2], donor.publicKey, new BN(2_000_000))],
+    ]);
+
+    expect(settled.map((result) => result.status)).toEqual(['fulfilled', 'fulfilled']);
+    const amounts = await Promise.all(addresses.map(async (address) => (await client.fetchOne(address))?.account.amountDonated.toNumber()));
+    expect(amounts).toEqual([1_000_000, 1_000_000, 2_000_000]);
+  });
+
+  it('reports a donation larger than the balance as insufficient funds', async () => {
+    const admin = await fundedSigner();
+    await client.create(admin, { name: 'Too ambitious', description: '' });
+    const [address] = client.deriveCampaignAddress(admin.publicKey);
+    const donor = await fundedSigner(0.01);
+
+    const error = await client.donate(donor, address, new BN(LAMPORTS_PER_SOL)).catch((e) => e);
+    expect(decodeError(error)).toMatchObject({ kind: 'system', name: 'InsufficientFunds' });
+    expect((await client.fetchOne(address))?.account.amountDonated.toNumber()).toBe(0);
+  });
+
+  it('refuses a second campaign for the same admin', async () => {
+    const admin = await fundedSigner();
+    await client.create(admin, { name: 'First', description: '' });
+
+    const error = await client.create(admin, { name: 'Second', description: '' }).catch((e) => e);
+    expect(decodeError(error)).toMatchObject({ kind: 'system', name: 'AccountAlreadyInUse' });
+  });
+
+  it('only lets the admin withdraw', async () => {
+    const admin = await fundedSigner();
+    await client.create(admin, { name: 'Guarded', description: '' });
+    const [address] = client.deriveCampaignAddress(admin.publicKey);
+    const stranger = await fundedSigner();
+    await client.donate(stranger, address, new BN(LAMPORTS_PER_SOL / 10));
+
+    const error = await client.withdraw(stranger, address, new BN(LAMPORTS_PER_SOL / 10)).catch((e) => e);
+    expect(decodeError(error).kind).not.toBe('unknown');
+    expect(await client.fetchWithdrawable(address)).toBe(LAMPORTS_PER_SOL / 10);
+  });
+
+  it('sends nothing when the signer rejects', async () => {
+    const admin = await fundedSigner();
+    const rejecting = { ...admin, signTransaction: async () => Promise.reject(new WalletRejectedError()) };
+
+    const error = await client.create(rejecting, { name: 'Never signed', description: '' }).catch((e) => e);
+    expect(decodeError(error).kind).toBe('wallet-rejected');
+    expect(await client.findCampaignByAdmin(admin.publicKey)).toBeNull();
+  });
+});
@@ -0,0 +1,182 @@
+import { afterAll, afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { render, screen, waitFor, within } from '@testing-library/react';
+import userEvent from '@testing-library/user-event';
+import { Keypair, LAMPORTS_PER_SOL } from '@solana/web3.js';
+import { Home } from '../../src/components/home';
+import { createMockWallet, installMockWallet, MockWallet } from '../harness/mock-wallet';
+
+// The fake RPC stands in for devnet, the default cluster; vi.hoisted sets its URL before the app modules load
+const rpc = await vi.hoisted(async () => {
+  const { startFakeRpc } = await import('../harness/fake-rpc');
+  const started = await startFakeRpc();
+  process.env.NEXT_PUBLIC_RPC_DEVNET = started.url;
+  return started;
+});
+
+describe('home page', () => {
+  let wallet: MockWallet;
+  let uninstall: () => void;
+
+  beforeEach(() => {
+    rpc.reset();
+    wallet = createMockWallet();
+    uninstall = installMockWallet(wallet);
+    rpc.setBalance(wallet.keypair.publicKey, 5 * LAMPORTS_PER_SOL);
+  });
+
+  afterEach(() => uninstall());
+  afterAll(() => rpc.close());
+
+  const renderHome = () => {
+    const user = userEvent.setup();
+    render(<Home initialSnapshot={null} />);
+    return user;
+  };
+
+  const connect = async (user: ReturnType<typeof userEvent.setup>) => {
+    await user.click(await screen.findByRole('button', { name: 'Connect Phantom' }));
+    await screen.findByText('Phantom wallet connected successfully!');
+  };
+
+  const confirmInModal = async (user: ReturnType<typeof userEvent.setup>) => {
+    await user.click(await screen.findByRole('button', { name: 'Confirm in Wallet' }));
+  };
+
+  // Campaign cards are articles named by their title
+  const cardFor = (name: string) => screen.findByRole('article', { name });
+
+  it('lists campaigns before a wallet is connected', async () => {
+    await rpc.addCampaign({ admin: Keypair.generate().publicKey, name: 'Clean water', description: 'Wells for the village' });
+    await rpc.addCampaign({ admin: Keypair.generate().publicKey, name: 'School books', amountDonated: LAMPORTS_PER_SOL });
+    renderHome();
+
+    expect(await cardFor('Clean water')).toBeTruthy();
+    expect(await cardFor('School books')).toBeTruthy();
+    expect(screen.getByText('Wells for the village')).toBeTruthy();
+    expect(screen.getAllByText('Connect a wallet to donate.')).toHaveLength(2);
+  });
+
+  it('connects the injected wallet', async () => {
+    const user = renderHome();
+    await connect(user);
+
+    expect(screen.getByText('Connected via Phantom')).toBeTruthy();
+    expect(wallet.requests).toEqual(['connect']);
+    expect(localStorage.getItem('selectedWallet')).toBe('phantom');
+  });
+
+  it('reports a rejected connection', async () => {
+    const user = renderHome();
+    wallet.rejectNext();
+    await user.click(await screen.findByRole('button', { name: 'Connect Phantom' }));
+
+    expect(await screen.findByText('Connecting wallet cancelled in the wallet.')).toBeTruthy();
+    expect(screen.getByRole('button', { name: 'Connect Phantom' })).toBeTruthy();
+  });
+
+  it('creates a campaign', async () => {
+    const user = renderHome();
+    await connect(user);
+
+    await user.type(screen.getByPlaceholderText('Enter unique campaign name'), 'Tree planting');
+    await user.type(screen.getByPlaceholderText('Enter campaign description'), 'A thousand oaks');
+    await user.click(screen.getByRole('button', { name: 'Create Campaign' }));
+    expect(await screen.findByText('Rent deposit for the new account')).toBeTruthy();
+    await confirmInModal(user);
+
+    expect(await screen.findByText('Campaign created successfully!')).toBeTruthy();
+    expect(await cardFor('Tree planting')).toBeTruthy();
+    const [address] = rpc.transactions().flatMap((entry) => entry.err ? [] : [entry.accountKeys[1]]);
+    expect(rpc.campaignAt(address)).toMatchObject({ name: 'Tree planting', description: 'A thousand oaks' });
+    expect(wallet.requests).toEqual(['connect', 'signTransaction']);
+  });
+
+  it('blocks a campaign the wallet cannot pay rent for until the faucet tops it up', async () => {
+    rpc.setBalance(wallet.keypair.publicKey, 100_000);
+    const user = renderHome();
+    await connect(user);
+
+    await user.type(screen.getByPlaceholderText('Enter unique campaign name'), 'Shoestring');
+    await user.click(screen.getByRole('button', { name: 'Create Campaign' }));
+
+    expect(await screen.findByText(/Simulation failed: Insufficient funds for this transaction/)).toBeTruthy();
+    expect(screen.getByRole('button', { name: 'Blocked' })).toHaveProperty('disabled', true);
+
+    await user.click(screen.getByRole('button', { name: /and simulate again/ }));
+    await confirmInModal(user);
+
+    expect(await screen.findByText('Campaign created successfully!')).toBeTruthy();
+    expect(await cardFor('Shoestring')).toBeTruthy();
+  });
+
+  it('donates to a campaign', async () => {
+    const address = await rpc.addCampaign({ admin: Keypair.generate().publicKey, name: 'Animal shelter' });
+    const user = renderHome();
+    await connect(user);
+
+    const card = await cardFor('Animal shelter');
+    await user.click(within(card).getByRole('button', { name: 'Donate 0.1 SOL' }));
+    await confirmInModal(user);
+
+    expect(await screen.findByText('Successfully donated 0.1 SOL to campaign!')).toBeTruthy();
+    expect(rpc.campaignAt(address)?.amountDonated.toNumber()).toBe(LAMPORTS_PER_SOL / 10);
+    expect(rpc.balanceOf(wallet.keypair.publicKey)).toBeLessThan(4.9 * LAMPORTS_PER_SOL);
+  });
+
+  it('leaves the campaign untouched when the wallet rejects the donation', async () => {
+    const address = await rpc.addCampaign({ admin: Keypair.generate().publicKey, name: 'Library' });
+    const user = renderHome();
+    await connect(user);
+
+    const card = await cardFor('Library');
+    wallet.rejectNext();
+    await user.click(within(card).getByRole('button', { name: 'Donate 0.1 SOL' }));
+    await confirmInModal(user);
+
+    expect(await screen.findByText('Donating to campaign cancelled in the wallet.')).toBeTruthy();
+    expect(rpc.campaignAt(address)?.amountDonated.toNumber()).toBe(0);
+    expect(rpc.transactions()).toHaveLength(0);
+  });
+
+  it('does not offer a donation the balance cannot cover', async () => {
+    await rpc.addCampaign({ admin: Keypair.generate().publicKey, name: 'Observatory' });
+    rpc.setBalance(wallet.keypair.publicKey, LAMPORTS_PER_SOL / 20);
+    const user = renderHome();
+    await connect(user);
+
+    const card = await cardFor('Observatory');
+    await user.click(within(card).getByRole('button', { name: '1 SOL' }));
+
+    await waitFor(() => expect(within(card).getByText('Amount plus network fee exceeds your balance')).toBeTruthy());
+    expect(within(card).getByRole('button', { name: 'Donate 1 SOL' })).toHaveProperty('disabled', true);
+  });
+
+  it('withdraws from the connected wallet’s campaign', async () => {
+    const address = await rpc.addCampaign({ admin: wallet.keypair.publicKey, name: 'My project', amountDonated: LAMPORTS_PER_SOL });
+    const user = renderHome();
+    await connect(user);
+
+    const card = await cardFor('My project');
+    await user.type(within(card).getByPlaceholderText('1'), '0.4');
+    await user.click(within(card).getByRole('button', { name: 'Withdraw' }));
+    expect(await screen.findByText('Amount received')).toBeTruthy();
+    await confirmInModal(user);
+
+    expect(await screen.findByText('Successfully withdrew 0.4 SOL from campaign!')).toBeTruthy();
+    expect(rpc.balanceOf(wallet.keypair.publicKey)).toBeGreaterThan(5.39 * LAMPORTS_PER_SOL);
+    expect(rpc.campaignAt(address)).not.toBeNull();
+  });
+
+  it('refuses to withdraw more than was donated', async () => {
+    await rpc.addCampaign({ admin: wallet.keypair.publicKey, name: 'Small pot', amountDonated: LAMPORTS_PER_SOL / 2 });
+    const user = renderHome();
+    await connect(user);
+
+    const card = await cardFor('Small pot');
+    await user.type(within(card).getByPlaceholderText('0.5'), '2');
+    await user.click(within(card).getByRole('button', { name: 'Withdraw' }));
+
+    expect(await screen.findByText(/Cannot withdraw 2 SOL, only .* has been donated/)).toBeTruthy();
+    expect(wallet.requests).toEqual(['connect']);
+  });
+});
@@ -0,0 +1,28 @@
+// @vitest-environment node
+import { describe, expect, it } from 'vitest';
+import { Keypair } from '@solana/web3.js';
+import { BN } from '@project-serum/anchor';
+import { CampaignAccount } from '../../src/lib/campaign-client';
+import { formatCampaignReport } from '../../src/lib/reports';
+
+const campaign = (name: string, description: string): CampaignAccount => ({
+  publicKey: Keypair.generate().publicKey,
+  account: { admin: Keypair.generate().publicKey, name, description, amountDonated: new BN(5) },
+});
+
+describe('campaign reports', () => {
+  it('neutralizes fields a spreadsheet would run as formulas', () => {
+    const csv = formatCampaignReport([
+      campaign('=HYPERLINK("https://example.com","click")', '+1+2'),
+      campaign('-2+3', '@SUM(A1)'),
+      campaign('\tTabbed', 'Plain, with "quotes"'),
+    ], 'csv');
+    const rows = csv.trimEnd().split('\r\n').map((row) => row.split(',').slice(2).join(','));
+
+    expect(rows.slice(1)).toEqual([
+      `"'=HYPERLINK(""https://example.com"",""click"")","'+1+2",5`,
+      `"'-2+3","'@SUM(A1)",5`,
+      `"'\tTabbed","Plain, with ""quotes""",5`,
+    ]);
+  });
+});
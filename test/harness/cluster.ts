@@ -0,0 +1,87 @@
+import { ChildProcess, spawn, spawnSync } from 'node:child_process';
+import { mkdtempSync, rmSync } from 'node:fs';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { Connection, PublicKey } from '@solana/web3.js';
+import { CAMPAIGN_PROGRAM_ID } from '../../src/lib/campaign-client';
+import { startFakeRpc } from './fake-rpc';
+
+// Something the tests can send transactions to: the fake RPC, or a local validator running the real program
+export interface TestCluster {
+  url: string;
+  airdrop: (owner: PublicKey, lamports: number) => Promise<void>;
+  close: () => Promise<void>;
+}
+
+const VALIDATOR_STARTUP_MS = 60_000;
+const VALIDATOR_RPC_PORT = 18899;
+
+const hasValidator = () => spawnSync('solana-test-validator', ['--version'], { stdio: 'ignore' }).status === 0;
+
+const waitForHealth = async (url: string, child: ChildProcess) => {
+  const deadline = Date.now() + VALIDATOR_STARTUP_MS;
+  while (Date.now() < deadline) {
+    if (child.exitCode !== null) throw new Error(`solana-test-validator exited with code ${child.exitCode}`);
+    try {
+      const response = await fetch(url, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ jsonrpc: '2.0', id: 1, method: 'getHealth' }),
+      });
+      if ((await response.json()).result === 'ok') return;
+    } catch {
+      // Not listening yet
+    }
+    await new Promise((resolve) => setTimeout(resolve, 500));
+  }
+  throw new Error('solana-test-validator did not become healthy in time');
+};
+
+/**
+ * Starts `solana-test-validator` with the compiled program from CAMPAIGN_PROGRAM_SO loaded at the IDL address.
+ * Returns null when either is missing, so callers can fall back to the fake RPC.
+ */
+export const startTestValidator = async (): Promise<TestCluster | null> => {
+  const program = process.env.CAMPAIGN_PROGRAM_SO;
+  if (!program || !hasValidator()) return null;
+
+  const ledger = mkdtempSync(join(tmpdir(), 'campaign-ledger-'));
+  const url = `http://127.0.0.1:${VALIDATOR_RPC_PORT}`;
+  const child = spawn('solana-test-validator', [
+    '--reset',
+    '--quiet',
+    '--ledger', ledger,
+    '--rpc-port', String(VALIDATOR_RPC_PORT),
+    '--bpf-program', CAMPAIGN_PROGRAM_ID.toBase58(), program,
+  ], { stdio: 'ignore' });
+
+  const close = async () => {
+    if (child.exitCode === null) {
+      const exited = new Promise((resolve) => child.once('exit', resolve));
+      child.kill();
+      await exited;
+    }
+    rmSync(ledger, { recursive: true, force: true });
+  };
+
+  try {
+    await waitForHealth(url, child);
+  } catch (error) {
+    await close();
+    throw error;
+  }
+
+  const connection = new Connection(url, 'confirmed');
+  return {
+    url,
+    airdrop: async (owner, lamports) => {
+      const latestBlockhash = await connection.getLatestBlockhash('confirmed');
+      const signature = await connection.requestAirdrop(owner, lamports);
+      await connection.confirmTransaction({ signature, ...latestBlockhash }, 'confirmed');
+    },
+    close,
+  };
+};
+
+// The local validator when one is available, the in-process fake RPC otherwise
+export const startTestCluster = async (): Promise<TestCluster> => (await startTestValidator()) ?? startFakeRpc();
@@ -0,0 +1,697 @@
+import { createServer, IncomingMessage, Server, ServerResponse } from 'node:http';
+import { AddressInfo } from 'node:net';
+import { createHash, createPublicKey, randomBytes, verify } from 'node:crypto';
+import { WebSocket, WebSocketServer } from 'ws';
+import {
+  ComputeBudgetProgram,
+  LAMPORTS_PER_SOL,
+  PublicKey,
+  SystemProgram,
+  TransactionError,
+  VersionedMessage,
+  VersionedTransaction,
+} from '@solana/web3.js';
+import { BN, LangErrorCode, LangErrorMessage, utils } from '@project-serum/anchor';
+import {
+  CAMPAIGN_ACCOUNT_NAME,
+  CAMPAIGN_PROGRAM_ID,
+  campaignAccountSpace,
+  campaignCoder,
+  CampaignData,
+  decodeCampaign,
+  getCampaignSeeds,
+  resolveSeeds,
+} from '../../src/lib/campaign-client';
+import type { TestCluster } from './cluster';
+
+// In-process stand-in for a Solana RPC node: a JSON-RPC server on a free port, its websocket on the next one,
+// and a ledger that runs the campaign program's create, donate and withdraw against in-memory accounts.
+// It covers what the app calls and nothing more; address lookup tables and other programs are not supported.
+
+const BPF_LOADER_UPGRADEABLE = new PublicKey('BPFLoaderUpgradeab1e11111111111111111111111');
+const SYSTEM_PROGRAM = SystemProgram.programId.toBase58();
+const LAMPORTS_PER_SIGNATURE = 5000;
+const DEFAULT_COMPUTE_UNIT_LIMIT = 200_000;
+// Blocks a blockhash stays valid for, as on a real cluster
+const BLOCKHASH_VALIDITY = 150;
+
+// Units the fake program reports per instruction, roughly what the deployed program uses
+const UNITS = {
+  computeBudget: 150,
+  create: 14_000,
+  donate: 6_000,
+  withdraw: 4_000,
+};
+
+interface LedgerAccount {
+  lamports: number;
+  owner: PublicKey;
+  data: Buffer;
+  executable: boolean;
+}
+
+export interface SeedCampaign {
+  admin: PublicKey;
+  name: string;
+  description?: string;
+  // Lamports, also held by the account on top of its rent
+  amountDonated?: number;
+}
+
+export interface RecordedTransaction {
+  signature: string;
+  slot: number;
+  blockTime: number;
+  err: TransactionError | null;
+  logs: string[];
+  fee: number;
+  unitsConsumed: number;
+  // Null for airdrops, which are credited without a transaction
+  transaction: VersionedTransaction | null;
+  accountKeys: PublicKey[];
+  preBalances: number[];
+  postBalances: number[];
+}
+
+export interface FakeRpcOptions {
+  programId?: PublicKey;
+  // What getRecentPrioritizationFees reports, in micro-lamports
+  prioritizationFees?: number[];
+}
+
+export interface FakeRpc extends TestCluster {
+  programId: PublicKey;
+  setBalance: (owner: PublicKey, lamports: number) => void;
+  balanceOf: (owner: PublicKey) => number;
+  // Writes a campaign at the address the IDL seeds derive from its admin
+  addCampaign: (campaign: SeedCampaign) => Promise<PublicKey>;
+  campaignAt: (address: PublicKey) => CampaignData | null;
+  transactions: () => RecordedTransaction[];
+  setPrioritizationFees: (fees: number[]) => void;
+  // Drops every account and transaction except the program itself
+  reset: () => void;
+}
+
+export const minimumBalanceForRentExemption = (space: number) => (128 + space) * 6960;
+
+export const sol = (amount: number) => Math.round(amount * LAMPORTS_PER_SOL);
+
+const emptyAccount = (): LedgerAccount => ({ lamports: 0, owner: SystemProgram.programId, data: Buffer.alloc(0), executable: false });
+
+class RpcError extends Error {
+  code: number;
+
+  constructor(message: string, code = -32602) {
+    super(message);
+    this.name = 'RpcError';
+    this.code = code;
+  }
+}
+
+// Aborts an instruction; `detail` becomes the InstructionError reported for it
+class InstructionFailure extends Error {
+  detail: unknown;
+  logs: string[];
+
+  constructor(detail: unknown, logs: string[]) {
+    super(JSON.stringify(detail));
+    this.name = 'InstructionFailure';
+    this.detail = detail;
+    this.logs = logs;
+  }
+}
+
+const hashToBase58 = (value: string) => utils.bytes.bs58.encode(createHash('sha256').update(value).digest());
+
+const verifySignature = (message: Uint8Array, signature: Uint8Array, signer: PublicKey): boolean => {
+  const key = createPublicKey({
+    key: { kty: 'OKP', crv: 'Ed25519', x: Buffer.from(signer.toBytes()).toString('base64url') },
+    format: 'jwk',
+  });
+  return verify(null, message, key, signature);
+};
+
+const encodeAccount = (account: LedgerAccount, dataSlice?: { offset: number; length: number }) => {
+  const data = dataSlice ? account.data.subarray(dataSlice.offset, dataSlice.offset + dataSlice.length) : account.data;
+  return {
+    lamports: account.lamports,
+    owner: account.owner.toBase58(),
+    data: [data.toString('base64'), 'base64'],
+    executable: account.executable,
+    rentEpoch: 0,
+    space: account.data.length,
+  };
+};
+
+type AccountFilter = { memcmp: { offset: number; bytes: string } } | { dataSize: number };
+
+const matchesFilters = (account: LedgerAccount, filters: AccountFilter[] = []) => filters.every((filter) => {
+  if ('dataSize' in filter) return account.data.length === filter.dataSize;
+  const bytes = Buffer.from(utils.bytes.bs58.decode(filter.memcmp.bytes));
+  const { offset } = filter.memcmp;
+  return account.data.length >= offset + bytes.length && account.data.subarray(offset, offset + bytes.length).equals(bytes);
+});
+
+const anchorFailure = (programId: PublicKey, logs: string[], name: keyof typeof LangErrorCode, account?: string) => {
+  const code = LangErrorCode[name];
+  const message = LangErrorMessage.get(code) ?? name;
+  return new InstructionFailure({ Custom: code }, [
+    ...logs,
+    `Program log: AnchorError${account ? ` caused by account: ${account}` : ''}. Error Code: ${name}. Error Number: ${code}. Error Message: ${message}.`,
+    `Program ${programId.toBase58()} failed: custom program error: 0x${code.toString(16)}`,
+  ]);
+};
+
+// A failed system program CPI, e.g. a transfer from an account without enough lamports
+const systemFailure = (programId: PublicKey, logs: string[], log: string, code: number) => {
+  return new InstructionFailure({ Custom: code }, [
+    ...logs,
+    `Program ${SYSTEM_PROGRAM} invoke [2]`,
+    log,
+    `Program ${SYSTEM_PROGRAM} failed: custom program error: 0x${code.toString(16)}`,
+    `Program ${programId.toBase58()} failed: custom program error: 0x${code.toString(16)}`,
+  ]);
+};
+
+const readComputeBudget = (message: VersionedMessage) => {
+  let unitLimit = 0;
+  let microLamports = 0;
+  let programInstructions = 0;
+  for (const instruction of message.compiledInstructions) {
+    if (!message.staticAccountKeys[instruction.programIdIndex].equals(ComputeBudgetProgram.programId)) {
+      programInstructions++;
+      continue;
+    }
+    const data = Buffer.from(instruction.data);
+    if (data[0] === 2) unitLimit = data.readUInt32LE(1);
+    if (data[0] === 3) microLamports = Number(new BN(data.subarray(1, 9), 'le').toString());
+  }
+  return { unitLimit: unitLimit || DEFAULT_COMPUTE_UNIT_LIMIT * Math.max(programInstructions, 1), microLamports };
+};
+
+const feeFor = (message: VersionedMessage) => {
+  const { unitLimit, microLamports } = readComputeBudget(message);
+  return message.header.numRequiredSignatures * LAMPORTS_PER_SIGNATURE + Math.ceil((unitLimit * microLamports) / 1_000_000);
+};
+
+const listen = (server: Server | WebSocketServer, port: number) => new Promise<void>((resolve, reject) => {
+  server.once('error', reject);
+  if (server instanceof WebSocketServer) {
+    server.once('listening', () => resolve());
+  } else {
+    server.listen(port, '127.0.0.1', () => resolve());
+  }
+});
+
+const readBody = (request: IncomingMessage) => new Promise<string>((resolve, reject) => {
+  const chunks: Buffer[] = [];
+  request.on('data', (chunk: Buffer) => chunks.push(chunk));
+  request.on('end', () => resolve(Buffer.concat(chunks).toString('utf8')));
+  request.on('error', reject);
+});
+
+interface Subscription {
+  socket: WebSocket;
+  kind: 'account' | 'program' | 'signature';
+  key: string;
+  filters?: AccountFilter[];
+}
+
+export const startFakeRpc = async ({
+  programId = CAMPAIGN_PROGRAM_ID,
+  prioritizationFees: initialFees = [],
+}: FakeRpcOptions = {}): Promise<FakeRpc> => {
+  const accounts = new Map<string, LedgerAccount>();
+  const records = new Map<string, RecordedTransaction>();
+  const subscriptions = new Map<number, Subscription>();
+  let nextSubscriptionId = 1;
+  let slot = 1;
+  let prioritizationFees = initialFees;
+
+  const addProgramAccount = () => {
+    accounts.set(programId.toBase58(), { lamports: 1, owner: BPF_LOADER_UPGRADEABLE, data: Buffer.alloc(36), executable: true });
+  };
+  addProgramAccount();
+
+  const blockhash = () => hashToBase58(`blockhash:${slot}`);
+  const context = () => ({ slot });
+
+  const notify = (socket: WebSocket, method: string, subscription: number, value: unknown) => {
+    if (socket.readyState !== WebSocket.OPEN) return;
+    socket.send(JSON.stringify({ jsonrpc: '2.0', method, params: { result: { context: context(), value }, subscription } }));
+  };
+
+  const notifyAccountChanges = (addresses: string[]) => {
+    for (const [id, subscription] of subscriptions) {
+      for (const address of addresses) {
+        const account = accounts.get(address) ?? emptyAccount();
+        if (subscription.kind === 'account' && subscription.key === address) {
+          notify(subscription.socket, 'accountNotification', id, encodeAccount(account));
+        }
+        if (subscription.kind === 'program' && subscription.key === account.owner.toBase58() && matchesFilters(account, subscription.filters)) {
+          notify(subscription.socket, 'programNotification', id, { pubkey: address, account: encodeAccount(account) });
+        }
+      }
+    }
+  };
+
+  const notifySignature = (record: RecordedTransaction) => {
+    for (const [id, subscription] of subscriptions) {
+      if (subscription.kind !== 'signature' || subscription.key !== record.signature) continue;
+      notify(subscription.socket, 'signatureNotification', id, { err: record.err });
+      subscriptions.delete(id);
+    }
+  };
+
+  const record = (entry: Omit<RecordedTransaction, 'slot' | 'blockTime'>, changed: string[]) => {
+    const recorded = { ...entry, slot, blockTime: Math.floor(Date.now() / 1000) };
+    records.set(recorded.signature, recorded);
+    slot++;
+    notifyAccountChanges(changed);
+    notifySignature(recorded);
+    return recorded;
+  };
+
+  const loadCampaign = (state: Map<string, LedgerAccount>, address: PublicKey, logs: string[]) => {
+    const account = state.get(address.toBase58());
+    if (!account || !account.owner.equals(programId)) throw anchorFailure(programId, logs, 'AccountNotInitialized', 'campaign');
+    try {
+      return { account, data: decodeCampaign(account.data) };
+    } catch {
+      throw anchorFailure(programId, logs, 'AccountDidNotDeserialize', 'campaign');
+    }
+  };
+
+  const encodeCampaign = (data: CampaignData) => campaignCoder.accounts.encode(CAMPAIGN_ACCOUNT_NAME, data);
+
+  // Moves lamports through a system program CPI, failing the way the system program does
+  const systemTransfer = (logs: string[], from: LedgerAccount, to: LedgerAccount, lamports: number) => {
+    if (from.lamports < lamports) {
+      throw systemFailure(programId, logs, `Transfer: insufficient lamports ${from.lamports}, need ${lamports}`, 1);
+    }
+    from.lamports -= lamports;
+    to.lamports += lamports;
+    logs.push(`Program ${SYSTEM_PROGRAM} invoke [2]`, `Program ${SYSTEM_PROGRAM} success`);
+  };
+
+  // Returns the units consumed and the logs of the instruction, or throws an InstructionFailure
+  const runCampaignInstruction = async (
+    state: Map<string, LedgerAccount>,
+    data: Buffer,
+    keys: PublicKey[],
+    isSigner: (key: PublicKey) => boolean,
+  ): Promise<{ units: number; logs: string[] }> => {
+    const decoded = campaignCoder.instruction.decode(data);
+    const logs = [`Program ${programId.toBase58()} invoke [1]`];
+    if (!decoded) throw anchorFailure(programId, logs, 'InstructionFallbackNotFound');
+    logs.push(`Program log: Instruction: ${decoded.name[0].toUpperCase()}${decoded.name.slice(1)}`);
+
+    const [campaignKey, userKey] = keys;
+    if (!userKey || !isSigner(userKey)) throw anchorFailure(programId, logs, 'AccountNotSigner', 'user');
+    const user = state.get(userKey.toBase58()) ?? emptyAccount();
+    state.set(userKey.toBase58(), user);
+
+    if (decoded.name === 'create') {
+      const { name, description } = decoded.data as { name: string; description: string };
+      const [expected] = PublicKey.findProgramAddressSync(resolveSeeds(getCampaignSeeds(), { user: userKey }), programId);
+      if (!campaignKey.equals(expected)) throw anchorFailure(programId, logs, 'ConstraintSeeds', 'campaign');
+      if (state.get(campaignKey.toBase58())?.lamports) {
+        throw systemFailure(programId, logs, `Allocate: account Address { address: ${campaignKey.toBase58()}, base: None } already in use`, 0);
+      }
+      const campaign: LedgerAccount = { ...emptyAccount(), owner: programId };
+      systemTransfer(logs, user, campaign, minimumBalanceForRentExemption(campaignAccountSpace(name, description)));
+      campaign.data = await encodeCampaign({ admin: userKey, name, description, amountDonated: new BN(0) });
+      state.set(campaignKey.toBase58(), campaign);
+      return { units: UNITS.create, logs };
+    }
+
+    if (decoded.name === 'donate') {
+      const { amount } = decoded.data as { amount: BN };
+      const { account, data: campaign } = loadCampaign(state, campaignKey, logs);
+      systemTransfer(logs, user, account, amount.toNumber());
+      account.data = await encodeCampaign({ ...campaign, amountDonated: campaign.amountDonated.add(amount) });
+      return { units: UNITS.donate, logs };
+    }
+
+    if (decoded.name === 'withdraw') {
+      const { amount } = decoded.data as { amount: BN };
+      const { account, data: campaign } = loadCampaign(state, campaignKey, logs);
+      if (!campaign.admin.equals(userKey)) throw anchorFailure(programId, logs, 'ConstraintHasOne', 'campaign');
+      // The program owns the account, so lamports move directly; it has to stay rent exempt
+      if (account.lamports - minimumBalanceForRentExemption(account.data.length) < amount.toNumber()) {
+        throw new InstructionFailure('InsufficientFunds', [...logs, `Program ${programId.toBase58()} failed: insufficient funds for instruction`]);
+      }
+      account.lamports -= amount.toNumber();
+      user.lamports += amount.toNumber();
+      return { units: UNITS.withdraw, logs };
+    }
+
+    throw anchorFailure(programId, logs, 'InstructionFallbackNotFound');
+  };
+
+  /**
+   * Runs a transaction against a copy of the ledger. The fee is charged even when an instruction fails;
+   * with `commit` the outcome is written back, otherwise this is a simulation.
+   */
+  const execute = async (transaction: VersionedTransaction, { commit }: { commit: boolean }) => {
+    const { message } = transaction;
+    if (message.addressTableLookups.length > 0) throw new RpcError('Address lookup tables are not supported');
+    const keys = message.staticAccountKeys;
+    const copy = () => new Map([...accounts].map(([key, account]) => [key, { ...account }]));
+    const preBalances = keys.map((key) => accounts.get(key.toBase58())?.lamports ?? 0);
+    const fee = feeFor(message);
+    const { unitLimit } = readComputeBudget(message);
+
+    const finish = (err: TransactionError | null, logs: string[], unitsConsumed: number, ledger: Map<string, LedgerAccount>) => {
+      if (commit) {
+        accounts.clear();
+        ledger.forEach((account, key) => accounts.set(key, account));
+      }
+      return {
+        err,
+        logs,
+        fee,
+        unitsConsumed,
+        accountKeys: keys,
+        preBalances,
+        postBalances: keys.map((key) => ledger.get(key.toBase58())?.lamports ?? 0),
+      };
+    };
+
+    const payerKey = keys[0].toBase58();
+    const payerBalance = accounts.get(payerKey)?.lamports;
+    if (payerBalance === undefined) return finish('AccountNotFound', [], 0, copy());
+    if (payerBalance < fee) return finish('InsufficientFundsForFee', [], 0, copy());
+
+    // What is left when an instruction fails: the fee is taken and nothing else changes
+    const feeOnly = copy();
+    feeOnly.get(payerKey)!.lamports -= fee;
+    const state = copy();
+    state.get(payerKey)!.lamports -= fee;
+
+    const logs: string[] = [];
+    let unitsConsumed = 0;
+    const isSigner = (key: PublicKey) => {
+      const index = keys.findIndex((candidate) => candidate.equals(key));
+      return index !== -1 && index < message.header.numRequiredSignatures;
+    };
+    for (const [index, instruction] of message.compiledInstructions.entries()) {
+      const program = keys[instruction.programIdIndex];
+      if (program.equals(ComputeBudgetProgram.programId)) {
+        logs.push(`Program ${program.toBase58()} invoke [1]`, `Program ${program.toBase58()} success`);
+        unitsConsumed += UNITS.computeBudget;
+        continue;
+      }
+      if (!program.equals(programId)) {
+        return finish({ InstructionError: [index, 'UnsupportedProgramId'] }, logs, unitsConsumed, feeOnly);
+      }
+      try {
+        const ran = await runCampaignInstruction(state, Buffer.from(instruction.data), instruction.accountKeyIndexes.map((i) => keys[i]), isSigner);
+        unitsConsumed += ran.units;
+        logs.push(
+          ...ran.logs,
+          `Program ${program.toBase58()} consumed ${ran.units} of ${unitLimit} compute units`,
+          `Program ${program.toBase58()} success`,
+        );
+      } catch (error) {
+        if (!(error instanceof InstructionFailure)) throw error;
+        return finish({ InstructionError: [index, error.detail] }, [...logs, ...error.logs], unitsConsumed, feeOnly);
+      }
+    }
+    return finish(null, logs, unitsConsumed, state);
+  };
+
+  const decodeTransaction = (encoded: string, encoding = 'base58') => {
+    const bytes = encoding === 'base64' ? Buffer.from(encoded, 'base64') : Buffer.from(utils.bytes.bs58.decode(encoded));
+    try {
+      return VersionedTransaction.deserialize(bytes);
+    } catch (error) {
+      throw new RpcError(`failed to deserialize transaction: ${(error as Error).message}`);
+    }
+  };
+
+  const handlers: Record<string, (params: any[]) => unknown> = {
+    getHealth: () => 'ok',
+    getVersion: () => ({ 'solana-core': '2.0.0', 'feature-set': 0 }),
+    getSlot: () => slot,
+    getBlockHeight: () => slot,
+    getGenesisHash: () => hashToBase58('genesis'),
+    getLatestBlockhash: () => ({ context: context(), value: { blockhash: blockhash(), lastValidBlockHeight: slot + BLOCKHASH_VALIDITY } }),
+    getMinimumBalanceForRentExemption: ([space]) => minimumBalanceForRentExemption(space),
+    getBalance: ([address]) => ({ context: context(), value: accounts.get(address)?.lamports ?? 0 }),
+    getAccountInfo: ([address, config]) => {
+      const account = accounts.get(address);
+      return { context: context(), value: account ? encodeAccount(account, config?.dataSlice) : null };
+    },
+    getMultipleAccounts: ([addresses, config]) => ({
+      context: context(),
+      value: (addresses as string[]).map((address) => {
+        const account = accounts.get(address);
+        return account ? encodeAccount(account, config?.dataSlice) : null;
+      }),
+    }),
+    getProgramAccounts: ([owner, config]) => {
+      const matches = [...accounts]
+        .filter(([, account]) => account.owner.toBase58() === owner && matchesFilters(account, config?.filters))
+        .map(([pubkey, account]) => ({ pubkey, account: encodeAccount(account, config?.dataSlice) }));
+      return config?.withContext ? { context: context(), value: matches } : matches;
+    },
+    getRecentPrioritizationFees: () => prioritizationFees.map((prioritizationFee, i) => ({ slot: slot - i, prioritizationFee })),
+    getFeeForMessage: ([encoded]) => ({
+      context: context(),
+      value: feeFor(VersionedMessage.deserialize(Buffer.from(encoded, 'base64'))),
+    }),
+    simulateTransaction: async ([encoded, config]) => {
+      const transaction = decodeTransaction(encoded, config?.encoding);
+      const simulated = await execute(transaction, { commit: false });
+      return {
+        context: context(),
+        value: { err: simulated.err, logs: simulated.logs, accounts: null, unitsConsumed: simulated.unitsConsumed, returnData: null },
+      };
+    },
+    sendTransaction: async ([encoded, config]) => {
+      const transaction = decodeTransaction(encoded, config?.encoding);
+      const { message, signatures } = transaction;
+      const messageBytes = message.serialize();
+      for (let i = 0; i < message.header.numRequiredSignatures; i++) {
+        if (!signatures[i] || !verifySignature(messageBytes, signatures[i], message.staticAccountKeys[i])) {
+          throw new RpcError('Transaction signature verification failure', -32003);
+        }
+      }
+      const signature = utils.bytes.bs58.encode(signatures[0]);
+      if (records.has(signature)) throw new RpcError('Transaction already processed', -32002);
+
+      const outcome = await execute(transaction, { commit: true });
+      record({ ...outcome, signature, transaction }, message.staticAccountKeys.map((key) => key.toBase58()));
+      return signature;
+    },
+    requestAirdrop: ([address, lamports]) => {
+      const owner = new PublicKey(address);
+      const account = accounts.get(address) ?? emptyAccount();
+      const preBalance = account.lamports;
+      accounts.set(address, { ...account, lamports: account.lamports + lamports });
+      const signature = utils.bytes.bs58.encode(randomBytes(64));
+      record({
+        signature,
+        err: null,
+        logs: [],
+        fee: 0,
+        unitsConsumed: 0,
+        transaction: null,
+        accountKeys: [owner],
+        preBalances: [preBalance],
+        postBalances: [preBalance + lamports],
+      }, [address]);
+      return signature;
+    },
+    getSignatureStatuses: ([signatures]) => ({
+      context: context(),
+      value: (signatures as string[]).map((signature) => {
+        const found = records.get(signature);
+        return found
+          ? { slot: found.slot, confirmations: null, err: found.err, status: found.err ? { Err: found.err } : { Ok: null }, confirmationStatus: 'finalized' }
+          : null;
+      }),
+    }),
+    getSignaturesForAddress: ([address, config]) => {
+      const touching = [...records.values()]
+        .filter((entry) => entry.accountKeys.some((key) => key.toBase58() === address))
+        .reverse();
+      const start = config?.before ? touching.findIndex((entry) => entry.signature === config.before) + 1 : 0;
+      return touching.slice(start, start + (config?.limit ?? 1000)).map((entry) => ({
+        signature: entry.signature,
+        slot: entry.slot,
+        err: entry.err,
+        memo: null,
+        blockTime: entry.blockTime,
+        confirmationStatus: 'finalized',
+      }));
+    },
+    getTransaction: ([signature]) => {
+      const found = records.get(signature);
+      if (!found?.transaction) return null;
+      const { message, signatures } = found.transaction;
+      const legacy = message.version === 'legacy';
+      return {
+        slot: found.slot,
+        blockTime: found.blockTime,
+        ...(legacy ? {} : { version: message.version }),
+        transaction: {
+          signatures: signatures.map((bytes) => utils.bytes.bs58.encode(bytes)),
+          message: {
+            header: message.header,
+            accountKeys: message.staticAccountKeys.map((key) => key.toBase58()),
+            recentBlockhash: message.recentBlockhash,
+            instructions: message.compiledInstructions.map((instruction) => ({
+              programIdIndex: instruction.programIdIndex,
+              accounts: instruction.accountKeyIndexes,
+              data: utils.bytes.bs58.encode(instruction.data),
+            })),
+            ...(legacy ? {} : { addressTableLookups: [] }),
+          },
+        },
+        meta: {
+          err: found.err,
+          status: found.err ? { Err: found.err } : { Ok: null },
+          fee: found.fee,
+          preBalances: found.preBalances,
+          postBalances: found.postBalances,
+          innerInstructions: [],
+          logMessages: found.logs,
+          preTokenBalances: [],
+          postTokenBalances: [],
+          rewards: [],
+          loadedAddresses: { writable: [], readonly: [] },
+          computeUnitsConsumed: found.unitsConsumed,
+        },
+      };
+    },
+  };
+
+  const handle = async ({ id, method, params = [] }: { id: unknown; method: string; params?: any[] }) => {
+    const handler = handlers[method];
+    if (!handler) return { jsonrpc: '2.0', id, error: { code: -32601, message: `Method not found: ${method}` } };
+    try {
+      return { jsonrpc: '2.0', id, result: await handler(params) };
+    } catch (error) {
+      const code = error instanceof RpcError ? error.code : -32603;
+      return { jsonrpc: '2.0', id, error: { code, message: (error as Error).message } };
+    }
+  };
+
+  const onRequest = async (request: IncomingMessage, response: ServerResponse) => {
+    response.setHeader('Access-Control-Allow-Origin', '*');
+    response.setHeader('Access-Control-Allow-Headers', '*');
+    if (request.method === 'OPTIONS') {
+      response.writeHead(204).end();
+      return;
+    }
+    let body: unknown;
+    try {
+      body = JSON.parse(await readBody(request));
+    } catch {
+      response.writeHead(400, { 'Content-Type': 'application/json' }).end(JSON.stringify({ jsonrpc: '2.0', id: null, error: { code: -32700, message: 'Parse error' } }));
+      return;
+    }
+    // web3.js batches getTransactions into one request
+    const reply = Array.isArray(body) ? await Promise.all(body.map(handle)) : await handle(body as Parameters<typeof handle>[0]);
+    response.writeHead(200, { 'Content-Type': 'application/json' }).end(JSON.stringify(reply));
+  };
+
+  const onSocketMessage = (socket: WebSocket, raw: string) => {
+    const { id, method, params = [] } = JSON.parse(raw) as { id: unknown; method: string; params?: any[] };
+    const reply = (result: unknown) => socket.send(JSON.stringify({ jsonrpc: '2.0', id, result }));
+    const kind = method.replace(/(Subscribe|Unsubscribe)$/, '') as Subscription['kind'];
+    if (method.endsWith('Unsubscribe')) {
+      reply(subscriptions.delete(params[0]));
+      return;
+    }
+    if (!['account', 'program', 'signature'].includes(kind) || !method.endsWith('Subscribe')) {
+      socket.send(JSON.stringify({ jsonrpc: '2.0', id, error: { code: -32601, message: `Method not found: ${method}` } }));
+      return;
+    }
+    const subscriptionId = nextSubscriptionId++;
+    subscriptions.set(subscriptionId, { socket, kind, key: params[0], filters: params[1]?.filters });
+    reply(subscriptionId);
+    // Everything is final as soon as it lands, so a signature that is already known is reported right away
+    const landed = kind === 'signature' ? records.get(params[0]) : undefined;
+    if (landed) setTimeout(() => notifySignature(landed), 0);
+  };
+
+  // The websocket goes on the port after the HTTP one, where web3.js looks for it; retry until both are free
+  for (let attempt = 1; ; attempt++) {
+    const http = createServer((request, response) => {
+      onRequest(request, response).catch((error) => response.writeHead(500).end(String(error)));
+    });
+    await listen(http, 0);
+    const { port } = http.address() as AddressInfo;
+    const sockets = new WebSocketServer({ host: '127.0.0.1', port: port + 1 });
+    try {
+      await listen(sockets, port + 1);
+    } catch (error) {
+      http.close();
+      if (attempt >= 10) throw error;
+      continue;
+    }
+    sockets.on('connection', (socket) => {
+      socket.on('message', (data) => onSocketMessage(socket, data.toString()));
+      socket.on('close', () => {
+        for (const [id, subscription] of subscriptions) {
+          if (subscription.socket === socket) subscriptions.delete(id);
+        }
+      });
+    });
+
+    const ensureAccount = (owner: PublicKey) => {
+      const key = owner.toBase58();
+      const account = accounts.get(key) ?? emptyAccount();
+      accounts.set(key, account);
+      return account;
+    };
+
+    return {
+      url: `http://127.0.0.1:${port}`,
+      programId,
+      airdrop: async (owner, lamports) => {
+        ensureAccount(owner).lamports += lamports;
+        notifyAccountChanges([owner.toBase58()]);
+      },
+      setBalance: (owner, lamports) => {
+        ensureAccount(owner).lamports = lamports;
+        notifyAccountChanges([owner.toBase58()]);
+      },
+      balanceOf: (owner) => accounts.get(owner.toBase58())?.lamports ?? 0,
+      addCampaign: async ({ admin, name, description = '', amountDonated = 0 }) => {
+        const [address] = PublicKey.findProgramAddressSync(resolveSeeds(getCampaignSeeds(), { user: admin }), programId);
+        const data = await encodeCampaign({ admin, name, description, amountDonated: new BN(amountDonated) });
+        accounts.set(address.toBase58(), {
+          lamports: minimumBalanceForRentExemption(data.length) + amountDonated,
+          owner: programId,
+          data,
+          executable: false,
+        });
+        notifyAccountChanges([address.toBase58()]);
+        return address;
+      },
+      campaignAt: (address) => {
+        const account = accounts.get(address.toBase58());
+        return account?.owner.equals(programId) ? decodeCampaign(account.data) : null;
+      },
+      transactions: () => [...records.values()],
+      setPrioritizationFees: (fees) => {
+        prioritizationFees = fees;
+      },
+      reset: () => {
+        accounts.clear();
+        records.clear();
+        addProgramAccount();
+      },
+      close: async () => {
+        sockets.clients.forEach((client) => client.terminate());
+        await new Promise<void>((resolve) => sockets.close(() => resolve()));
+        http.closeAllConnections();
+        await new Promise<void>((resolve) => http.close(() => resolve()));
+      },
+    };
+  }
+};
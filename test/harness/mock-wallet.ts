@@ -0,0 +1,134 @@
+import { createPrivateKey, sign } from 'node:crypto';
+import { Keypair, Transaction, VersionedTransaction } from '@solana/web3.js';
+import type { CampaignBatchSigner } from '../../src/lib/campaign-client';
+import type { InjectedProvider, SignableTransaction, SolanaWindow } from '../../src/lib/wallets';
+
+// What Phantom throws when the user closes or rejects a prompt
+export class WalletRejectedError extends Error {
+  code = 4001;
+
+  constructor() {
+    super('User rejected the request.');
+    this.name = 'WalletRejectedError';
+  }
+}
+
+type MockWalletMethod = 'connect' | 'signTransaction' | 'signAllTransactions' | 'signMessage';
+
+// The `window.solana` surface the app uses, backed by a keypair and approving every prompt unless told otherwise
+export interface MockWallet extends InjectedProvider {
+  keypair: Keypair;
+  // Every prompt the app opened, in order
+  requests: MockWalletMethod[];
+  // Makes the next prompt fail as if the user rejected it
+  rejectNext: () => void;
+  // Lets `connect({ onlyIfTrusted: true })` succeed, as for a site approved on an earlier visit
+  trust: () => void;
+  emit: (event: string, ...args: unknown[]) => void;
+}
+
+export const signWithKeypair = <T extends SignableTransaction>(keypair: Keypair, transaction: T): T => {
+  if (transaction instanceof VersionedTransaction) {
+    transaction.sign([keypair]);
+  } else {
+    (transaction as Transaction).partialSign(keypair);
+  }
+  return transaction;
+};
+
+// A Keypair as a campaign client signer, for tests that skip the wallet
+export const keypairSigner = (keypair: Keypair): CampaignBatchSigner => ({
+  publicKey: keypair.publicKey,
+  signTransaction: async (transaction) => signWithKeypair(keypair, transaction),
+  signAllTransactions: async (transactions) => transactions.map((transaction) => signWithKeypair(keypair, transaction)),
+});
+
+const signMessageWithKeypair = (keypair: Keypair, message: Uint8Array): Uint8Array => {
+  const key = createPrivateKey({
+    key: {
+      kty: 'OKP',
+      crv: 'Ed25519',
+      d: Buffer.from(keypair.secretKey.subarray(0, 32)).toString('base64url'),
+      x: Buffer.from(keypair.publicKey.toBytes()).toString('base64url'),
+    },
+    format: 'jwk',
+  });
+  return new Uint8Array(sign(null, message, key));
+};
+
+export const createMockWallet = (keypair = Keypair.generate()): MockWallet => {
+  const listeners = new Map<string, Set<(...args: any[]) => void>>();
+  let trusted = false;
+  let rejectNextRequest = false;
+
+  const prompt = async (method: MockWalletMethod) => {
+    wallet.requests.push(method);
+    if (rejectNextRequest) {
+      rejectNextRequest = false;
+      throw new WalletRejectedError();
+    }
+  };
+
+  const wallet: MockWallet = {
+    isPhantom: true,
+    isConnected: false,
+    publicKey: null,
+    keypair,
+    requests: [],
+    rejectNext: () => {
+      rejectNextRequest = true;
+    },
+    trust: () => {
+      trusted = true;
+    },
+    async connect(options) {
+      // Phantom refuses a silent connect for sites the user has not approved yet
+      if (options?.onlyIfTrusted && !trusted) throw new WalletRejectedError();
+      if (!options?.onlyIfTrusted) await prompt('connect');
+      trusted = true;
+      wallet.isConnected = true;
+      wallet.publicKey = keypair.publicKey;
+      wallet.emit('connect', keypair.publicKey);
+      return { publicKey: keypair.publicKey };
+    },
+    async disconnect() {
+      wallet.isConnected = false;
+      wallet.publicKey = null;
+      wallet.emit('disconnect');
+    },
+    async signTransaction(transaction) {
+      await prompt('signTransaction');
+      return signWithKeypair(keypair, transaction);
+    },
+    async signAllTransactions(transactions) {
+      await prompt('signAllTransactions');
+      return transactions.map((transaction) => signWithKeypair(keypair, transaction));
+    },
+    async signMessage(message) {
+      await prompt('signMessage');
+      return { signature: signMessageWithKeypair(keypair, message) };
+    },
+    on(event, listener) {
+      if (!listeners.has(event)) listeners.set(event, new Set());
+      listeners.get(event)!.add(listener);
+    },
+    off(event, listener) {
+      listeners.get(event)?.delete(listener);
+    },
+    emit(event, ...args) {
+      listeners.get(event)?.forEach((listener) => listener(...args));
+    },
+  };
+  return wallet;
+};
+
+// Injects the wallet where Phantom does; returns a function that removes it again
+export const installMockWallet = (wallet: MockWallet) => {
+  const win = window as SolanaWindow;
+  win.solana = wallet;
+  win.phantom = { solana: wallet };
+  return () => {
+    delete win.solana;
+    delete win.phantom;
+  };
+};
@@ -0,0 +1,35 @@
+import { describe, expect, it } from 'vitest';
+import { createTranslator, negotiateLocale, translate } from '../../src/lib/i18n';
+import { validateDonation } from '../../src/lib/amounts';
+import { decodeError } from '../../src/lib/errors';
+
+describe('i18n', () => {
+  it('negotiates a supported locale from Accept-Language or navigator.languages', () => {
+    expect(negotiateLocale('es-MX,es;q=0.9,en;q=0.8')).toBe('es');
+    expect(negotiateLocale('fr-FR, en-GB;q=0.8')).toBe('en');
+    expect(negotiateLocale(['de', 'es-ES'])).toBe('es');
+    expect(negotiateLocale(undefined)).toBe('en');
+  });
+
+  it('picks plural forms and formats numbers for the locale', () => {
+    const es = createTranslator('es');
+
+    expect(translate('cart.donate', { count: 1 })).toBe('Donate to 1 campaign');
+    expect(translate('cart.donate', { count: 3 })).toBe('Donate to 3 campaigns');
+    expect(es('cart.donate', { count: 3 })).toBe('Donar a 3 campañas');
+    expect(translate('analytics.truncated', { count: 1000 })).toContain('1,000');
+    expect(es('analytics.donationCount', { count: 12345 })).toBe('12.345 donaciones');
+  });
+
+  it('translates validation errors', () => {
+    expect(validateDonation('', null, createTranslator('es'))).toEqual({ ok: false, error: 'Introduce un importe' });
+    expect(validateDonation('', null)).toEqual({ ok: false, error: 'Enter an amount' });
+  });
+
+  it('translates decoded runtime errors', () => {
+    const error = new Error('Transfer: insufficient lamports 100, need 5000');
+
+    expect(decodeError(error).message).toBe('Insufficient funds for this transaction');
+    expect(decodeError(error, createTranslator('es')).message).toBe('Fondos insuficientes para esta transacción');
+  });
+});
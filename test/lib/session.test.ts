@@ -0,0 +1,50 @@
+import { generateKeyPairSync, sign } from 'node:crypto';
+import { describe, expect, it } from 'vitest';
+import { PublicKey } from '@solana/web3.js';
+import { utils } from '@project-serum/anchor';
+import { createSessionCookie, issueNonce, readSession, verifySignIn } from '../../src/lib/session';
+import { formatSignInMessage, SIGN_IN_MESSAGE_TTL_MS, SIGN_IN_STATEMENT, SIGN_IN_VERSION } from '../../src/lib/siws';
+
+const HOST = 'localhost:3000';
+
+// A sign-in message for the nonce, signed by a fresh wallet key
+const signIn = (nonce: string, now: number) => {
+  const { publicKey, privateKey } = generateKeyPairSync('ed25519');
+  const address = new PublicKey(Buffer.from(publicKey.export({ format: 'jwk' }).x!, 'base64url')).toBase58();
+  const message = formatSignInMessage({
+    domain: HOST,
+    address,
+    statement: SIGN_IN_STATEMENT,
+    uri: `http://${HOST}`,
+    version: SIGN_IN_VERSION,
+    nonce,
+    issuedAt: new Date(now).toISOString(),
+    expirationTime: new Date(now + SIGN_IN_MESSAGE_TTL_MS).toISOString(),
+  });
+  const signature = utils.bytes.bs58.encode(sign(null, Buffer.from(message, 'utf8'), privateKey));
+  return { address, message, signature };
+};
+
+describe('session tokens', () => {
+  it('signs in with the nonce cookie and reads the session back', () => {
+    const now = Date.now();
+    const { nonce, cookie } = issueNonce(now);
+    const { address, message, signature } = signIn(nonce, now);
+
+    const session = verifySignIn({ message, signature }, cookie, HOST, now);
+
+    expect(session.address).toBe(address);
+    expect(readSession(createSessionCookie(session), now)).toEqual(session);
+  });
+
+  it('does not accept a nonce cookie as a session or a session cookie as a nonce', () => {
+    const now = Date.now();
+    const { nonce, cookie } = issueNonce(now);
+    const { message, signature } = signIn(nonce, now);
+    // Shaped like a nonce token, so only its type tells them apart
+    const sessionCookie = createSessionCookie({ nonce, expiresAt: now + 60_000 } as never);
+
+    expect(readSession(cookie, now)).toBeNull();
+    expect(() => verifySignIn({ message, signature }, sessionCookie, HOST, now)).toThrow('Sign-in request expired');
+  });
+});
@@ -0,0 +1,20 @@
+import { createElement, ReactNode } from 'react';
+import { afterEach, vi } from 'vitest';
+import { cleanup, configure } from '@testing-library/react';
+
+// jsdom brings its own Uint8Array, which Node's Buffers do not extend; @solana/buffer-layout checks buffers against it
+globalThis.Uint8Array = Object.getPrototypeOf(Buffer.prototype).constructor;
+
+// Transactions go through simulation, signing and confirmation before the UI settles
+configure({ asyncUtilTimeout: 10_000 });
+
+// next/link needs the app router, which is not mounted outside Next.js
+vi.mock('next/link', () => ({
+  default: ({ href, children, ...props }: { href: string; children: ReactNode }) => createElement('a', { href, ...props }, children),
+}));
+
+afterEach(() => {
+  cleanup();
+  // Node-environment suites have no storage
+  if (typeof localStorage !== 'undefined') localStorage.clear();
+});